@@ -22,6 +22,16 @@ export default tseslint.config(
 		},
 	},
 	...obsidianmd.configs.recommended,
+	{
+		// Tests run in Node with its built-in test runner, which returns a promise per test
+		files: ["src/**/*.test.ts"],
+		rules: {
+			"import/no-nodejs-modules": "off",
+			"@typescript-eslint/no-floating-promises": "off",
+			// Tests build plain objects in place of vault files
+			"obsidianmd/no-tfile-tfolder-cast": "off",
+		},
+	},
 	globalIgnores([
 		"node_modules",
 		"dist",
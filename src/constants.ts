@@ -1,5 +1,3 @@
-export const FILE_FETCH_MULTIPLIER = 3;
-
 export const DEBOUNCE_REFRESH_MS = 1000;
 export const MAX_PREVIEW_LENGTH = 800;
 
@@ -9,6 +7,31 @@ export const MAX_PREVIEW_LENGTH = 800;
  */
 export const MAX_CARD_HEIGHT = 600;
 
+/**
+ * Most masonry columns a resized card can span.
+ */
+export const MAX_CARD_SPAN = 3;
+
+/**
+ * Range of heights a card can be resized to, in pixels.
+ */
+export const CARD_HEIGHT_RANGE = { MIN: 80, MAX: 1200 } as const;
+
+/**
+ * Space in pixels between masonry columns and between the cards in a column.
+ */
+export const MASONRY_GAP_PX = 12;
+
+/**
+ * Range of the minimum card width setting, in pixels.
+ */
+export const MIN_CARD_WIDTH_RANGE = { MIN: 140, MAX: 600 } as const;
+
+/**
+ * Largest fixed number of masonry columns.
+ */
+export const MAX_MASONRY_COLUMNS = 8;
+
 export const CARD_SIZE = {
 	XL: 800,
 	LARGE: 500,
@@ -16,3 +39,27 @@ export const CARD_SIZE = {
 	SMALL: 100,
 	XS: 0
 } as const;
+
+/**
+ * Distance in pixels above and below the viewport within which dashboard cards are mounted.
+ * Cards further away are kept as empty placeholders.
+ */
+export const VIRTUALIZATION_MARGIN_PX = 1200;
+
+/**
+ * Pastel note colors. The CSS variable is what gets stored, so colors follow the active theme.
+ */
+export const PASTEL_COLORS = [
+	{ name: 'Pink', color: 'var(--pastel-pink)' },
+	{ name: 'Peach', color: 'var(--pastel-peach)' },
+	{ name: 'Yellow', color: 'var(--pastel-yellow)' },
+	{ name: 'Green', color: 'var(--pastel-green)' },
+	{ name: 'Blue', color: 'var(--pastel-blue)' },
+	{ name: 'Purple', color: 'var(--pastel-purple)' },
+	{ name: 'Magenta', color: 'var(--pastel-magenta)' }
+] as const;
+
+/**
+ * Number of dashboard actions kept for undo. Older actions are dropped.
+ */
+export const MAX_HISTORY_ENTRIES = 100;
@@ -0,0 +1,266 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { DashboardData } from './types';
+import { DEFAULT_BOARD_FILTERS, DEFAULT_BOARD_LAYOUT, DEFAULT_DATA, DEFAULT_SORT_ORDER } from './types';
+import {
+	CURRENT_SCHEMA_VERSION,
+	DATA_MIGRATIONS,
+	createDefaultData,
+	mergeWithDefaults,
+	migrateAddSchemaVersion,
+	migrateData,
+	migrateEmptySourceFolder,
+	repairBoards,
+	repairCardSizes,
+	repairEnums,
+	repairFileSizes,
+	repairFilterPresets,
+	repairFilters,
+	repairFolderLists,
+	repairMasonry,
+	repairMaxNotes,
+	repairNoteColors,
+	repairPinnedNotes,
+	repairSortOrder,
+	repairTheme
+} from './data-migrations';
+
+// Default data with some fields replaced, typed loosely so tests can store broken values
+function dataWith(fields: Record<string, unknown>): DashboardData {
+	return { ...createDefaultData(), ...fields } as DashboardData;
+}
+
+describe('migrations', () => {
+	test('run in version order, up to the current schema version', () => {
+		const versions = DATA_MIGRATIONS.map(migration => migration.version);
+		assert.deepEqual(versions, [...versions].sort((a, b) => a - b));
+		assert.equal(versions[versions.length - 1], CURRENT_SCHEMA_VERSION);
+	});
+
+	test('migrateEmptySourceFolder turns an empty source folder into the whole vault', () => {
+		const data: Record<string, unknown> = { sourceFolder: '' };
+		migrateEmptySourceFolder(data);
+		assert.deepEqual(data, { sourceFolder: '/' });
+	});
+
+	test('migrateEmptySourceFolder keeps a chosen folder', () => {
+		const data: Record<string, unknown> = { sourceFolder: 'Notes' };
+		migrateEmptySourceFolder(data);
+		assert.deepEqual(data, { sourceFolder: 'Notes' });
+	});
+
+	test('migrateAddSchemaVersion sets version 2', () => {
+		const data: Record<string, unknown> = { viewTitle: 'Mine' };
+		migrateAddSchemaVersion(data);
+		assert.deepEqual(data, { viewTitle: 'Mine', schemaVersion: 2 });
+	});
+});
+
+describe('repairs', () => {
+	test('repairTheme resets unknown themes and invalid custom colors', () => {
+		const data = dataWith({ themeColor: 'neon', customThemeColor: 'red' });
+		repairTheme(data);
+		assert.equal(data.themeColor, DEFAULT_DATA.themeColor);
+		assert.equal(data.customThemeColor, DEFAULT_DATA.customThemeColor);
+
+		const valid = dataWith({ themeColor: 'custom', customThemeColor: '#A1b2C3' });
+		repairTheme(valid);
+		assert.equal(valid.themeColor, 'custom');
+		assert.equal(valid.customThemeColor, '#A1b2C3');
+	});
+
+	test('repairMaxNotes falls back for non-positive values and rounds down', () => {
+		const negative = dataWith({ maxNotes: -5 });
+		repairMaxNotes(negative);
+		assert.equal(negative.maxNotes, DEFAULT_DATA.maxNotes);
+
+		const fraction = dataWith({ maxNotes: 42.9 });
+		repairMaxNotes(fraction);
+		assert.equal(fraction.maxNotes, 42);
+	});
+
+	test('repairMasonry clamps columns and card width', () => {
+		const data = dataWith({ masonryColumns: 20, minCardWidth: 10 });
+		repairMasonry(data);
+		assert.equal(data.masonryColumns, 8);
+		assert.equal(data.minCardWidth, 140);
+
+		const broken = dataWith({ masonryColumns: -1, minCardWidth: Number.NaN });
+		repairMasonry(broken);
+		assert.equal(broken.masonryColumns, DEFAULT_DATA.masonryColumns);
+		assert.equal(broken.minCardWidth, DEFAULT_DATA.minCardWidth);
+	});
+
+	test('repairPinnedNotes drops duplicates and non-strings', () => {
+		const data = dataWith({ pinnedNotes: ['a.md', 'a.md', 3, 'b.md'], noteOrder: ['b.md', null, 'b.md'] });
+		repairPinnedNotes(data);
+		assert.deepEqual(data.pinnedNotes, ['a.md', 'b.md']);
+		assert.deepEqual(data.noteOrder, ['b.md']);
+	});
+
+	test('repairNoteColors converts names and drops unknown colors', () => {
+		const data = dataWith({ noteColors: { 'a.md': 'yellow', 'b.md': 'var(--pastel-blue)', 'c.md': '#ff0000' } });
+		repairNoteColors(data);
+		assert.deepEqual(data.noteColors, { 'a.md': 'var(--pastel-yellow)', 'b.md': 'var(--pastel-blue)' });
+	});
+
+	test('repairCardSizes clamps sizes and drops ones that change nothing', () => {
+		const data = dataWith({
+			cardSizes: {
+				'wide.md': { columns: 9, maxHeight: 5 },
+				'tall.md': { columns: 1, maxHeight: 5000 },
+				'plain.md': { columns: 1, maxHeight: null },
+				'broken.md': 'big'
+			}
+		});
+		repairCardSizes(data);
+		assert.deepEqual(data.cardSizes, {
+			'wide.md': { columns: 3, maxHeight: 80 },
+			'tall.md': { columns: 1, maxHeight: 1200 }
+		});
+	});
+
+	test('repairFileSizes drops sizes and open times that are not numbers', () => {
+		const data = dataWith({ noteFileSizes: { 'a.md': 120, 'b.md': 'big' }, lastOpened: { 'a.md': 1000, 'b.md': null } });
+		repairFileSizes(data);
+		assert.deepEqual(data.noteFileSizes, { 'a.md': 120 });
+		assert.deepEqual(data.lastOpened, { 'a.md': 1000 });
+	});
+
+	test('repairEnums resets unknown values', () => {
+		const data = dataWith({ defaultViewType: 'popup', storageMode: 'cloud', searchMode: 'regex' });
+		repairEnums(data);
+		assert.equal(data.defaultViewType, DEFAULT_DATA.defaultViewType);
+		assert.equal(data.storageMode, DEFAULT_DATA.storageMode);
+		assert.equal(data.searchMode, DEFAULT_DATA.searchMode);
+	});
+
+	test('repairFolderLists cleans folders, extensions and the archive folder', () => {
+		const data = dataWith({
+			excludedFolders: ['Templates', ' ', 'Templates'],
+			allowedExtensions: ['MD', 'md', 'pdf'],
+			archiveFolder: ' Old/ '
+		});
+		repairFolderLists(data);
+		assert.deepEqual(data.excludedFolders, ['Templates']);
+		assert.deepEqual(data.allowedExtensions, ['md', 'pdf']);
+		assert.equal(data.archiveFolder, 'Old');
+
+		const empty = dataWith({ archiveFolder: '  ' });
+		repairFolderLists(empty);
+		assert.equal(empty.archiveFolder, DEFAULT_DATA.archiveFolder);
+	});
+
+	test('repairFilters fills in missing fields', () => {
+		assert.deepEqual(repairFilters(undefined), DEFAULT_BOARD_FILTERS);
+	});
+
+	test('repairFilters converts a legacy single tag and folder', () => {
+		const filters = repairFilters({ tag: '#work', folder: 'Projects', pinned: 'pinned', search: 'todo' });
+		assert.deepEqual(filters.tags, { include: ['#work'], exclude: [], mode: 'all' });
+		assert.deepEqual(filters.folders, { include: ['Projects'], exclude: [] });
+		assert.equal(filters.pinned, 'pinned');
+		assert.equal(filters.search, 'todo');
+	});
+
+	test('repairFilters drops excluded tags that are also included and invalid dates', () => {
+		const filters = repairFilters({
+			tags: { include: ['#a'], exclude: ['#a', '#b'], mode: 'any' },
+			date: { field: 'name', preset: 'custom', from: '2026-01-01', to: 'tomorrow' }
+		});
+		assert.deepEqual(filters.tags, { include: ['#a'], exclude: ['#b'], mode: 'any' });
+		assert.deepEqual(filters.date, { field: 'name', preset: 'custom', from: '2026-01-01', to: null });
+	});
+
+	test('repairSortOrder falls back to manual order', () => {
+		assert.deepEqual(repairSortOrder({ field: 'random', direction: 'up' }), DEFAULT_SORT_ORDER);
+		assert.deepEqual(repairSortOrder({ field: 'title', direction: 'desc' }), { field: 'title', direction: 'desc' });
+	});
+
+	test('repairBoards drops boards without an id or with a duplicate one and fills in the rest', () => {
+		const data = dataWith({
+			boards: [
+				{ id: 'work', name: ' ', sourceFolders: [], themeColor: 'pink', layout: { mode: 'kanban', density: 'huge' } },
+				{ id: 'work', name: 'Duplicate' },
+				{ name: 'No id' }
+			]
+		});
+		repairBoards(data);
+		assert.deepEqual(data.boards, [{
+			id: 'work',
+			name: 'Untitled board',
+			viewTitle: 'Untitled board',
+			sourceFolders: ['/'],
+			excludedFolders: [],
+			themeColor: 'obsidian',
+			customThemeColor: DEFAULT_DATA.customThemeColor,
+			filters: DEFAULT_BOARD_FILTERS,
+			sort: DEFAULT_SORT_ORDER,
+			layout: { ...DEFAULT_BOARD_LAYOUT, mode: 'kanban' }
+		}]);
+	});
+
+	test('repairBoards repairs the default board settings', () => {
+		const data = dataWith({ defaultBoardSort: { field: 'size' }, defaultBoardLayout: null });
+		repairBoards(data);
+		assert.deepEqual(data.defaultBoardSort, { field: 'size', direction: 'asc' });
+		assert.deepEqual(data.defaultBoardLayout, DEFAULT_BOARD_LAYOUT);
+	});
+
+	test('repairFilterPresets keeps a missing sort order as none', () => {
+		const data = dataWith({
+			filterPresets: [
+				{ id: 'p1', name: 'Work', filters: { search: 'work' } },
+				{ id: 'p1', name: 'Duplicate' },
+				{ id: 'p2', name: '', sort: { field: 'title', direction: 'asc' } }
+			]
+		});
+		repairFilterPresets(data);
+		assert.deepEqual(data.filterPresets, [
+			{ id: 'p1', name: 'Work', filters: { ...DEFAULT_BOARD_FILTERS, search: 'work' }, sort: null },
+			{ id: 'p2', name: 'Untitled preset', filters: DEFAULT_BOARD_FILTERS, sort: { field: 'title', direction: 'asc' } }
+		]);
+	});
+});
+
+describe('loading', () => {
+	test('mergeWithDefaults keeps known keys whose type matches the default', () => {
+		const data = mergeWithDefaults({ viewTitle: 'Mine', maxNotes: 'many', pinnedNotes: 'a.md', unknown: true });
+		assert.equal(data.viewTitle, 'Mine');
+		assert.equal(data.maxNotes, DEFAULT_DATA.maxNotes);
+		assert.deepEqual(data.pinnedNotes, []);
+		assert.equal('unknown' in data, false);
+	});
+
+	test('mergeWithDefaults does not share nested defaults between results', () => {
+		const first = mergeWithDefaults({});
+		first.pinnedNotes.push('a.md');
+		assert.deepEqual(mergeWithDefaults({}).pinnedNotes, []);
+	});
+
+	test('migrateData upgrades unversioned data and reports the change', () => {
+		const { data, changed } = migrateData({ sourceFolder: '', noteColors: { 'a.md': 'green' } });
+		assert.equal(changed, true);
+		assert.equal(data.schemaVersion, CURRENT_SCHEMA_VERSION);
+		assert.equal(data.sourceFolder, '/');
+		assert.deepEqual(data.noteColors, { 'a.md': 'var(--pastel-green)' });
+	});
+
+	test('migrateData leaves current data unchanged', () => {
+		const { data } = migrateData({});
+		const again = migrateData(data);
+		assert.equal(again.changed, false);
+		assert.deepEqual(again.data, data);
+	});
+
+	test('migrateData starts from the defaults for unreadable data', () => {
+		const { data, changed } = migrateData('corrupted');
+		assert.equal(changed, true);
+		assert.deepEqual(data, createDefaultData());
+	});
+
+	test('migrateData does not run migrations the data already had', () => {
+		const { data } = migrateData({ schemaVersion: 2, sourceFolder: '' });
+		assert.equal(data.sourceFolder, '');
+	});
+});
@@ -0,0 +1,335 @@
+import { BoardConfig, BoardFilters, BoardLayout, CardSize, DashboardData, DateField, DateFilter, DatePreset, FolderFilter, GroupBy, TagFilter, DEFAULT_BOARD_FILTERS, DEFAULT_BOARD_LAYOUT, DEFAULT_DATA, DEFAULT_SORT_ORDER, FilterPreset, SortOrder } from './types';
+import { colorFromName } from './utils/colors';
+import { CARD_HEIGHT_RANGE, MAX_CARD_SPAN, MAX_MASONRY_COLUMNS, MIN_CARD_WIDTH_RANGE } from './constants';
+
+export const CURRENT_SCHEMA_VERSION = 2;
+
+type RawData = Record<string, unknown>;
+
+/**
+ * A one-off upgrade of stored data, run once when the stored schema version is older.
+ */
+export interface DataMigration {
+	// Schema version the data is at after this migration has run
+	version: number;
+	migrate: (data: RawData) => void;
+}
+
+/**
+ * A validation step run on every load; fixes values that would break the views.
+ */
+export type DataRepair = (data: DashboardData) => void;
+
+// Fresh copy of the defaults, so nested arrays and objects are never shared
+export function createDefaultData(): DashboardData {
+	return JSON.parse(JSON.stringify(DEFAULT_DATA)) as DashboardData;
+}
+
+// Version 1: an empty source folder used to mean "whole vault" before "/" became the default
+export function migrateEmptySourceFolder(data: RawData) {
+	if (data.sourceFolder === '') {
+		data.sourceFolder = DEFAULT_DATA.sourceFolder;
+	}
+}
+
+// Version 2: data gained a schema version; nothing to convert
+export function migrateAddSchemaVersion(data: RawData) {
+	data.schemaVersion = 2;
+}
+
+export const DATA_MIGRATIONS: DataMigration[] = [
+	{ version: 1, migrate: migrateEmptySourceFolder },
+	{ version: 2, migrate: migrateAddSchemaVersion }
+];
+
+export function repairTheme(data: DashboardData) {
+	if (!['obsidian', 'black', 'custom'].includes(data.themeColor)) {
+		data.themeColor = DEFAULT_DATA.themeColor;
+	}
+	if (!/^#[0-9a-f]{6}$/i.test(data.customThemeColor)) {
+		data.customThemeColor = DEFAULT_DATA.customThemeColor;
+	}
+}
+
+export function repairMaxNotes(data: DashboardData) {
+	if (!Number.isFinite(data.maxNotes) || data.maxNotes <= 0) {
+		data.maxNotes = DEFAULT_DATA.maxNotes;
+	}
+	data.maxNotes = Math.floor(data.maxNotes);
+}
+
+export function repairMasonry(data: DashboardData) {
+	const columns = Math.floor(data.masonryColumns);
+	data.masonryColumns = Number.isFinite(columns) && columns >= 0 ? Math.min(columns, MAX_MASONRY_COLUMNS) : DEFAULT_DATA.masonryColumns;
+	const width = Math.round(data.minCardWidth);
+	data.minCardWidth = Number.isFinite(width)
+		? Math.min(Math.max(width, MIN_CARD_WIDTH_RANGE.MIN), MIN_CARD_WIDTH_RANGE.MAX)
+		: DEFAULT_DATA.minCardWidth;
+}
+
+export function repairPinnedNotes(data: DashboardData) {
+	data.pinnedNotes = uniqueStrings(data.pinnedNotes);
+	data.noteOrder = uniqueStrings(data.noteOrder);
+}
+
+// Keep only pastel CSS variables; short names like "yellow" are converted, anything else is dropped
+export function repairNoteColors(data: DashboardData) {
+	const repaired: Record<string, string> = {};
+	for (const [path, value] of Object.entries(data.noteColors)) {
+		const color = colorFromName(value);
+		if (color) {
+			repaired[path] = color;
+		}
+	}
+	data.noteColors = repaired;
+}
+
+// Clamp card sizes to what can be set by resizing; sizes that change nothing are dropped
+export function repairCardSizes(data: DashboardData) {
+	const repaired: Record<string, CardSize> = {};
+	for (const [path, value] of Object.entries(data.cardSizes as Record<string, unknown>)) {
+		if (!isPlainObject(value)) continue;
+		const columns = typeof value.columns === 'number' && Number.isFinite(value.columns)
+			? Math.min(Math.max(Math.round(value.columns), 1), MAX_CARD_SPAN)
+			: 1;
+		const maxHeight = typeof value.maxHeight === 'number' && Number.isFinite(value.maxHeight)
+			? Math.min(Math.max(Math.round(value.maxHeight), CARD_HEIGHT_RANGE.MIN), CARD_HEIGHT_RANGE.MAX)
+			: null;
+		if (columns > 1 || maxHeight !== null) {
+			repaired[path] = { columns, maxHeight };
+		}
+	}
+	data.cardSizes = repaired;
+}
+
+export function repairFileSizes(data: DashboardData) {
+	for (const [path, size] of Object.entries(data.noteFileSizes)) {
+		if (typeof size !== 'number' || !Number.isFinite(size)) {
+			delete data.noteFileSizes[path];
+		}
+	}
+	for (const [path, time] of Object.entries(data.lastOpened)) {
+		if (typeof time !== 'number' || !Number.isFinite(time)) {
+			delete data.lastOpened[path];
+		}
+	}
+}
+
+export function repairEnums(data: DashboardData) {
+	if (!['dashboard', 'sidebar'].includes(data.defaultViewType)) {
+		data.defaultViewType = DEFAULT_DATA.defaultViewType;
+	}
+	if (!['plugin-data', 'frontmatter'].includes(data.storageMode)) {
+		data.storageMode = DEFAULT_DATA.storageMode;
+	}
+	if (!['filter', 'fuzzy'].includes(data.searchMode)) {
+		data.searchMode = DEFAULT_DATA.searchMode;
+	}
+}
+
+export function repairFolderLists(data: DashboardData) {
+	data.excludedFolders = uniqueStrings(data.excludedFolders).filter(folder => folder.trim() !== '');
+	data.allowedExtensions = uniqueStrings(data.allowedExtensions.map(ext => ext.toLowerCase()));
+	data.archiveFolder = data.archiveFolder.trim().replace(/\/+$/, '') || DEFAULT_DATA.archiveFolder;
+}
+
+// Older data stored a single tag, which becomes the only included tag
+function repairTagFilter(value: unknown, legacyTag: unknown): TagFilter {
+	const raw = isPlainObject(value) ? value : {};
+	const tags = (field: unknown) => Array.isArray(field) ? uniqueStrings(field as unknown[]) : [];
+	const include = tags(raw.include);
+	if (!isPlainObject(value) && typeof legacyTag === 'string') {
+		include.push(legacyTag);
+	}
+	return {
+		include,
+		exclude: tags(raw.exclude).filter(tag => !include.includes(tag)),
+		mode: raw.mode === 'any' ? 'any' : 'all'
+	};
+}
+
+// Older data stored a single folder, which becomes the only included folder
+function repairFolderFilter(value: unknown, legacyFolder: unknown): FolderFilter {
+	const raw = isPlainObject(value) ? value : {};
+	const folders = (field: unknown) => Array.isArray(field) ? uniqueStrings(field as unknown[]) : [];
+	const include = folders(raw.include);
+	if (!isPlainObject(value) && typeof legacyFolder === 'string') {
+		include.push(legacyFolder);
+	}
+	return {
+		include,
+		exclude: folders(raw.exclude).filter(folder => !include.includes(folder))
+	};
+}
+
+function repairDateFilter(value: unknown): DateFilter {
+	const raw = isPlainObject(value) ? value : {};
+	const fields = ['created', 'modified', 'property', 'name'];
+	const presets = ['today', 'yesterday', 'this-week', 'last-30-days', 'custom'];
+	const day = (field: unknown) => typeof field === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(field) ? field : null;
+	return {
+		field: typeof raw.field === 'string' && fields.includes(raw.field) ? raw.field as DateField : DEFAULT_BOARD_FILTERS.date.field,
+		preset: typeof raw.preset === 'string' && presets.includes(raw.preset) ? raw.preset as DatePreset : null,
+		from: day(raw.from),
+		to: day(raw.to)
+	};
+}
+
+// Fill in missing or mistyped filter fields
+export function repairFilters(value: unknown): BoardFilters {
+	const raw = isPlainObject(value) ? value : {};
+	const optionalString = (field: unknown) => typeof field === 'string' ? field : null;
+	return {
+		pinned: raw.pinned === 'pinned' || raw.pinned === 'unpinned' ? raw.pinned : DEFAULT_BOARD_FILTERS.pinned,
+		tags: repairTagFilter(raw.tags, raw.tag),
+		folders: repairFolderFilter(raw.folders, raw.folder),
+		date: repairDateFilter(raw.date),
+		color: optionalString(raw.color),
+		type: optionalString(raw.type),
+		search: typeof raw.search === 'string' ? raw.search : DEFAULT_BOARD_FILTERS.search
+	};
+}
+
+function repairLayout(value: unknown): BoardLayout {
+	const raw = isPlainObject(value) ? value : {};
+	const groupings = ['none', 'tag', 'folder', 'color', 'type', 'created-day', 'created-week', 'created-month'];
+	const kanban = isPlainObject(raw.kanban) ? raw.kanban : {};
+	return {
+		mode: raw.mode === 'kanban' || raw.mode === 'timeline' || raw.mode === 'calendar' ? raw.mode : DEFAULT_BOARD_LAYOUT.mode,
+		density: raw.density === 'grid' || raw.density === 'list' ? raw.density : DEFAULT_BOARD_LAYOUT.density,
+		kanban: {
+			source: kanban.source === 'tags' ? 'tags' : 'property',
+			property: typeof kanban.property === 'string' && kanban.property.trim() ? kanban.property.trim() : DEFAULT_BOARD_LAYOUT.kanban.property,
+			columns: Array.isArray(kanban.columns) ? uniqueStrings(kanban.columns as unknown[]).filter(column => column.trim() !== '') : []
+		},
+		dateField: raw.dateField === 'created' ? 'created' : DEFAULT_BOARD_LAYOUT.dateField,
+		groupBy: typeof raw.groupBy === 'string' && groupings.includes(raw.groupBy) ? raw.groupBy as GroupBy : DEFAULT_BOARD_LAYOUT.groupBy,
+		collapsedGroups: Array.isArray(raw.collapsedGroups) ? uniqueStrings(raw.collapsedGroups as unknown[]) : []
+	};
+}
+
+// Fall back to manual order for unknown fields
+export function repairSortOrder(value: unknown): SortOrder {
+	const raw = isPlainObject(value) ? value : {};
+	const fields = ['manual', 'modified', 'created', 'title', 'size', 'tag', 'color', 'last-opened'];
+	return {
+		field: typeof raw.field === 'string' && fields.includes(raw.field) ? raw.field as SortOrder['field'] : DEFAULT_SORT_ORDER.field,
+		direction: raw.direction === 'desc' ? 'desc' : 'asc'
+	};
+}
+
+// Drop boards without an id and fill in missing fields of the rest
+export function repairBoards(data: DashboardData) {
+	data.defaultBoardFilters = repairFilters(data.defaultBoardFilters);
+	data.defaultBoardSort = repairSortOrder(data.defaultBoardSort);
+	data.sidebarSort = repairSortOrder(data.sidebarSort);
+	data.defaultBoardLayout = repairLayout(data.defaultBoardLayout);
+
+	const seen = new Set<string>();
+	const boards: BoardConfig[] = [];
+	for (const value of data.boards as unknown[]) {
+		if (!isPlainObject(value) || typeof value.id !== 'string' || seen.has(value.id)) continue;
+		seen.add(value.id);
+
+		const name = typeof value.name === 'string' && value.name.trim() ? value.name : 'Untitled board';
+		const sourceFolders = Array.isArray(value.sourceFolders) ? uniqueStrings(value.sourceFolders as unknown[]) : [];
+		boards.push({
+			id: value.id,
+			name,
+			viewTitle: typeof value.viewTitle === 'string' ? value.viewTitle : name,
+			sourceFolders: sourceFolders.length > 0 ? sourceFolders : ['/'],
+			excludedFolders: Array.isArray(value.excludedFolders) ? uniqueStrings(value.excludedFolders as unknown[]) : [],
+			themeColor: value.themeColor === 'black' || value.themeColor === 'custom' ? value.themeColor : 'obsidian',
+			customThemeColor: typeof value.customThemeColor === 'string' && /^#[0-9a-f]{6}$/i.test(value.customThemeColor)
+				? value.customThemeColor
+				: DEFAULT_DATA.customThemeColor,
+			filters: repairFilters(value.filters),
+			sort: repairSortOrder(value.sort),
+			layout: repairLayout(value.layout)
+		});
+	}
+	data.boards = boards;
+}
+
+// Drop presets without an id; a missing sort order means the preset keeps the current one
+export function repairFilterPresets(data: DashboardData) {
+	const seen = new Set<string>();
+	const presets: FilterPreset[] = [];
+	for (const value of data.filterPresets as unknown[]) {
+		if (!isPlainObject(value) || typeof value.id !== 'string' || seen.has(value.id)) continue;
+		seen.add(value.id);
+		presets.push({
+			id: value.id,
+			name: typeof value.name === 'string' && value.name.trim() ? value.name : 'Untitled preset',
+			filters: repairFilters(value.filters),
+			sort: isPlainObject(value.sort) ? repairSortOrder(value.sort) : null
+		});
+	}
+	data.filterPresets = presets;
+}
+
+export const DATA_REPAIRS: DataRepair[] = [
+	repairTheme,
+	repairMaxNotes,
+	repairMasonry,
+	repairPinnedNotes,
+	repairNoteColors,
+	repairCardSizes,
+	repairFileSizes,
+	repairEnums,
+	repairFolderLists,
+	repairBoards,
+	repairFilterPresets
+];
+
+/**
+ * Overlay loaded values onto the defaults, keeping only known keys whose type matches the default.
+ */
+export function mergeWithDefaults(loaded: RawData): DashboardData {
+	const data = createDefaultData();
+	const target = data as unknown as RawData;
+
+	for (const key of Object.keys(target)) {
+		const value = loaded[key];
+		const fallback = target[key];
+		if (value === undefined || !hasSameShape(value, fallback)) continue;
+		target[key] = JSON.parse(JSON.stringify(value)) as unknown;
+	}
+
+	return data;
+}
+
+/**
+ * Bring stored plugin data up to the current schema: run pending migrations in order,
+ * merge onto the defaults, then validate and repair every field.
+ */
+export function migrateData(loaded: unknown): { data: DashboardData; changed: boolean } {
+	const raw: RawData = isPlainObject(loaded) ? JSON.parse(JSON.stringify(loaded)) as RawData : {};
+	const storedVersion = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+
+	for (const migration of DATA_MIGRATIONS) {
+		if (migration.version > storedVersion) {
+			migration.migrate(raw);
+		}
+	}
+
+	const data = mergeWithDefaults(raw);
+	DATA_REPAIRS.forEach(repair => repair(data));
+	data.schemaVersion = CURRENT_SCHEMA_VERSION;
+
+	return { data, changed: JSON.stringify(loaded) !== JSON.stringify(data) };
+}
+
+function uniqueStrings(values: unknown[]): string[] {
+	return Array.from(new Set(values.filter((value): value is string => typeof value === 'string')));
+}
+
+function isPlainObject(value: unknown): value is RawData {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasSameShape(value: unknown, fallback: unknown): boolean {
+	if (Array.isArray(fallback)) return Array.isArray(value);
+	if (isPlainObject(fallback)) return isPlainObject(value);
+	return typeof value === typeof fallback;
+}
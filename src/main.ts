@@ -1,17 +1,75 @@
-import { Plugin, WorkspaceLeaf, addIcon, Notice, normalizePath, TAbstractFile, TFile } from 'obsidian';
-import { DashboardData, DEFAULT_DATA, VIEW_TYPE_VISUAL_DASHBOARD, VIEW_TYPE_SIDEBAR, DASHBOARD_ICON } from './types';
+import { Plugin, WorkspaceLeaf, addIcon, Notice, normalizePath, TAbstractFile, TFile, TFolder, debounce } from 'obsidian';
+import { BoardConfig, BoardFilters, CardSize, DashboardData, FilterPreset, SortOrder, VIEW_TYPE_VISUAL_DASHBOARD, VIEW_TYPE_SIDEBAR, DASHBOARD_ICON } from './types';
 import { VisualDashboardView } from './views/dashboard-view';
 import { SidebarView } from './views/sidebar-view';
 import { MiniNotesSettingTab } from './settings';
+import { migrateData, createDefaultData } from './data-migrations';
+import { NoteIndex } from './services/note-index';
+import { findOrphans, applyRepair, recordFileSizes } from './services/data-repair';
+import { RepairDataModal } from './views/repair-modal';
+import { exportBoard, readBoardFile, previewImport, applyImport } from './services/board-transfer';
+import { BoardFileSuggestModal, ImportBoardModal } from './views/import-board-modal';
+import { ActionHistory } from './services/action-history';
+import { NoteSnapshot, snapshotNote, restoreNote, restoreNotes } from './services/note-snapshot';
+import { DEFAULT_BOARD_ID, BoardChanges, findBoard, getBoards, applyBoardChanges, createBoardConfig } from './services/boards';
+import { BoardSuggestModal } from './views/board-suggest-modal';
+import { createFilterPreset, FilterPresetChanges } from './services/filter-presets';
+import { FilterPresetSuggestModal } from './views/filter-preset-modal';
+import type { NoteSortContext } from './utils/note-sort';
+import { getPathInFolder, replaceNoteTag, setFrontmatterProperty } from './services/note-edits';
+import { StorageMode, NoteStateStore, PluginDataStateStore, FrontmatterStateStore, migrateStateToFrontmatter, migrateStateToPluginData } from './services/note-state-store';
+
+// "1 note", "3 notes"
+function countNotes(count: number): string {
+	return `${count} note${count === 1 ? '' : 's'}`;
+}
+
+// Plugin data fields holding board settings, for the default board and the named ones
+const BOARD_KEYS: (keyof DashboardData)[] = ['viewTitle', 'sourceFolder', 'excludedFolders', 'themeColor', 'customThemeColor', 'defaultBoardFilters', 'defaultBoardSort', 'defaultBoardLayout', 'boards'];
+
+// Plugin data fields holding per-note dashboard state
+const STATE_KEYS: (keyof DashboardData)[] = ['pinnedNotes', 'noteColors', 'cardSizes', 'noteOrder', 'noteFileSizes', 'lastOpened'];
 
 export default class VisualDashboardPlugin extends Plugin {
-	data: DashboardData = DEFAULT_DATA;
+	data: DashboardData = createDefaultData();
+	noteIndex!: NoteIndex;
+	history = new ActionHistory();
+	private pluginDataStore = new PluginDataStateStore(this);
+	private frontmatterStore = new FrontmatterStateStore(this, this.pluginDataStore);
+	// Set while bulk actions run, so their changes are written in one save at the end
+	private batchDepth = 0;
+	private batchChanged = false;
+	// Opening notes happens often, so their timestamps are saved in batches
+	private saveLastOpened = debounce(() => {
+		void this.savePluginData();
+	}, 5000);
 
 	async onload() {
 		try {
 			await this.loadPluginData();
 			await this.ensureMiniNotesFolder();
 
+			this.frontmatterStore.load();
+
+			// Build the shared note index once the vault is loaded
+			this.noteIndex = new NoteIndex(this);
+			this.noteIndex.load();
+
+			// Remember file sizes for stored state, so orphaned paths can be re-matched later
+			this.app.workspace.onLayoutReady(() => {
+				if (recordFileSizes(this)) {
+					void this.savePluginData();
+				}
+			});
+
+			// Re-index when the allowed file extensions change
+			this.registerEvent(
+				// @ts-ignore - Custom event type
+				this.app.workspace.on('mini-notes:settings-changed', () => {
+					void this.noteIndex.syncWithSettings();
+				})
+			);
+
 			// Register file rename handler to preserve note colors, pins, and order
 			this.registerEvent(
 				this.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
@@ -19,6 +77,13 @@ export default class VisualDashboardPlugin extends Plugin {
 				})
 			);
 
+			// Remember when notes were opened, for the "last opened" sort order
+			this.registerEvent(
+				this.app.workspace.on('file-open', (file: TFile | null) => {
+					if (file) this.recordFileOpen(file);
+				})
+			);
+
 			// Register file delete handler to clean up stored data
 			this.registerEvent(
 				this.app.vault.on('delete', (file: TAbstractFile) => {
@@ -64,6 +129,32 @@ export default class VisualDashboardPlugin extends Plugin {
 				}
 			});
 
+			// Add command to open a named board in its own tab
+			this.addCommand({
+				id: 'open-board',
+				name: 'Open board',
+				callback: () => {
+					new BoardSuggestModal(this.app, getBoards(this.data), (board) => {
+						void this.activateView(board.id);
+					}).open();
+				}
+			});
+
+			// Add command to switch the active view to a saved filter preset
+			this.addCommand({
+				id: 'apply-filter-preset',
+				name: 'Apply filter preset',
+				callback: () => {
+					if (this.data.filterPresets.length === 0) {
+						new Notice('No filter presets saved yet');
+						return;
+					}
+					new FilterPresetSuggestModal(this.app, this.data.filterPresets, (preset) => {
+						void this.applyFilterPreset(preset);
+					}).open();
+				}
+			});
+
 			// Add command to open the sidebar
 			this.addCommand({
 				id: 'open-sidebar-view',
@@ -82,6 +173,66 @@ export default class VisualDashboardPlugin extends Plugin {
 				}
 			});
 
+			// Add commands to move pins, colors and order between plugin data and frontmatter
+			this.addCommand({
+				id: 'migrate-state-to-frontmatter',
+				name: 'Move pins, colors and order into note frontmatter',
+				callback: async () => {
+					await this.migrateStorage('frontmatter');
+				}
+			});
+
+			this.addCommand({
+				id: 'migrate-state-to-plugin-data',
+				name: 'Move pins, colors and order from frontmatter into plugin data',
+				callback: async () => {
+					await this.migrateStorage('plugin-data');
+				}
+			});
+
+			// Add command to clean up state left behind by files that moved or were deleted
+			this.addCommand({
+				id: 'clean-up-data',
+				name: 'Clean up orphaned pins, colors and order',
+				callback: () => {
+					this.cleanUpData();
+				}
+			});
+
+			// Add commands to walk the action history
+			this.addCommand({
+				id: 'undo-action',
+				name: 'Undo last action',
+				callback: async () => {
+					await this.undo();
+				}
+			});
+
+			this.addCommand({
+				id: 'redo-action',
+				name: 'Redo last undone action',
+				callback: async () => {
+					await this.redo();
+				}
+			});
+
+			// Add commands to move a board's state between vaults or folders
+			this.addCommand({
+				id: 'export-board',
+				name: 'Export board state',
+				callback: () => {
+					this.exportBoard();
+				}
+			});
+
+			this.addCommand({
+				id: 'import-board',
+				name: 'Import board state',
+				callback: () => {
+					this.importBoard();
+				}
+			});
+
 			// Add settings tab
 			this.addSettingTab(new MiniNotesSettingTab(this.app, this));
 		} catch (error) {
@@ -91,21 +242,25 @@ export default class VisualDashboardPlugin extends Plugin {
 
 	async loadPluginData() {
 		try {
-			const loadedData = await this.loadData() as DashboardData | null;
-			this.data = Object.assign({}, DEFAULT_DATA, loadedData ?? {});
+			const loadedData = await this.loadData() as unknown;
 
-			// Migration: if sourceFolder is empty string, use the new default
-			if (this.data.sourceFolder === '') {
-				this.data.sourceFolder = DEFAULT_DATA.sourceFolder;
+			// Upgrade and repair stored data, and persist the result if anything changed
+			const { data, changed } = migrateData(loadedData);
+			this.data = data;
+			if (loadedData && changed) {
 				await this.savePluginData();
 			}
 		} catch (error) {
 			console.error('Error loading plugin data, using defaults:', error);
-			this.data = DEFAULT_DATA;
+			this.data = createDefaultData();
 		}
 	}
 
 	async savePluginData() {
+		if (this.batchDepth > 0) {
+			this.batchChanged = true;
+			return;
+		}
 		try {
 			await this.saveData(this.data);
 		} catch (error) {
@@ -113,41 +268,659 @@ export default class VisualDashboardPlugin extends Plugin {
 		}
 	}
 
+	// Run several changes to plugin data with a single write at the end
+	private async batchDataChanges<T>(change: () => Promise<T>): Promise<T> {
+		this.batchDepth++;
+		try {
+			return await change();
+		} finally {
+			this.batchDepth--;
+			if (this.batchDepth === 0 && this.batchChanged) {
+				this.batchChanged = false;
+				await this.savePluginData();
+			}
+		}
+	}
+
+	// The active backend for pins, colors and order
+	get stateStore(): NoteStateStore {
+		return this.data.storageMode === 'frontmatter' ? this.frontmatterStore : this.pluginDataStore;
+	}
+
+	async migrateStorage(target: StorageMode) {
+		try {
+			const updated = target === 'frontmatter'
+				? await migrateStateToFrontmatter(this)
+				: await migrateStateToPluginData(this);
+			new Notice(`Moved dashboard state for ${updated} note${updated !== 1 ? 's' : ''}`);
+		} catch (error) {
+			console.error('Error migrating note state:', error);
+			new Notice('Failed to move dashboard state, see console for details');
+		}
+	}
+
+	// Find orphaned pins, colors and order entries and ask before re-matching or removing them
+	cleanUpData() {
+		try {
+			const report = findOrphans(this);
+			if (report.orphans.length === 0) {
+				new Notice('No orphaned mini notes data found');
+				return;
+			}
+
+			new RepairDataModal(this.app, report, async () => {
+				try {
+					await this.recordDataChange('Clean up data', STATE_KEYS, () => applyRepair(this, report));
+					new Notice(`Cleaned up ${report.orphans.length} orphaned path${report.orphans.length !== 1 ? 's' : ''}`);
+				} catch (error) {
+					console.error('Error cleaning up plugin data:', error);
+					new Notice('Failed to clean up mini notes data, see console for details');
+				}
+			}).open();
+		} catch (error) {
+			console.error('Error finding orphaned plugin data:', error);
+		}
+	}
+
+	// Export the only board, or ask which one when there are several
+	exportBoard() {
+		if (this.data.boards.length === 0) {
+			void this.exportBoardToFile(DEFAULT_BOARD_ID);
+			return;
+		}
+		new BoardSuggestModal(this.app, getBoards(this.data), (board) => {
+			void this.exportBoardToFile(board.id);
+		}, 'Choose a board to export').open();
+	}
+
+	private async exportBoardToFile(boardId: string) {
+		try {
+			const file = await exportBoard(this, boardId);
+			new Notice(`Board exported to ${file.path}`);
+		} catch (error) {
+			console.error('Error exporting board:', error);
+			new Notice('Failed to export board, see console for details');
+		}
+	}
+
+	// Pick an exported board file, preview the conflicts and import it on confirmation
+	importBoard() {
+		new BoardFileSuggestModal(this.app, (file) => {
+			void (async () => {
+				try {
+					const board = await readBoardFile(this, file);
+					const preview = previewImport(this, board);
+					new ImportBoardModal(this.app, preview, async () => {
+						try {
+							// In frontmatter mode the imported state is written into notes, which a data snapshot can't revert
+							if (this.data.storageMode === 'plugin-data') {
+								await this.recordDataChange('Import board', [...STATE_KEYS, ...BOARD_KEYS, 'allowedExtensions'], () => applyImport(this, board));
+							} else {
+								await applyImport(this, board);
+							}
+							new Notice('Board imported');
+						} catch (error) {
+							console.error('Error importing board:', error);
+							new Notice('Failed to import board, see console for details');
+						}
+					}).open();
+				} catch (error) {
+					console.error('Error reading board file:', error);
+					new Notice(`Could not import ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+				}
+			})();
+		}).open();
+	}
+
+	async undo() {
+		if (!this.history.canUndo()) {
+			new Notice('Nothing to undo');
+			return;
+		}
+		try {
+			const label = await this.history.undo();
+			if (label) new Notice(`Undone: ${label.toLowerCase()}`);
+		} catch (error) {
+			console.error('Error undoing action:', error);
+			new Notice('Could not undo the last action, see console for details');
+		}
+	}
+
+	async redo() {
+		if (!this.history.canRedo()) {
+			new Notice('Nothing to redo');
+			return;
+		}
+		try {
+			const label = await this.history.redo();
+			if (label) new Notice(`Redone: ${label.toLowerCase()}`);
+		} catch (error) {
+			console.error('Error redoing action:', error);
+			new Notice('Could not redo the action, see console for details');
+		}
+	}
+
+	// Run a change to plugin data and record it for undo by snapshotting the given fields
+	async recordDataChange(label: string, keys: (keyof DashboardData)[], change: () => Promise<void>) {
+		const snapshot = () => JSON.stringify(keys.reduce<Partial<DashboardData>>((fields, key) => ({ ...fields, [key]: this.data[key] }), {}));
+		const before = snapshot();
+		await change();
+		const after = snapshot();
+
+		this.history.record({
+			label,
+			undo: () => this.restoreData(before),
+			redo: () => this.restoreData(after)
+		});
+	}
+
+	private async restoreData(snapshot: string) {
+		Object.assign(this.data, JSON.parse(snapshot) as Partial<DashboardData>);
+		await this.savePluginData();
+		this.noteIndex.refreshAllStates();
+		this.app.workspace.trigger('mini-notes:settings-changed');
+	}
+
 	isPinned(filePath: string): boolean {
-		return this.data.pinnedNotes.includes(filePath);
+		return this.stateStore.isPinned(filePath);
 	}
 
 	async togglePin(filePath: string): Promise<boolean> {
 		try {
-			const index = this.data.pinnedNotes.indexOf(filePath);
-			if (index > -1) {
-				this.data.pinnedNotes.splice(index, 1);
-				await this.savePluginData();
-				return false;
-			} else {
-				this.data.pinnedNotes.push(filePath);
-				await this.savePluginData();
-				return true;
-			}
+			const pinned = !this.isPinned(filePath);
+			await this.applyPinned(filePath, pinned);
+			this.history.record({
+				label: pinned ? 'Pin note' : 'Unpin note',
+				undo: () => this.applyPinned(filePath, !pinned),
+				redo: () => this.applyPinned(filePath, pinned)
+			});
+			return pinned;
 		} catch (error) {
 			console.error('Error toggling pin:', error);
 			return this.isPinned(filePath);
 		}
 	}
 
+	private async applyPinned(filePath: string, pinned: boolean) {
+		await this.stateStore.setPinned(filePath, pinned);
+		this.noteIndex.refreshState(filePath);
+	}
+
+	getNoteColor(filePath: string): string | null {
+		return this.stateStore.getColor(filePath);
+	}
+
+	async setNoteColor(filePath: string, color: string | null) {
+		try {
+			const previous = this.getNoteColor(filePath);
+			if (previous === color) return;
+			await this.applyNoteColor(filePath, color);
+			this.history.record({
+				label: color ? 'Change note color' : 'Remove note color',
+				undo: () => this.applyNoteColor(filePath, previous),
+				redo: () => this.applyNoteColor(filePath, color)
+			});
+		} catch (error) {
+			console.error('Error setting note color:', error);
+		}
+	}
+
+	private async applyNoteColor(filePath: string, color: string | null) {
+		await this.stateStore.setColor(filePath, color);
+		this.noteIndex.refreshState(filePath);
+	}
+
+	getCardSize(filePath: string): CardSize | null {
+		return this.data.cardSizes[filePath] ?? null;
+	}
+
+	// Resize a note's dashboard card; null gives it back the size its content decides
+	async setCardSize(filePath: string, size: CardSize | null) {
+		try {
+			const previous = this.getCardSize(filePath);
+			if (previous?.columns === size?.columns && previous?.maxHeight === size?.maxHeight) return;
+			await this.applyCardSize(filePath, size);
+			this.history.record({
+				label: size ? 'Resize card' : 'Reset card size',
+				undo: () => this.applyCardSize(filePath, previous),
+				redo: () => this.applyCardSize(filePath, size)
+			});
+		} catch (error) {
+			console.error('Error resizing card:', error);
+		}
+	}
+
+	private async applyCardSize(filePath: string, size: CardSize | null) {
+		if (size) {
+			this.data.cardSizes[filePath] = size;
+		} else {
+			delete this.data.cardSizes[filePath];
+		}
+		await this.savePluginData();
+		this.noteIndex.refreshState(filePath);
+	}
+
+	// Swap a note's tag for another, e.g. after dragging its card into another tag group
+	async retagNote(file: TFile, from: string | null, to: string | null) {
+		try {
+			await replaceNoteTag(this.app, file, from, to);
+			this.history.record({
+				label: 'Change note tag',
+				undo: () => replaceNoteTag(this.app, file, to, from),
+				redo: () => replaceNoteTag(this.app, file, from, to)
+			});
+		} catch (error) {
+			console.error('Error changing note tag:', error);
+		}
+	}
+
+	// Remove every tag from a note; undo brings back the note's text as it was
+	async removeNoteTags(file: TFile, tags: string[]) {
+		if (tags.length === 0) return;
+		try {
+			const original = await this.app.vault.read(file);
+			const remove = async () => {
+				for (const tag of tags) await replaceNoteTag(this.app, file, tag, null);
+			};
+			await remove();
+			this.history.record({
+				label: tags.length === 1 ? 'Remove note tag' : 'Remove note tags',
+				undo: () => this.app.vault.modify(file, original),
+				redo: remove
+			});
+		} catch (error) {
+			console.error('Error removing note tags:', error);
+		}
+	}
+
+	// Set (or, with undefined, remove) a frontmatter property, e.g. after dragging a card to another kanban column
+	async setNoteProperty(file: TFile, key: string, value: unknown) {
+		try {
+			const previous: unknown = this.app.metadataCache.getFileCache(file)?.frontmatter?.[key];
+			await setFrontmatterProperty(this.app, file, key, value);
+			this.history.record({
+				label: `Change ${key}`,
+				undo: () => setFrontmatterProperty(this.app, file, key, previous),
+				redo: () => setFrontmatterProperty(this.app, file, key, value)
+			});
+		} catch (error) {
+			console.error('Error setting note property:', error);
+		}
+	}
+
+	// Move a note into another folder, keeping its name; refuses to overwrite an existing file
+	async moveNoteToFolder(file: TFile, folder: string) {
+		try {
+			const previousFolder = file.parent?.path ?? '/';
+			if (previousFolder === folder) return;
+			if (!await this.applyMove(file, folder)) return;
+			this.history.record({
+				label: 'Move note',
+				undo: async () => {
+					await this.applyMove(file, previousFolder);
+				},
+				redo: async () => {
+					await this.applyMove(file, folder);
+				}
+			});
+		} catch (error) {
+			console.error('Error moving note:', error);
+		}
+	}
+
+	private async applyMove(file: TFile, folder: string): Promise<boolean> {
+		const target = getPathInFolder(file, folder);
+		if (this.app.vault.getAbstractFileByPath(target)) {
+			new Notice(`A file named "${file.name}" already exists in that folder.`);
+			return false;
+		}
+		await this.app.fileManager.renameFile(file, target);
+		return true;
+	}
+
 	getOrderIndex(filePath: string): number {
-		return this.data.noteOrder.indexOf(filePath);
+		return this.stateStore.getOrderIndex(filePath);
+	}
+
+	// Every path with a custom position, in board order
+	getOrderedPaths(): string[] {
+		const paths = new Set([
+			...this.data.noteOrder,
+			...this.noteIndex.getNotes().map(note => note.file.path)
+		]);
+		return Array.from(paths)
+			.filter(path => this.getOrderIndex(path) > -1)
+			.sort((a, b) => this.getOrderIndex(a) - this.getOrderIndex(b));
 	}
 
 	async updateOrder(newOrder: string[]) {
 		try {
-			this.data.noteOrder = newOrder;
-			await this.savePluginData();
+			const previous = this.getOrderedPaths();
+			await this.stateStore.setOrder(newOrder);
+			this.history.record({
+				label: 'Reorder notes',
+				undo: () => this.applyOrder(previous),
+				redo: () => this.applyOrder(newOrder)
+			});
 		} catch (error) {
 			console.error('Error updating note order:', error);
 		}
 	}
 
+	private async applyOrder(paths: string[]) {
+		await this.stateStore.setOrder(paths);
+		this.noteIndex.refreshAllStates();
+	}
+
+	getLastOpened(filePath: string): number | undefined {
+		return this.data.lastOpened[filePath];
+	}
+
+	// Only notes the views can show are tracked
+	private recordFileOpen(file: TFile) {
+		if (!this.noteIndex.getNote(file.path)) return;
+		this.data.lastOpened[file.path] = Date.now();
+		this.saveLastOpened();
+	}
+
+	// Plugin state the sort orders read
+	getSortContext(): NoteSortContext {
+		return {
+			getOrderIndex: (path) => this.getOrderIndex(path),
+			getLastOpened: (path) => this.getLastOpened(path)
+		};
+	}
+
+	async setSidebarSort(order: SortOrder) {
+		this.data.sidebarSort = order;
+		await this.savePluginData();
+	}
+
+	getBoard(boardId: string | null | undefined): BoardConfig {
+		return findBoard(this.data, boardId);
+	}
+
+	async updateBoard(boardId: string, changes: BoardChanges, notify = true) {
+		applyBoardChanges(this.data, boardId, changes);
+		await this.savePluginData();
+		if (notify) {
+			this.app.workspace.trigger('mini-notes:settings-changed');
+		}
+	}
+
+	async createBoard(name: string): Promise<BoardConfig> {
+		const board = createBoardConfig(this.data, name);
+		this.data.boards.push(board);
+		await this.savePluginData();
+		return board;
+	}
+
+	// Open tabs of a deleted board fall back to the default board
+	async deleteBoard(boardId: string) {
+		await this.recordDataChange('Delete board', ['boards'], async () => {
+			this.data.boards = this.data.boards.filter(board => board.id !== boardId);
+			await this.savePluginData();
+		});
+		this.app.workspace.trigger('mini-notes:settings-changed');
+	}
+
+	async saveFilterPreset(name: string, filters: BoardFilters, sort: SortOrder | null): Promise<FilterPreset> {
+		const preset = createFilterPreset(name, filters, sort);
+		await this.recordDataChange('Save filter preset', ['filterPresets'], async () => {
+			this.data.filterPresets.push(preset);
+			await this.savePluginData();
+		});
+		this.app.workspace.trigger('mini-notes:settings-changed');
+		return preset;
+	}
+
+	async updateFilterPreset(presetId: string, changes: FilterPresetChanges) {
+		await this.recordDataChange('Update filter preset', ['filterPresets'], async () => {
+			const preset = this.data.filterPresets.find(preset => preset.id === presetId);
+			if (preset) Object.assign(preset, changes);
+			await this.savePluginData();
+		});
+		this.app.workspace.trigger('mini-notes:settings-changed');
+	}
+
+	async deleteFilterPreset(presetId: string) {
+		await this.recordDataChange('Delete filter preset', ['filterPresets'], async () => {
+			this.data.filterPresets = this.data.filterPresets.filter(preset => preset.id !== presetId);
+			await this.savePluginData();
+		});
+		this.app.workspace.trigger('mini-notes:settings-changed');
+	}
+
+	// Apply a preset to the focused dashboard or sidebar, opening the default board if neither is focused
+	async applyFilterPreset(preset: FilterPreset) {
+		const { workspace } = this.app;
+		let view = workspace.getActiveViewOfType(VisualDashboardView) ?? workspace.getActiveViewOfType(SidebarView);
+		if (!view) {
+			await this.activateView();
+			view = workspace.getActiveViewOfType(VisualDashboardView);
+		}
+		await view?.applyFilterPreset(preset);
+	}
+
+	async setViewTitle(boardId: string, title: string) {
+		const previous = this.getBoard(boardId).viewTitle;
+		if (previous === title) return;
+		await this.updateBoard(boardId, { viewTitle: title }, false);
+		this.history.record({
+			label: 'Rename view',
+			undo: () => this.updateBoard(boardId, { viewTitle: previous }),
+			redo: () => this.updateBoard(boardId, { viewTitle: title })
+		});
+	}
+
+	// Move a note to the trash, keeping a copy so the deletion can be undone
+	async trashNote(file: TFile) {
+		try {
+			const snapshot = await snapshotNote(this, file);
+			await this.app.fileManager.trashFile(file);
+			this.history.record({
+				label: 'Delete note',
+				undo: async () => {
+					await restoreNote(this, snapshot);
+				},
+				redo: async () => {
+					const restored = this.app.vault.getAbstractFileByPath(snapshot.path);
+					if (restored instanceof TFile) {
+						await this.app.fileManager.trashFile(restored);
+					}
+				}
+			});
+		} catch (error) {
+			console.error('Error deleting note:', error);
+			new Notice('Failed to delete note');
+		}
+	}
+
+	// Pin or unpin several notes at once
+	async setNotesPinned(paths: string[], pinned: boolean) {
+		try {
+			const changed = paths.filter(path => this.isPinned(path) !== pinned);
+			if (changed.length === 0) return;
+			const apply = (value: boolean) => this.batchDataChanges(async () => {
+				for (const path of changed) await this.applyPinned(path, value);
+			});
+			await apply(pinned);
+			this.history.record({
+				label: `${pinned ? 'Pin' : 'Unpin'} ${countNotes(changed.length)}`,
+				undo: () => apply(!pinned),
+				redo: () => apply(pinned)
+			});
+		} catch (error) {
+			console.error('Error pinning notes:', error);
+		}
+	}
+
+	async setNotesColor(paths: string[], color: string | null) {
+		try {
+			const previous = new Map(paths.map(path => [path, this.getNoteColor(path)]));
+			const changed = paths.filter(path => previous.get(path) !== color);
+			if (changed.length === 0) return;
+			const apply = (colorOf: (path: string) => string | null) => this.batchDataChanges(async () => {
+				for (const path of changed) await this.applyNoteColor(path, colorOf(path));
+			});
+			await apply(() => color);
+			this.history.record({
+				label: color ? `Change color of ${countNotes(changed.length)}` : `Remove color from ${countNotes(changed.length)}`,
+				undo: () => apply(path => previous.get(path) ?? null),
+				redo: () => apply(() => color)
+			});
+		} catch (error) {
+			console.error('Error setting note colors:', error);
+		}
+	}
+
+	// Add a tag to several notes, or remove it from them; only Markdown notes are changed
+	async setNotesTag(files: TFile[], tag: string, add: boolean) {
+		try {
+			const hasTag = (file: TFile) => this.noteIndex.getNote(file.path)?.tags.some(noteTag => noteTag.toLowerCase() === tag.toLowerCase()) ?? false;
+			const changed = files.filter(file => file.extension === 'md' && hasTag(file) !== add);
+			if (changed.length === 0) return;
+			const apply = (adding: boolean) => async () => {
+				for (const file of changed) {
+					await replaceNoteTag(this.app, file, adding ? null : tag, adding ? tag : null);
+				}
+			};
+			await apply(add)();
+			this.history.record({
+				label: add ? `Add ${tag} to ${countNotes(changed.length)}` : `Remove ${tag} from ${countNotes(changed.length)}`,
+				undo: apply(!add),
+				redo: apply(add)
+			});
+		} catch (error) {
+			console.error('Error changing note tags:', error);
+		}
+	}
+
+	// Move several notes into a folder; notes whose name is taken there stay where they are
+	async moveNotesToFolder(files: TFile[], folder: string, label = 'Move') {
+		try {
+			const moves: { file: TFile; from: string }[] = [];
+			await this.batchDataChanges(async () => {
+				for (const file of files) {
+					const from = file.parent?.path ?? '/';
+					if (from !== folder && await this.applyMove(file, folder)) {
+						moves.push({ file, from });
+					}
+				}
+			});
+			if (moves.length === 0) return;
+			this.history.record({
+				label: `${label} ${countNotes(moves.length)}`,
+				undo: () => this.batchDataChanges(async () => {
+					for (const move of moves) await this.applyMove(move.file, move.from);
+				}),
+				redo: () => this.batchDataChanges(async () => {
+					for (const move of moves) await this.applyMove(move.file, folder);
+				})
+			});
+		} catch (error) {
+			console.error('Error moving notes:', error);
+		}
+	}
+
+	// Move notes into the archive folder, creating it when needed
+	async archiveNotes(files: TFile[]) {
+		try {
+			const folder = normalizePath(this.data.archiveFolder);
+			if (!this.app.vault.getAbstractFileByPath(folder)) {
+				await this.app.vault.createFolder(folder);
+			}
+			await this.moveNotesToFolder(files, folder, 'Archive');
+		} catch (error) {
+			console.error('Error archiving notes:', error);
+			new Notice('Failed to archive notes');
+		}
+	}
+
+	/**
+	 * Append the other Markdown notes to the first one, each under a heading with its title,
+	 * and trash them. Their frontmatter is left out.
+	 */
+	async mergeNotes(files: TFile[]) {
+		const [target, ...others] = files.filter(file => file.extension === 'md');
+		if (!target || others.length === 0) return;
+		try {
+			const targetPath = target.path;
+			const original = await this.app.vault.read(target);
+			const sections: string[] = [];
+			for (const file of others) {
+				const body = (await this.app.vault.read(file)).replace(/^---[\s\S]*?---\n?/, '').trim();
+				sections.push(`## ${file.basename}\n\n${body}`);
+			}
+			const merged = [original.trimEnd(), ...sections].join('\n\n') + '\n';
+			const snapshots = await Promise.all(others.map(file => snapshotNote(this, file)));
+
+			const getTarget = () => {
+				const file = this.app.vault.getAbstractFileByPath(targetPath);
+				if (!(file instanceof TFile)) throw new Error(`${targetPath} no longer exists`);
+				return file;
+			};
+			const apply = () => this.batchDataChanges(async () => {
+				await this.app.vault.modify(getTarget(), merged);
+				for (const snapshot of snapshots) {
+					const file = this.app.vault.getAbstractFileByPath(snapshot.path);
+					if (file instanceof TFile) await this.app.fileManager.trashFile(file);
+				}
+			});
+			await apply();
+			this.history.record({
+				label: `Merge ${countNotes(others.length + 1)}`,
+				undo: () => this.batchDataChanges(async () => {
+					await restoreNotes(this, snapshots);
+					await this.app.vault.modify(getTarget(), original);
+				}),
+				redo: apply
+			});
+		} catch (error) {
+			console.error('Error merging notes:', error);
+			new Notice('Failed to merge notes');
+		}
+	}
+
+	// Move several notes to the trash, keeping copies so the deletion can be undone
+	async trashNotes(files: TFile[]) {
+		try {
+			const existing = files.filter(file => this.app.vault.getAbstractFileByPath(file.path) === file);
+			const snapshots = await Promise.all(existing.map(file => snapshotNote(this, file)));
+			// Trashes what is still there and returns the notes that went, so undo only restores those
+			const trash = (candidates: NoteSnapshot[]) => this.batchDataChanges(async () => {
+				const trashed: NoteSnapshot[] = [];
+				for (const snapshot of candidates) {
+					const file = this.app.vault.getAbstractFileByPath(snapshot.path);
+					if (!(file instanceof TFile)) continue;
+					try {
+						await this.app.fileManager.trashFile(file);
+						trashed.push(snapshot);
+					} catch (error) {
+						console.error(`Error deleting ${snapshot.path}:`, error);
+					}
+				}
+				return trashed;
+			});
+
+			const trashed = await trash(snapshots);
+			if (trashed.length < existing.length) {
+				new Notice(`Failed to delete ${countNotes(existing.length - trashed.length)}`);
+			}
+			if (trashed.length === 0) return;
+			this.history.record({
+				label: `Delete ${countNotes(trashed.length)}`,
+				undo: () => this.batchDataChanges(() => restoreNotes(this, trashed)),
+				redo: async () => {
+					await trash(trashed);
+				}
+			});
+		} catch (error) {
+			console.error('Error deleting notes:', error);
+			new Notice('Failed to delete notes');
+		}
+	}
+
 	async ensureMiniNotesFolder() {
 		try {
 			if (!this.data.autoCreateFolder) {
@@ -323,31 +1096,27 @@ export default class VisualDashboardPlugin extends Plugin {
 				const leaf = this.app.workspace.getLeaf('tab');
 				await leaf.openFile(file);
 			}
-
-			// Trigger refresh if dashboard is open
-			// @ts-ignore - Custom event type
-			this.app.workspace.trigger('mini-notes:settings-changed');
 		} catch (error) {
 			console.error('Error creating quick note:', error);
 			throw error;
 		}
 	}
 
-	async activateView() {
+	// Reveal the tab showing a board, or open the board in a new tab
+	async activateView(boardId = DEFAULT_BOARD_ID) {
 		try {
 			const { workspace } = this.app;
 
-			let leaf: WorkspaceLeaf | null = null;
-			const leaves = workspace.getLeavesOfType(VIEW_TYPE_VISUAL_DASHBOARD);
+			let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(VIEW_TYPE_VISUAL_DASHBOARD)
+				.find(leaf => (leaf.getViewState().state?.boardId ?? DEFAULT_BOARD_ID) === boardId) ?? null;
 
-			if (leaves.length > 0) {
-				leaf = leaves[0]!;
-			} else {
+			if (!leaf) {
 				leaf = workspace.getLeaf('tab');
 				if (leaf) {
 					await leaf.setViewState({
 						type: VIEW_TYPE_VISUAL_DASHBOARD,
 						active: true,
+						state: { boardId }
 					});
 				}
 			}
@@ -390,62 +1159,144 @@ export default class VisualDashboardPlugin extends Plugin {
 	}
 
 	async handleFileRename(file: TAbstractFile, oldPath: string) {
-		if (!(file instanceof TFile)) return;
-
 		const newPath = file.path;
-		let dataChanged = false;
+		const isFolder = file instanceof TFolder;
+
+		// Map a stored path to its new location; a renamed folder moves everything below it
+		const remap = (path: string): string => {
+			if (path === oldPath) return newPath;
+			if (isFolder && path.startsWith(oldPath + '/')) {
+				return newPath + path.slice(oldPath.length);
+			}
+			return path;
+		};
+
+		const movedNotes: string[] = [];
 
 		// Update noteColors
-		if (this.data.noteColors[oldPath]) {
-			this.data.noteColors[newPath] = this.data.noteColors[oldPath];
-			delete this.data.noteColors[oldPath];
-			dataChanged = true;
+		for (const path of Object.keys(this.data.noteColors)) {
+			const target = remap(path);
+			if (target !== path) {
+				this.data.noteColors[target] = this.data.noteColors[path]!;
+				delete this.data.noteColors[path];
+				movedNotes.push(target);
+			}
+		}
+		for (const path of Object.keys(this.data.cardSizes)) {
+			const target = remap(path);
+			if (target !== path) {
+				this.data.cardSizes[target] = this.data.cardSizes[path]!;
+				delete this.data.cardSizes[path];
+				movedNotes.push(target);
+			}
 		}
 
-		// Update pinnedNotes
-		const pinnedIndex = this.data.pinnedNotes.indexOf(oldPath);
-		if (pinnedIndex > -1) {
-			this.data.pinnedNotes[pinnedIndex] = newPath;
-			dataChanged = true;
+		// Sizes and open times move along without counting as a visible change
+		let openTimesMoved = false;
+		for (const path of Object.keys(this.data.noteFileSizes)) {
+			const target = remap(path);
+			if (target !== path) {
+				this.data.noteFileSizes[target] = this.data.noteFileSizes[path]!;
+				delete this.data.noteFileSizes[path];
+			}
+		}
+		for (const path of Object.keys(this.data.lastOpened)) {
+			const target = remap(path);
+			if (target !== path) {
+				this.data.lastOpened[target] = this.data.lastOpened[path]!;
+				delete this.data.lastOpened[path];
+				openTimesMoved = true;
+			}
 		}
 
-		// Update noteOrder
-		const orderIndex = this.data.noteOrder.indexOf(oldPath);
-		if (orderIndex > -1) {
-			this.data.noteOrder[orderIndex] = newPath;
-			dataChanged = true;
+		// Update pinnedNotes and noteOrder
+		const remapList = (paths: string[]) => paths.map(path => {
+			const target = remap(path);
+			if (target !== path) movedNotes.push(target);
+			return target;
+		});
+		this.data.pinnedNotes = remapList(this.data.pinnedNotes);
+		this.data.noteOrder = remapList(this.data.noteOrder);
+
+		// Folder settings that point at (or inside) a renamed folder follow it
+		let settingsChanged = false;
+		if (isFolder) {
+			const remapSetting = (path: string): string => {
+				const normalized = path.trim().replace(/\/+$/, '');
+				const target = remap(normalized);
+				if (target === normalized) return path;
+				settingsChanged = true;
+				return target;
+			};
+			this.data.excludedFolders = this.data.excludedFolders.map(remapSetting);
+			this.data.sourceFolder = remapSetting(this.data.sourceFolder);
+			this.data.boards.forEach(board => {
+				board.sourceFolders = board.sourceFolders.map(remapSetting);
+				board.excludedFolders = board.excludedFolders.map(remapSetting);
+			});
+			this.data.newNotesFolder = remapSetting(this.data.newNotesFolder);
+			this.data.autoCreateFolderPath = remapSetting(this.data.autoCreateFolderPath);
+			this.data.archiveFolder = remapSetting(this.data.archiveFolder);
 		}
 
-		if (dataChanged) {
+		if (movedNotes.length > 0 || settingsChanged) {
+			// Updates the renamed cards in open views
+			new Set(movedNotes).forEach(path => this.noteIndex.refreshState(path));
 			await this.savePluginData();
-			// Trigger view refresh
+		} else if (openTimesMoved) {
+			this.saveLastOpened();
+		}
+
+		if (settingsChanged) {
 			this.app.workspace.trigger('mini-notes:settings-changed');
 		}
 	}
 
 	async handleFileDelete(file: TAbstractFile) {
-		if (!(file instanceof TFile)) return;
+		const deletedPath = file.path;
+		const isFolder = file instanceof TFolder;
+
+		// A deleted folder takes all stored state below it along
+		const isDeleted = (path: string) => path === deletedPath
+			|| (isFolder && path.startsWith(deletedPath + '/'));
 
-		const filePath = file.path;
 		let dataChanged = false;
 
 		// Remove from noteColors
-		if (this.data.noteColors[filePath]) {
-			delete this.data.noteColors[filePath];
-			dataChanged = true;
+		for (const path of Object.keys(this.data.noteColors)) {
+			if (isDeleted(path)) {
+				delete this.data.noteColors[path];
+				dataChanged = true;
+			}
 		}
 
-		// Remove from pinnedNotes
-		const pinnedIndex = this.data.pinnedNotes.indexOf(filePath);
-		if (pinnedIndex > -1) {
-			this.data.pinnedNotes.splice(pinnedIndex, 1);
-			dataChanged = true;
+		for (const path of Object.keys(this.data.cardSizes)) {
+			if (isDeleted(path)) {
+				delete this.data.cardSizes[path];
+				dataChanged = true;
+			}
+		}
+
+		for (const path of Object.keys(this.data.noteFileSizes)) {
+			if (isDeleted(path)) {
+				delete this.data.noteFileSizes[path];
+				dataChanged = true;
+			}
+		}
+
+		for (const path of Object.keys(this.data.lastOpened)) {
+			if (isDeleted(path)) {
+				delete this.data.lastOpened[path];
+				dataChanged = true;
+			}
 		}
 
-		// Remove from noteOrder
-		const orderIndex = this.data.noteOrder.indexOf(filePath);
-		if (orderIndex > -1) {
-			this.data.noteOrder.splice(orderIndex, 1);
+		// Remove from pinnedNotes and noteOrder
+		const pinnedNotes = this.data.pinnedNotes.filter(path => !isDeleted(path));
+		const noteOrder = this.data.noteOrder.filter(path => !isDeleted(path));
+		if (pinnedNotes.length !== this.data.pinnedNotes.length || noteOrder.length !== this.data.noteOrder.length) {
+			this.data.pinnedNotes = pinnedNotes;
+			this.data.noteOrder = noteOrder;
 			dataChanged = true;
 		}
 
@@ -0,0 +1,89 @@
+import { Scope } from 'obsidian';
+import type VisualDashboardPlugin from '../main';
+import { MAX_HISTORY_ENTRIES } from '../constants';
+
+/**
+ * One undoable action. Both directions re-apply state directly, without recording new entries.
+ */
+export interface HistoryEntry {
+	// Shown in the notice after undoing or redoing, e.g. "Pin note"
+	label: string;
+	undo: () => Promise<void>;
+	redo: () => Promise<void>;
+}
+
+/**
+ * Undo and redo stacks for dashboard actions (pins, colors, order, view title, trashed notes).
+ * Recording a new action clears the redo stack.
+ */
+export class ActionHistory {
+	private undoStack: HistoryEntry[] = [];
+	private redoStack: HistoryEntry[] = [];
+	// Set while an entry is being undone or redone, so overlapping key presses are ignored
+	private busy = false;
+
+	record(entry: HistoryEntry) {
+		this.undoStack.push(entry);
+		if (this.undoStack.length > MAX_HISTORY_ENTRIES) {
+			this.undoStack.shift();
+		}
+		this.redoStack = [];
+	}
+
+	canUndo(): boolean {
+		return this.undoStack.length > 0;
+	}
+
+	canRedo(): boolean {
+		return this.redoStack.length > 0;
+	}
+
+	// Undo the latest action and return its label, or null when there was nothing to undo (or a step is still running)
+	async undo(): Promise<string | null> {
+		return this.step(this.undoStack, this.redoStack, entry => entry.undo());
+	}
+
+	// Redo the latest undone action and return its label, or null when there was nothing to redo
+	async redo(): Promise<string | null> {
+		return this.step(this.redoStack, this.undoStack, entry => entry.redo());
+	}
+
+	clear() {
+		this.undoStack = [];
+		this.redoStack = [];
+	}
+
+	private async step(from: HistoryEntry[], to: HistoryEntry[], run: (entry: HistoryEntry) => Promise<void>): Promise<string | null> {
+		if (this.busy) return null;
+		const entry = from.pop();
+		if (!entry) return null;
+
+		// A step that throws can't be trusted to run again, so its entry is dropped
+		this.busy = true;
+		try {
+			await run(entry);
+			to.push(entry);
+		} finally {
+			this.busy = false;
+		}
+		return entry.label;
+	}
+}
+
+/**
+ * Bind Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z in a view to the plugin's history.
+ * Text fields (search, quick note bar, editable title) keep their own undo.
+ */
+export function registerHistoryHotkeys(scope: Scope, plugin: VisualDashboardPlugin) {
+	const handle = (e: KeyboardEvent, action: 'undo' | 'redo') => {
+		const target = e.target as HTMLElement | null;
+		if (target && (target.isContentEditable || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) {
+			return true;
+		}
+		void (action === 'undo' ? plugin.undo() : plugin.redo());
+		return false;
+	};
+
+	scope.register(['Mod'], 'z', (e) => handle(e, 'undo'));
+	scope.register(['Mod', 'Shift'], 'z', (e) => handle(e, 'redo'));
+}
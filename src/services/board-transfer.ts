@@ -0,0 +1,368 @@
+import { TFile, normalizePath } from 'obsidian';
+import type VisualDashboardPlugin from '../main';
+import type { BoardConfig } from '../types';
+import { colorFromName, colorToName } from '../utils/colors';
+import { describeSortOrder } from '../utils/note-sort';
+import { createDefaultData, repairBoards } from '../data-migrations';
+import { DEFAULT_BOARD_ID, BoardChanges, applyBoardChanges, getDefaultBoard } from './boards';
+
+export const BOARD_EXPORT_FORMAT = 'mini-notes-board';
+export const BOARD_EXPORT_VERSION = 2;
+
+/**
+ * A board's settings as exported. Folders are relative to the board's source folder; the source
+ * folders themselves are vault paths, only used when the import creates the board.
+ */
+export type PortableBoard = Omit<BoardConfig, 'id'>;
+
+/**
+ * Portable board state. Every note path is relative to the source folder it was exported from,
+ * so the file can be imported into another vault or a board with a different source folder.
+ */
+export interface BoardExport {
+	format: typeof BOARD_EXPORT_FORMAT;
+	version: number;
+	exportedAt: string;
+	// Importing updates the board with this id, or creates it
+	boardId: string;
+	board: PortableBoard;
+	pinnedNotes: string[];
+	// Short color names ("yellow") keyed by relative path
+	noteColors: Record<string, string>;
+	noteOrder: string[];
+	allowedExtensions: string[];
+}
+
+export interface ImportConflict {
+	path: string;
+	description: string;
+}
+
+export interface ImportPreview {
+	board: BoardExport;
+	// Name of the board the import goes into, and whether it has to be created
+	targetName: string;
+	createsBoard: boolean;
+	// Imported paths that exist in this vault
+	matched: number;
+	// Imported paths with no file under the current source folder
+	missing: string[];
+	// Changes that overwrite state the current board already has
+	conflicts: ImportConflict[];
+}
+
+// Strip the source folder from a vault path; null when the path lies outside it
+export function toRelativePath(path: string, sourceFolder: string): string | null {
+	const source = sourceFolder.trim().replace(/\/+$/, '');
+	if (!source || source === '/') return path;
+	return path.startsWith(source + '/') ? path.slice(source.length + 1) : null;
+}
+
+export function toVaultPath(relativePath: string, sourceFolder: string): string {
+	const source = sourceFolder.trim().replace(/\/+$/, '');
+	if (!source || source === '/') return normalizePath(relativePath);
+	return normalizePath(`${source}/${relativePath}`);
+}
+
+// Paths of a board are relative to its source folder; boards with several sources use vault paths
+function getRelativeBase(board: Pick<BoardConfig, 'sourceFolders'>): string {
+	return board.sourceFolders.length === 1 ? board.sourceFolders[0]! : '/';
+}
+
+function toRelativeFolders(folders: string[], base: string): string[] {
+	return folders
+		.map(folder => toRelativePath(folder.trim().replace(/\/+$/, ''), base))
+		.filter((folder): folder is string => folder !== null && folder !== '');
+}
+
+function toVaultFolders(folders: string[], base: string): string[] {
+	return folders.map(folder => toVaultPath(folder, base));
+}
+
+// Convert the folders a board's settings refer to, in either direction
+function mapBoardFolders(board: PortableBoard, convert: (folders: string[]) => string[]): PortableBoard {
+	const { folders } = board.filters;
+	return {
+		...board,
+		excludedFolders: convert(board.excludedFolders),
+		filters: { ...board.filters, folders: { include: convert(folders.include), exclude: convert(folders.exclude) } }
+	};
+}
+
+// A copy of a board's settings without its id
+function toPortableBoard(board: BoardConfig): PortableBoard {
+	const copy = JSON.parse(JSON.stringify(board)) as Partial<BoardConfig>;
+	delete copy.id;
+	return copy as PortableBoard;
+}
+
+// The board an import with the given id goes into, if it exists
+function findImportTarget(plugin: VisualDashboardPlugin, boardId: string): BoardConfig | null {
+	return boardId === DEFAULT_BOARD_ID ? getDefaultBoard(plugin.data) : plugin.data.boards.find(board => board.id === boardId) ?? null;
+}
+
+/**
+ * Collect a board's settings and the state of the notes under its source folders. Reads through
+ * the active state store, so it works the same in plugin data and frontmatter storage mode.
+ */
+export function createBoardExport(plugin: VisualDashboardPlugin, boardId: string): BoardExport {
+	const { data } = plugin;
+	const board = plugin.getBoard(boardId);
+	const base = getRelativeBase(board);
+	const notes = plugin.noteIndex.getNotesInFolders(board.sourceFolders, []);
+
+	const pinnedNotes: string[] = [];
+	const noteColors: Record<string, string> = {};
+	for (const note of notes) {
+		const relative = toRelativePath(note.file.path, base);
+		if (relative === null) continue;
+
+		if (plugin.isPinned(note.file.path)) {
+			pinnedNotes.push(relative);
+		}
+		const color = plugin.getNoteColor(note.file.path);
+		if (color) {
+			noteColors[relative] = colorToName(color) ?? color;
+		}
+	}
+
+	const notePaths = new Set(notes.map(note => note.file.path));
+	const noteOrder = plugin.getOrderedPaths()
+		.filter(path => notePaths.has(path))
+		.map(path => toRelativePath(path, base))
+		.filter((path): path is string => path !== null);
+
+	return {
+		format: BOARD_EXPORT_FORMAT,
+		version: BOARD_EXPORT_VERSION,
+		exportedAt: new Date().toISOString(),
+		boardId: board.id,
+		board: mapBoardFolders(toPortableBoard(board), folders => toRelativeFolders(folders, base)),
+		pinnedNotes,
+		noteColors,
+		noteOrder,
+		allowedExtensions: [...data.allowedExtensions]
+	};
+}
+
+/**
+ * Write a board's state to a JSON file in its source folder and return the created file.
+ */
+export async function exportBoard(plugin: VisualDashboardPlugin, boardId: string): Promise<TFile> {
+	const { vault } = plugin.app;
+	const board = createBoardExport(plugin, boardId);
+	const folder = getRelativeBase(plugin.getBoard(boardId));
+	const date = new Date().toLocaleDateString('en-CA'); // YYYY-MM-DD format
+	const name = boardId === DEFAULT_BOARD_ID ? 'Mini notes board' : `Mini notes board ${board.board.name.replace(/[\\/:*?"<>|#^[\]]/g, '').trim()}`;
+
+	// Find available filename
+	let fileName = `${name} ${date}.json`;
+	let filePath = toVaultPath(fileName, folder);
+	let counter = 1;
+	while (vault.getAbstractFileByPath(filePath)) {
+		fileName = `${name} ${date} (${counter}).json`;
+		filePath = toVaultPath(fileName, folder);
+		counter++;
+	}
+
+	return vault.create(filePath, JSON.stringify(board, null, '\t'));
+}
+
+/**
+ * Read and validate an exported board file. Throws when the file isn't a board export.
+ * Version 1 files only carried the default board's title and excluded folders.
+ */
+export async function readBoardFile(plugin: VisualDashboardPlugin, file: TFile): Promise<BoardExport> {
+	const parsed = JSON.parse(await plugin.app.vault.read(file)) as unknown;
+	if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+		throw new Error('Not a mini notes board export');
+	}
+
+	const raw = parsed as Record<string, unknown>;
+	if (raw.format !== BOARD_EXPORT_FORMAT) {
+		throw new Error('Not a mini notes board export');
+	}
+	if (typeof raw.version !== 'number' || raw.version > BOARD_EXPORT_VERSION) {
+		throw new Error('Board export was made by a newer version of the plugin');
+	}
+
+	const noteColors: Record<string, string> = {};
+	if (typeof raw.noteColors === 'object' && raw.noteColors !== null && !Array.isArray(raw.noteColors)) {
+		for (const [path, value] of Object.entries(raw.noteColors as Record<string, unknown>)) {
+			const color = colorFromName(value);
+			if (color) noteColors[path] = colorToName(color) ?? color;
+		}
+	}
+
+	const boardId = typeof raw.boardId === 'string' && raw.boardId.trim() ? raw.boardId : DEFAULT_BOARD_ID;
+	return {
+		format: BOARD_EXPORT_FORMAT,
+		version: raw.version,
+		exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+		boardId,
+		board: raw.version < 2 ? readLegacyBoard(plugin, raw) : readPortableBoard(raw.board),
+		pinnedNotes: toStringList(raw.pinnedNotes),
+		noteColors,
+		noteOrder: toStringList(raw.noteOrder),
+		allowedExtensions: toStringList(raw.allowedExtensions)
+	};
+}
+
+// Validate exported board settings the way stored boards are repaired; throws when they are missing
+function readPortableBoard(value: unknown): PortableBoard {
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+		throw new Error('Board export has no board settings');
+	}
+	const repairing = createDefaultData();
+	repairing.boards = [{ ...(value as BoardConfig), id: 'import' }];
+	repairBoards(repairing);
+	return toPortableBoard(repairing.boards[0]!);
+}
+
+// Version 1 only had the title and excluded folders; everything else stays as the default board has it
+function readLegacyBoard(plugin: VisualDashboardPlugin, raw: Record<string, unknown>): PortableBoard {
+	const current = toPortableBoard(getDefaultBoard(plugin.data));
+	const base = getRelativeBase(current);
+	const board = mapBoardFolders(current, folders => toRelativeFolders(folders, base));
+	if (typeof raw.viewTitle === 'string' && raw.viewTitle) board.viewTitle = raw.viewTitle;
+	board.excludedFolders = toStringList(raw.excludedFolders);
+	return board;
+}
+
+/**
+ * Compare an imported board with the board it goes into, without changing anything.
+ */
+export function previewImport(plugin: VisualDashboardPlugin, board: BoardExport): ImportPreview {
+	const { data } = plugin;
+	const { vault } = plugin.app;
+	const target = findImportTarget(plugin, board.boardId);
+	const base = getRelativeBase(target ?? board.board);
+	const paths = new Set([...board.pinnedNotes, ...Object.keys(board.noteColors), ...board.noteOrder]);
+	const missing: string[] = [];
+	const conflicts: ImportConflict[] = [];
+	let matched = 0;
+
+	for (const relative of paths) {
+		const path = toVaultPath(relative, base);
+		if (!(vault.getAbstractFileByPath(path) instanceof TFile)) {
+			missing.push(relative);
+			continue;
+		}
+		matched++;
+
+		const currentColor = plugin.getNoteColor(path);
+		const incomingColor = board.noteColors[relative];
+		if (currentColor && incomingColor && colorToName(currentColor) !== incomingColor) {
+			conflicts.push({ path, description: `Color ${colorToName(currentColor) ?? currentColor} → ${incomingColor}` });
+		}
+	}
+
+	// Positions only conflict when the current board has a custom order of its own
+	const currentOrder = plugin.getOrderedPaths().filter(path => toRelativePath(path, base) !== null);
+	if (board.noteOrder.length > 0 && currentOrder.length > 0) {
+		conflicts.push({ path: '', description: `Custom order of ${currentOrder.length} note${currentOrder.length !== 1 ? 's' : ''} is replaced` });
+	}
+
+	if (target) {
+		const incoming = mapBoardFolders(board.board, folders => toVaultFolders(folders, base));
+		if (incoming.viewTitle && incoming.viewTitle !== target.viewTitle) {
+			conflicts.push({ path: '', description: `View title "${target.viewTitle}" → "${incoming.viewTitle}"` });
+		}
+		if (!sameItems(incoming.excludedFolders, target.excludedFolders)) {
+			conflicts.push({ path: '', description: `Excluded folders: ${formatList(target.excludedFolders)} → ${formatList(incoming.excludedFolders)}` });
+		}
+		if (JSON.stringify(incoming.filters) !== JSON.stringify(target.filters)) {
+			conflicts.push({ path: '', description: 'Saved filters are replaced' });
+		}
+		if (JSON.stringify(incoming.sort) !== JSON.stringify(target.sort)) {
+			conflicts.push({ path: '', description: `Sort order: ${describeSortOrder(target.sort)} → ${describeSortOrder(incoming.sort)}` });
+		}
+		if (JSON.stringify(incoming.layout) !== JSON.stringify(target.layout)) {
+			conflicts.push({ path: '', description: 'Layout settings are replaced' });
+		}
+		if (incoming.themeColor !== target.themeColor || incoming.customThemeColor !== target.customThemeColor) {
+			conflicts.push({ path: '', description: 'Theme color is replaced' });
+		}
+	}
+	if (board.allowedExtensions.length > 0 && !sameItems(board.allowedExtensions, data.allowedExtensions)) {
+		conflicts.push({ path: '', description: `File extensions: ${formatList(data.allowedExtensions)} → ${formatList(board.allowedExtensions)}` });
+	}
+
+	return {
+		board,
+		targetName: target?.name ?? board.board.name,
+		createsBoard: target === null,
+		matched,
+		missing,
+		conflicts
+	};
+}
+
+/**
+ * Apply an imported board on top of the current state. The board with the exported id gets the
+ * imported settings (or is created with them), imported pins and colors are added, and imported
+ * notes take the front of the custom order. Paths that don't exist under the source folder are skipped.
+ */
+export async function applyImport(plugin: VisualDashboardPlugin, board: BoardExport) {
+	const { data } = plugin;
+	const { vault } = plugin.app;
+	let target = findImportTarget(plugin, board.boardId);
+	if (!target) {
+		// Created with the exported source folders, so the relative paths resolve as they did
+		target = { ...JSON.parse(JSON.stringify(board.board)) as PortableBoard, id: board.boardId };
+		data.boards.push(target);
+	}
+	const base = getRelativeBase(target);
+	const resolve = (relative: string): string | null => {
+		const path = toVaultPath(relative, base);
+		return vault.getAbstractFileByPath(path) instanceof TFile ? path : null;
+	};
+
+	for (const relative of board.pinnedNotes) {
+		const path = resolve(relative);
+		if (path && !plugin.isPinned(path)) {
+			await plugin.stateStore.setPinned(path, true);
+		}
+	}
+
+	for (const [relative, name] of Object.entries(board.noteColors)) {
+		const path = resolve(relative);
+		const color = colorFromName(name);
+		if (path && color) {
+			await plugin.stateStore.setColor(path, color);
+		}
+	}
+
+	const importedOrder = board.noteOrder
+		.map(resolve)
+		.filter((path): path is string => path !== null);
+	if (importedOrder.length > 0) {
+		const rest = plugin.getOrderedPaths().filter(path => !importedOrder.includes(path));
+		await plugin.stateStore.setOrder([...importedOrder, ...rest]);
+	}
+
+	// The board keeps its own source folders; they differ between vaults
+	const changes: BoardChanges = JSON.parse(JSON.stringify(mapBoardFolders(board.board, folders => toVaultFolders(folders, base)))) as PortableBoard;
+	delete changes.sourceFolders;
+	applyBoardChanges(data, target.id, changes);
+	if (board.allowedExtensions.length > 0) {
+		data.allowedExtensions = board.allowedExtensions.map(ext => ext.toLowerCase());
+	}
+
+	await plugin.savePluginData();
+	plugin.noteIndex.refreshAllStates();
+	plugin.app.workspace.trigger('mini-notes:settings-changed');
+}
+
+function toStringList(value: unknown): string[] {
+	if (!Array.isArray(value)) return [];
+	return Array.from(new Set(value.filter((item): item is string => typeof item === 'string' && item.trim() !== '')));
+}
+
+function sameItems(a: string[], b: string[]): boolean {
+	return a.length === b.length && a.every(item => b.includes(item));
+}
+
+function formatList(items: string[]): string {
+	return items.length > 0 ? items.join(', ') : 'none';
+}
@@ -0,0 +1,69 @@
+import { BoardConfig, BoardLayout, DashboardData, DEFAULT_BOARD_FILTERS, DEFAULT_BOARD_LAYOUT, DEFAULT_SORT_ORDER } from '../types';
+
+export const DEFAULT_BOARD_ID = 'default';
+
+export type BoardChanges = Partial<Omit<BoardConfig, 'id'>>;
+
+// The default board, built from the top-level settings so existing data keeps working
+export function getDefaultBoard(data: DashboardData): BoardConfig {
+	return {
+		id: DEFAULT_BOARD_ID,
+		name: 'Default',
+		viewTitle: data.viewTitle,
+		sourceFolders: [data.sourceFolder],
+		excludedFolders: data.excludedFolders,
+		themeColor: data.themeColor,
+		customThemeColor: data.customThemeColor,
+		filters: data.defaultBoardFilters,
+		sort: data.defaultBoardSort,
+		layout: data.defaultBoardLayout
+	};
+}
+
+// Every board, default first
+export function getBoards(data: DashboardData): BoardConfig[] {
+	return [getDefaultBoard(data), ...data.boards];
+}
+
+// Look up a board by id; unknown ids (e.g. a deleted board) fall back to the default board
+export function findBoard(data: DashboardData, boardId: string | null | undefined): BoardConfig {
+	return data.boards.find(board => board.id === boardId) ?? getDefaultBoard(data);
+}
+
+/**
+ * Apply changes to a board. Changes to the default board are written back to the top-level settings;
+ * it only has one source folder, so the first one is kept.
+ */
+export function applyBoardChanges(data: DashboardData, boardId: string, changes: BoardChanges) {
+	const board = data.boards.find(board => board.id === boardId);
+	if (board) {
+		Object.assign(board, changes);
+		return;
+	}
+
+	if (changes.viewTitle !== undefined) data.viewTitle = changes.viewTitle;
+	if (changes.sourceFolders !== undefined) data.sourceFolder = changes.sourceFolders[0] ?? '/';
+	if (changes.excludedFolders !== undefined) data.excludedFolders = changes.excludedFolders;
+	if (changes.themeColor !== undefined) data.themeColor = changes.themeColor;
+	if (changes.customThemeColor !== undefined) data.customThemeColor = changes.customThemeColor;
+	if (changes.filters !== undefined) data.defaultBoardFilters = changes.filters;
+	if (changes.sort !== undefined) data.defaultBoardSort = changes.sort;
+	if (changes.layout !== undefined) data.defaultBoardLayout = changes.layout;
+}
+
+export function createBoardConfig(data: DashboardData, name: string): BoardConfig {
+	const defaultBoard = getDefaultBoard(data);
+	return {
+		id: `board-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+		name,
+		viewTitle: name,
+		sourceFolders: ['/'],
+		excludedFolders: [],
+		themeColor: defaultBoard.themeColor,
+		customThemeColor: defaultBoard.customThemeColor,
+		filters: { ...DEFAULT_BOARD_FILTERS },
+		sort: { ...DEFAULT_SORT_ORDER },
+		layout: JSON.parse(JSON.stringify(DEFAULT_BOARD_LAYOUT)) as BoardLayout
+	};
+}
+
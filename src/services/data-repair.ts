@@ -0,0 +1,134 @@
+import { TFile } from 'obsidian';
+import type VisualDashboardPlugin from '../main';
+
+export interface OrphanMatch {
+	oldPath: string;
+	newPath: string;
+}
+
+export interface RepairReport {
+	// Every stored path that no longer points at a file
+	orphans: string[];
+	// Orphans that could be traced to a moved file
+	rematched: OrphanMatch[];
+	// Orphans that will be dropped
+	removed: string[];
+}
+
+// Every path that has pin, color, card size or order state in plugin data
+function getStatePaths(plugin: VisualDashboardPlugin): Set<string> {
+	const { data } = plugin;
+	return new Set([
+		...data.pinnedNotes,
+		...Object.keys(data.noteColors),
+		...Object.keys(data.cardSizes),
+		...data.noteOrder
+	]);
+}
+
+function getFileName(path: string): string {
+	return path.split('/').pop() ?? path;
+}
+
+/**
+ * Remember the current size of every file with stored state, so a later repair can tell
+ * apart moved files that share a name.
+ */
+export function recordFileSizes(plugin: VisualDashboardPlugin): boolean {
+	const statePaths = getStatePaths(plugin);
+	let changed = false;
+
+	// Sizes are only kept for files that still have state
+	for (const path of Object.keys(plugin.data.noteFileSizes)) {
+		if (!statePaths.has(path)) {
+			delete plugin.data.noteFileSizes[path];
+			changed = true;
+		}
+	}
+
+	for (const path of statePaths) {
+		const file = plugin.app.vault.getAbstractFileByPath(path);
+		if (file instanceof TFile && plugin.data.noteFileSizes[path] !== file.stat.size) {
+			plugin.data.noteFileSizes[path] = file.stat.size;
+			changed = true;
+		}
+	}
+	return changed;
+}
+
+/**
+ * Find stored paths whose files were renamed or deleted while the plugin wasn't watching,
+ * and try to re-match each one to the single file with the same name and the last known size.
+ * Same-named files of another size (such as daily notes in other folders) are not taken as moves.
+ */
+export function findOrphans(plugin: VisualDashboardPlugin): RepairReport {
+	const { vault } = plugin.app;
+	const statePaths = getStatePaths(plugin);
+	// Open times are kept for any note, with or without other state
+	const openedPaths = Object.keys(plugin.data.lastOpened).filter(path => !statePaths.has(path));
+	const orphans = [...statePaths, ...openedPaths].filter(path => !(vault.getAbstractFileByPath(path) instanceof TFile));
+
+	// Candidate files are the ones that don't have state of their own yet
+	const candidatesByName = new Map<string, TFile[]>();
+	for (const file of vault.getFiles()) {
+		if (statePaths.has(file.path)) continue;
+		const candidates = candidatesByName.get(file.name) ?? [];
+		candidates.push(file);
+		candidatesByName.set(file.name, candidates);
+	}
+
+	const rematched: OrphanMatch[] = [];
+	const removed: string[] = [];
+	const claimed = new Set<string>();
+
+	for (const oldPath of orphans) {
+		const candidates = (candidatesByName.get(getFileName(oldPath)) ?? [])
+			.filter(file => !claimed.has(file.path));
+		const knownSize = plugin.data.noteFileSizes[oldPath];
+
+		// Without a known size, or with several files of that size, the moved file can't be told apart
+		const sameSize = knownSize === undefined ? [] : candidates.filter(file => file.stat.size === knownSize);
+		const match = sameSize.length === 1 ? sameSize[0] : undefined;
+
+		if (match) {
+			claimed.add(match.path);
+			rematched.push({ oldPath, newPath: match.path });
+		} else {
+			removed.push(oldPath);
+		}
+	}
+
+	return { orphans, rematched, removed };
+}
+
+// Move re-matched state to the new paths and drop the rest
+export async function applyRepair(plugin: VisualDashboardPlugin, report: RepairReport) {
+	const { data } = plugin;
+	const targets = new Map(report.rematched.map(match => [match.oldPath, match.newPath]));
+	const removed = new Set(report.removed);
+
+	const remapList = (paths: string[]) => paths
+		.filter(path => !removed.has(path))
+		.map(path => targets.get(path) ?? path);
+
+	data.pinnedNotes = remapList(data.pinnedNotes);
+	data.noteOrder = remapList(data.noteOrder);
+
+	const remapRecord = <T>(record: Record<string, T>): Record<string, T> => {
+		const result: Record<string, T> = {};
+		for (const [path, value] of Object.entries(record)) {
+			if (removed.has(path)) continue;
+			result[targets.get(path) ?? path] = value;
+		}
+		return result;
+	};
+
+	data.noteColors = remapRecord(data.noteColors);
+	data.cardSizes = remapRecord(data.cardSizes);
+	data.noteFileSizes = remapRecord(data.noteFileSizes);
+	data.lastOpened = remapRecord(data.lastOpened);
+
+	recordFileSizes(plugin);
+	await plugin.savePluginData();
+	plugin.noteIndex.refreshAllStates();
+}
@@ -0,0 +1,31 @@
+import type { BoardFilters, FilterPreset, SortOrder } from '../types';
+import { isSameSortOrder } from '../utils/note-sort';
+import { isSameTagFilter } from '../utils/tag-filter';
+import { isSameFolderFilter } from '../utils/folder-filter';
+import { isSameDateFilter } from '../utils/date-filter';
+
+export type FilterPresetChanges = Partial<Omit<FilterPreset, 'id'>>;
+
+export function createFilterPreset(name: string, filters: BoardFilters, sort: SortOrder | null): FilterPreset {
+	return {
+		id: `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+		name,
+		filters: JSON.parse(JSON.stringify(filters)) as BoardFilters,
+		sort: sort ? { ...sort } : null
+	};
+}
+
+export function isSameFilters(a: BoardFilters, b: BoardFilters): boolean {
+	return a.pinned === b.pinned
+		&& isSameTagFilter(a.tags, b.tags)
+		&& isSameFolderFilter(a.folders, b.folders)
+		&& isSameDateFilter(a.date, b.date)
+		&& a.color === b.color
+		&& a.type === b.type
+		&& a.search.trim() === b.search.trim();
+}
+
+// A preset is active when the view shows exactly its filters (and its sort order, if it sets one)
+export function isPresetActive(preset: FilterPreset, filters: BoardFilters, sort: SortOrder): boolean {
+	return isSameFilters(preset.filters, filters) && (!preset.sort || isSameSortOrder(preset.sort, sort));
+}
@@ -0,0 +1,53 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { replaceInlineTag, replaceTagInList } from '../utils/markdown';
+
+/**
+ * Swap one tag of a note for another, both inline and in the `tags` property.
+ * Without `from` the new tag is added; without `to` the old one is removed.
+ * A tag swapped in the body takes the old tag's place there; otherwise it goes first in the
+ * property. Either way it becomes the note's first tag when the old one was.
+ */
+export async function replaceNoteTag(app: App, file: TFile, from: string | null, to: string | null) {
+	const swapped = { inBody: false };
+	if (from) {
+		await app.vault.process(file, content => {
+			const replaced = replaceInlineTag(content, from, to);
+			swapped.inBody = replaced !== content;
+			return replaced;
+		});
+	}
+
+	// Notes with only inline tags don't get a tags property for a tag that is already in the body
+	const added = swapped.inBody ? null : to;
+	if (!added && app.metadataCache.getFileCache(file)?.frontmatter?.tags === undefined) return;
+
+	await app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+		const raw = frontmatter.tags;
+		const tags = Array.isArray(raw)
+			? raw.filter((tag): tag is string => typeof tag === 'string')
+			: typeof raw === 'string' ? raw.split(/[,\s]+/).filter(Boolean) : [];
+
+		const kept = replaceTagInList(tags, from, added);
+		if (kept.length > 0) {
+			frontmatter.tags = kept;
+		} else if ('tags' in frontmatter) {
+			delete frontmatter.tags;
+		}
+	});
+}
+
+// Where a file ends up when moved into a folder ("/" is the vault root)
+export function getPathInFolder(file: TFile, folder: string): string {
+	return normalizePath(folder === '/' || folder === '' ? file.name : `${folder}/${file.name}`);
+}
+
+// Set a frontmatter property, or remove it when the value is undefined
+export async function setFrontmatterProperty(app: App, file: TFile, key: string, value: unknown) {
+	await app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+		if (value === undefined) {
+			delete frontmatter[key];
+		} else {
+			frontmatter[key] = value;
+		}
+	});
+}
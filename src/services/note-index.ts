@@ -0,0 +1,299 @@
+import { Events, EventRef, TAbstractFile, TFile, TFolder } from 'obsidian';
+import type VisualDashboardPlugin from '../main';
+import { extractHeadings, extractTags, stripMarkdown, isFileInFolderOrSubfolder } from '../utils/markdown';
+import { parseFrontmatterDate } from '../utils/date';
+import { CARD_SIZE } from '../constants';
+
+export type CardSizeClass = 'card-xl' | 'card-large' | 'card-medium' | 'card-small' | 'card-xs';
+
+export interface IndexedNote {
+	file: TFile;
+	folder: string;
+	tags: string[];
+	// Heading text, weighted above body text by fuzzy search
+	headings: string[];
+	// Note content without YAML frontmatter, used for markdown previews
+	body: string;
+	// Content stripped of markdown formatting, used for search and plain previews
+	text: string;
+	sizeClass: CardSizeClass;
+	color: string | null;
+	// The `created` frontmatter property as a timestamp, if it holds a date
+	createdProperty: number | null;
+}
+
+export interface NoteIndexChange {
+	type: 'upsert' | 'remove' | 'rename';
+	path: string;
+	oldPath?: string;
+}
+
+// Extensions that are never read as text; their cards show a file placeholder instead
+const BINARY_EXTENSIONS = ['pdf', 'png', 'jpg', 'jpeg', 'gif', 'webp', 'bmp', 'mp3', 'mp4', 'webm', 'wav'];
+
+// Pick the card size class from the length of the stripped note text
+export function getCardSizeClass(textLength: number): CardSizeClass {
+	if (textLength > CARD_SIZE.XL) return 'card-xl';
+	if (textLength > CARD_SIZE.LARGE) return 'card-large';
+	if (textLength > CARD_SIZE.MEDIUM) return 'card-medium';
+	if (textLength > CARD_SIZE.SMALL) return 'card-small';
+	return 'card-xs';
+}
+
+/**
+ * In-memory index of every note the views can show, keyed by path.
+ * Built once when the layout is ready and kept current from vault and metadata cache events,
+ * so views never have to walk or read the vault themselves.
+ */
+export class NoteIndex extends Events {
+	private plugin: VisualDashboardPlugin;
+	private notes = new Map<string, IndexedNote>();
+	private indexedExtensions: string[] = [];
+	private buildPromise: Promise<void> | null = null;
+	private readyPromise: Promise<void>;
+	private resolveReady!: () => void;
+
+	constructor(plugin: VisualDashboardPlugin) {
+		super();
+		this.plugin = plugin;
+		this.readyPromise = new Promise(resolve => {
+			this.resolveReady = resolve;
+		});
+	}
+
+	on(name: 'changed', callback: (change: NoteIndexChange) => unknown, ctx?: unknown): EventRef;
+	on(name: 'rebuilt', callback: () => unknown, ctx?: unknown): EventRef;
+	on(name: string, callback: (...data: never[]) => unknown, ctx?: unknown): EventRef {
+		return super.on(name, callback as (...data: unknown[]) => unknown, ctx);
+	}
+
+	load() {
+		const { vault, metadataCache, workspace } = this.plugin.app;
+
+		workspace.onLayoutReady(() => {
+			void this.rebuild();
+
+			this.plugin.registerEvent(
+				vault.on('create', (file: TAbstractFile) => {
+					if (file instanceof TFile) void this.indexFile(file);
+				})
+			);
+
+			// Markdown files are picked up by the metadata cache event below, which carries the new content
+			this.plugin.registerEvent(
+				vault.on('modify', (file: TAbstractFile) => {
+					if (file instanceof TFile && file.extension !== 'md') void this.indexFile(file);
+				})
+			);
+
+			this.plugin.registerEvent(
+				metadataCache.on('changed', (file: TFile, data: string) => {
+					void this.indexFile(file, data);
+				})
+			);
+
+			this.plugin.registerEvent(
+				vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+					if (file instanceof TFile) {
+						this.handleRename(file, oldPath);
+					} else if (file instanceof TFolder) {
+						this.handleFolderRename(oldPath);
+					}
+				})
+			);
+
+			this.plugin.registerEvent(
+				vault.on('delete', (file: TAbstractFile) => {
+					if (file instanceof TFile) {
+						this.removeNote(file.path);
+					} else if (file instanceof TFolder) {
+						// Not every platform reports the files inside a deleted folder
+						this.getNotes()
+							.filter(note => isFileInFolderOrSubfolder(note.file.path, file.path))
+							.forEach(note => this.removeNote(note.file.path));
+					}
+				})
+			);
+		});
+	}
+
+	// Resolves once the initial build has finished
+	whenReady(): Promise<void> {
+		return this.readyPromise;
+	}
+
+	async rebuild(): Promise<void> {
+		if (this.buildPromise) {
+			return this.buildPromise;
+		}
+
+		this.buildPromise = (async () => {
+			try {
+				this.indexedExtensions = this.getAllowedExtensions();
+				this.notes.clear();
+				for (const file of this.plugin.app.vault.getFiles()) {
+					await this.indexFile(file, undefined, false);
+				}
+			} finally {
+				this.buildPromise = null;
+			}
+			this.resolveReady();
+			this.trigger('rebuilt');
+		})();
+
+		return this.buildPromise;
+	}
+
+	// Rebuild when the set of allowed extensions changed since the last build
+	async syncWithSettings(): Promise<void> {
+		const allowed = this.getAllowedExtensions();
+		const unchanged = allowed.length === this.indexedExtensions.length
+			&& allowed.every(ext => this.indexedExtensions.includes(ext));
+		if (!unchanged) {
+			await this.rebuild();
+		}
+	}
+
+	getNote(path: string): IndexedNote | undefined {
+		return this.notes.get(path);
+	}
+
+	getNotes(): IndexedNote[] {
+		return Array.from(this.notes.values());
+	}
+
+	// Notes inside any of the source folders ("/" = whole vault), minus the excluded folders
+	getNotesInFolders(sourceFolders: string[], excludedFolders: string[]): IndexedNote[] {
+		const sources = sourceFolders.map(folder => folder.trim().replace(/\/+$/, ''));
+		const wholeVault = sources.length === 0 || sources.some(source => !source || source === '/');
+		const excluded = excludedFolders
+			.map(folder => folder.trim().replace(/\/+$/, ''))
+			.filter(folder => folder !== '');
+
+		// Archived notes only show where a source folder is (inside) the archive
+		const archive = this.plugin.data.archiveFolder;
+		if (!sources.some(source => source === archive || source.startsWith(archive + '/'))) {
+			excluded.push(archive);
+		}
+
+		return this.getNotes().filter(note => {
+			const path = note.file.path;
+			if (!wholeVault && !sources.some(source => isFileInFolderOrSubfolder(path, source))) return false;
+			return !excluded.some(folder => isFileInFolderOrSubfolder(path, folder));
+		});
+	}
+
+	// Re-read plugin-owned state (color) for a note after it changed outside the index
+	refreshState(path: string) {
+		const note = this.notes.get(path);
+		if (!note) return;
+		note.color = this.plugin.getNoteColor(path);
+		this.notify({ type: 'upsert', path });
+	}
+
+	// Re-read plugin-owned state for every note, e.g. after switching the storage mode
+	refreshAllStates() {
+		this.notes.forEach((note, path) => {
+			note.color = this.plugin.getNoteColor(path);
+		});
+		this.trigger('rebuilt');
+	}
+
+	private getAllowedExtensions(): string[] {
+		const allowed = this.plugin.data.allowedExtensions;
+		return allowed.length > 0 ? allowed.map(ext => ext.toLowerCase()) : ['md'];
+	}
+
+	private shouldIndex(file: TFile): boolean {
+		if (!this.indexedExtensions.includes(file.extension.toLowerCase())) return false;
+		if (file.path.startsWith(this.plugin.app.vault.configDir + '/')) return false;
+
+		// Excalidraw drawings use the .md extension but are not regular notes
+		const path = file.path.toLowerCase();
+		return !path.endsWith('.excalidraw.md') && !path.endsWith('.excalidraw');
+	}
+
+	private async indexFile(file: TFile, content?: string, emit = true) {
+		if (!this.shouldIndex(file)) return;
+
+		try {
+			let text = '';
+			let body = '';
+			let tags: string[] = [];
+			let headings: string[] = [];
+
+			if (!BINARY_EXTENSIONS.includes(file.extension.toLowerCase())) {
+				const raw = content ?? await this.plugin.app.vault.cachedRead(file);
+
+				// Catch Excalidraw files that don't follow the .excalidraw.md naming
+				if (raw.includes('excalidraw-plugin:') || raw.includes('# Excalidraw Data')) {
+					this.removeNote(file.path, emit);
+					return;
+				}
+
+				tags = extractTags(raw);
+				headings = extractHeadings(raw);
+				text = stripMarkdown(raw);
+				body = raw.replace(/^---[\s\S]*?---\n?/, '').trim();
+			}
+
+			this.notes.set(file.path, {
+				file,
+				folder: file.parent?.path ?? '/',
+				tags,
+				headings,
+				body,
+				text,
+				sizeClass: getCardSizeClass(text.length),
+				color: this.plugin.getNoteColor(file.path),
+				createdProperty: parseFrontmatterDate(this.plugin.app.metadataCache.getFileCache(file)?.frontmatter?.created)
+			});
+
+			if (emit) {
+				this.notify({ type: 'upsert', path: file.path });
+			}
+		} catch (error) {
+			console.warn(`Failed to index ${file.path}:`, error);
+		}
+	}
+
+	private handleRename(file: TFile, oldPath: string) {
+		// Already re-keyed through its folder's rename event
+		if (!this.notes.has(oldPath) && this.notes.has(file.path)) return;
+
+		const note = this.notes.get(oldPath);
+		this.notes.delete(oldPath);
+
+		if (!note || !this.shouldIndex(file)) {
+			// Moved into the index scope (or out of it)
+			if (note) {
+				this.notify({ type: 'remove', path: oldPath });
+			}
+			void this.indexFile(file);
+			return;
+		}
+
+		note.folder = file.parent?.path ?? '/';
+		note.color = this.plugin.getNoteColor(file.path);
+		this.notes.set(file.path, note);
+		this.notify({ type: 'rename', path: file.path, oldPath });
+	}
+
+	// Not every platform reports the files inside a renamed folder, so re-key them here
+	private handleFolderRename(oldPath: string) {
+		for (const [path, note] of Array.from(this.notes.entries())) {
+			if (!isFileInFolderOrSubfolder(path, oldPath) || path === note.file.path) continue;
+			this.handleRename(note.file, path);
+		}
+	}
+
+	private notify(change: NoteIndexChange) {
+		this.trigger('changed', change);
+	}
+
+	private removeNote(path: string, emit = true) {
+		if (this.notes.delete(path) && emit) {
+			this.notify({ type: 'remove', path });
+		}
+	}
+}
@@ -0,0 +1,86 @@
+import { TFile, normalizePath } from 'obsidian';
+import type VisualDashboardPlugin from '../main';
+import type { CardSize } from '../types';
+
+/**
+ * Everything needed to bring back a trashed note: its content (with its tags and frontmatter)
+ * and the dashboard state the plugin drops when a file is deleted.
+ */
+export interface NoteSnapshot {
+	path: string;
+	content: ArrayBuffer;
+	pinned: boolean;
+	color: string | null;
+	// Index in the full manual order (not the stored order value), -1 without a position
+	orderIndex: number;
+	cardSize: CardSize | null;
+	lastOpened: number | undefined;
+}
+
+export async function snapshotNote(plugin: VisualDashboardPlugin, file: TFile): Promise<NoteSnapshot> {
+	return {
+		path: file.path,
+		content: await plugin.app.vault.readBinary(file),
+		pinned: plugin.isPinned(file.path),
+		color: plugin.getNoteColor(file.path),
+		orderIndex: plugin.getOrderedPaths().indexOf(file.path),
+		cardSize: plugin.getCardSize(file.path),
+		lastOpened: plugin.getLastOpened(file.path)
+	};
+}
+
+/**
+ * Recreate a trashed note at its old path and restore its pin, color, position, card size and
+ * when it was last opened.
+ * Throws when another file has taken the path in the meantime.
+ */
+export async function restoreNote(plugin: VisualDashboardPlugin, snapshot: NoteSnapshot): Promise<TFile> {
+	const { vault } = plugin.app;
+	if (vault.getAbstractFileByPath(snapshot.path)) {
+		throw new Error(`A file already exists at ${snapshot.path}`);
+	}
+
+	const folderPath = snapshot.path.includes('/') ? snapshot.path.slice(0, snapshot.path.lastIndexOf('/')) : '';
+	if (folderPath && !vault.getAbstractFileByPath(normalizePath(folderPath))) {
+		await vault.createFolder(normalizePath(folderPath));
+	}
+
+	const file = await vault.createBinary(snapshot.path, snapshot.content);
+
+	// Kept in plugin data in either storage mode
+	if (snapshot.cardSize) {
+		plugin.data.cardSizes[file.path] = { ...snapshot.cardSize };
+	}
+	if (snapshot.lastOpened !== undefined) {
+		plugin.data.lastOpened[file.path] = snapshot.lastOpened;
+	}
+	if (snapshot.cardSize || snapshot.lastOpened !== undefined) {
+		await plugin.savePluginData();
+	}
+
+	// In frontmatter mode a markdown note carries its state in its own content
+	if (plugin.data.storageMode === 'frontmatter' && file.extension === 'md') {
+		return file;
+	}
+
+	const store = plugin.stateStore;
+	if (snapshot.pinned) {
+		await store.setPinned(file.path, true);
+	}
+	if (snapshot.color) {
+		await store.setColor(file.path, snapshot.color);
+	}
+	if (snapshot.orderIndex > -1) {
+		const order = plugin.getOrderedPaths().filter(path => path !== file.path);
+		order.splice(snapshot.orderIndex, 0, file.path);
+		await store.setOrder(order);
+	}
+	plugin.noteIndex.refreshState(file.path);
+	return file;
+}
+
+// Restore several notes, front of the manual order first, so each one lands at its old index again
+export async function restoreNotes(plugin: VisualDashboardPlugin, snapshots: NoteSnapshot[]) {
+	const byPosition = [...snapshots].sort((a, b) => a.orderIndex - b.orderIndex);
+	for (const snapshot of byPosition) await restoreNote(plugin, snapshot);
+}
@@ -0,0 +1,294 @@
+import { TFile } from 'obsidian';
+import type VisualDashboardPlugin from '../main';
+import { colorFromName, colorToName } from '../utils/colors';
+import { assignOrderValues, getListedOrderValue } from '../utils/order-values';
+
+export type StorageMode = 'plugin-data' | 'frontmatter';
+
+// Frontmatter property names used by the frontmatter storage mode, prefixed so they don't clash with the user's own
+export const FRONTMATTER_KEYS = {
+	PINNED: 'mini-notes-pinned',
+	COLOR: 'mini-notes-color',
+	ORDER: 'mini-notes-order'
+} as const;
+
+/**
+ * Where per-note dashboard state (pin, color, custom order) is read from and written to.
+ */
+export interface NoteStateStore {
+	isPinned(filePath: string): boolean;
+	setPinned(filePath: string, pinned: boolean): Promise<void>;
+	getColor(filePath: string): string | null;
+	setColor(filePath: string, color: string | null): Promise<void>;
+	getOrderIndex(filePath: string): number;
+	setOrder(paths: string[]): Promise<void>;
+}
+
+/**
+ * Default store: state lives in the plugin's data.json, keyed by path.
+ */
+export class PluginDataStateStore implements NoteStateStore {
+	private plugin: VisualDashboardPlugin;
+
+	constructor(plugin: VisualDashboardPlugin) {
+		this.plugin = plugin;
+	}
+
+	isPinned(filePath: string): boolean {
+		return this.plugin.data.pinnedNotes.includes(filePath);
+	}
+
+	async setPinned(filePath: string, pinned: boolean) {
+		const index = this.plugin.data.pinnedNotes.indexOf(filePath);
+		if (pinned && index === -1) {
+			this.plugin.data.pinnedNotes.push(filePath);
+		} else if (!pinned && index > -1) {
+			this.plugin.data.pinnedNotes.splice(index, 1);
+		}
+		await this.plugin.savePluginData();
+	}
+
+	getColor(filePath: string): string | null {
+		return this.plugin.data.noteColors[filePath] ?? null;
+	}
+
+	async setColor(filePath: string, color: string | null) {
+		if (color) {
+			this.plugin.data.noteColors[filePath] = color;
+		} else {
+			delete this.plugin.data.noteColors[filePath];
+		}
+		await this.plugin.savePluginData();
+	}
+
+	getOrderIndex(filePath: string): number {
+		return this.plugin.data.noteOrder.indexOf(filePath);
+	}
+
+	async setOrder(paths: string[]) {
+		this.plugin.data.noteOrder = paths;
+		await this.plugin.savePluginData();
+	}
+}
+
+/**
+ * Opt-in store: state is written to `mini-notes-pinned`, `mini-notes-color` and `mini-notes-order`
+ * properties in each note's frontmatter, so it travels with the file. Files without frontmatter
+ * support (anything that isn't markdown) fall back to plugin data. Order values are sparse, so
+ * moving a note rewrites only that note.
+ */
+export class FrontmatterStateStore implements NoteStateStore {
+	private plugin: VisualDashboardPlugin;
+	private fallback: PluginDataStateStore;
+	// Values written but not yet picked up by the metadata cache
+	private pendingWrites = new Map<string, Record<string, unknown>>();
+
+	constructor(plugin: VisualDashboardPlugin, fallback: PluginDataStateStore) {
+		this.plugin = plugin;
+		this.fallback = fallback;
+	}
+
+	load() {
+		this.plugin.registerEvent(
+			this.plugin.app.metadataCache.on('changed', (file: TFile) => {
+				this.pendingWrites.delete(file.path);
+			})
+		);
+	}
+
+	isPinned(filePath: string): boolean {
+		const file = this.getMarkdownFile(filePath);
+		if (!file) return this.fallback.isPinned(filePath);
+		return this.readProperty(file, FRONTMATTER_KEYS.PINNED) === true;
+	}
+
+	async setPinned(filePath: string, pinned: boolean) {
+		const file = this.getMarkdownFile(filePath);
+		if (!file) return this.fallback.setPinned(filePath, pinned);
+		await this.writeProperty(file, FRONTMATTER_KEYS.PINNED, pinned ? true : undefined);
+	}
+
+	getColor(filePath: string): string | null {
+		const file = this.getMarkdownFile(filePath);
+		if (!file) return this.fallback.getColor(filePath);
+		return colorFromName(this.readProperty(file, FRONTMATTER_KEYS.COLOR));
+	}
+
+	async setColor(filePath: string, color: string | null) {
+		const file = this.getMarkdownFile(filePath);
+		if (!file) return this.fallback.setColor(filePath, color);
+		await this.writeProperty(file, FRONTMATTER_KEYS.COLOR, color ? colorToName(color) ?? color : undefined);
+	}
+
+	getOrderIndex(filePath: string): number {
+		const file = this.getMarkdownFile(filePath);
+		return file ? this.readOrder(file) ?? -1 : this.getListedOrder(filePath);
+	}
+
+	async setOrder(paths: string[]) {
+		// Keep the notes that are already in order and only rewrite the ones that moved
+		const files = paths.map(path => this.getMarkdownFile(path)).filter((file): file is TFile => file !== null);
+		const current = files.map(file => this.readOrder(file));
+		const values = assignOrderValues(current);
+		for (let i = 0; i < files.length; i++) {
+			if (values[i] !== current[i]) {
+				await this.writeProperty(files[i]!, FRONTMATTER_KEYS.ORDER, values[i]);
+			}
+		}
+
+		// Keep the full list in plugin data only while it has to position non-markdown files
+		const hasOtherFiles = files.length < paths.length;
+		await this.fallback.setOrder(hasOtherFiles ? paths : []);
+	}
+
+	private readOrder(file: TFile): number | null {
+		const order = this.readProperty(file, FRONTMATTER_KEYS.ORDER);
+		return typeof order === 'number' ? order : null;
+	}
+
+	// Other files keep their place in the plugin data list, between the markdown notes listed around them
+	private getListedOrder(filePath: string): number {
+		const list = this.plugin.data.noteOrder;
+		const index = list.indexOf(filePath);
+		if (index === -1) return -1;
+		return getListedOrderValue(list, index, (path) => {
+			const file = this.getMarkdownFile(path);
+			return file ? this.readOrder(file) : null;
+		});
+	}
+
+	private getMarkdownFile(filePath: string): TFile | null {
+		const file = this.plugin.app.vault.getAbstractFileByPath(filePath);
+		return file instanceof TFile && file.extension === 'md' ? file : null;
+	}
+
+	private readProperty(file: TFile, key: string): unknown {
+		const pending = this.pendingWrites.get(file.path);
+		if (pending && key in pending) {
+			return pending[key];
+		}
+		const frontmatter = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
+		return frontmatter?.[key];
+	}
+
+	// Set a property, or remove it when the value is undefined
+	private async writeProperty(file: TFile, key: string, value: unknown) {
+		const pending = this.pendingWrites.get(file.path) ?? {};
+		pending[key] = value;
+		this.pendingWrites.set(file.path, pending);
+
+		await this.plugin.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+			if (value === undefined) {
+				delete frontmatter[key];
+			} else {
+				frontmatter[key] = value;
+			}
+		});
+	}
+}
+
+/**
+ * Move pins, colors and order from data.json into note frontmatter and switch to the frontmatter store.
+ * Returns the number of notes that were updated.
+ */
+export async function migrateStateToFrontmatter(plugin: VisualDashboardPlugin): Promise<number> {
+	const { data } = plugin;
+	const { vault, fileManager } = plugin.app;
+	const paths = new Set([...data.pinnedNotes, ...Object.keys(data.noteColors), ...data.noteOrder]);
+	const originalOrder = [...data.noteOrder];
+	let updated = 0;
+
+	for (const path of paths) {
+		const file = vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile) || file.extension !== 'md') continue;
+
+		const pinned = data.pinnedNotes.includes(path);
+		const color = data.noteColors[path];
+		// Positions start at 1, leaving room before the first note
+		const order = originalOrder.indexOf(path) + 1;
+
+		await fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+			if (pinned) frontmatter[FRONTMATTER_KEYS.PINNED] = true;
+			if (color) frontmatter[FRONTMATTER_KEYS.COLOR] = colorToName(color) ?? color;
+			if (order > 0) frontmatter[FRONTMATTER_KEYS.ORDER] = order;
+		});
+
+		data.pinnedNotes = data.pinnedNotes.filter(p => p !== path);
+		delete data.noteColors[path];
+		updated++;
+	}
+
+	// Non-markdown files keep their position in the plugin data list
+	const hasOtherFiles = originalOrder.some(path => {
+		const file = vault.getAbstractFileByPath(path);
+		return file instanceof TFile && file.extension !== 'md';
+	});
+	data.noteOrder = hasOtherFiles ? originalOrder : [];
+
+	data.storageMode = 'frontmatter';
+	await plugin.savePluginData();
+	plugin.noteIndex.refreshAllStates();
+	return updated;
+}
+
+/**
+ * Move pins, colors and order from note frontmatter back into data.json and switch to the plugin data store.
+ * Returns the number of notes that were updated.
+ */
+export async function migrateStateToPluginData(plugin: VisualDashboardPlugin): Promise<number> {
+	const { data } = plugin;
+	const { vault, metadataCache, fileManager } = plugin.app;
+	const ordered: { path: string; index: number }[] = [];
+	let updated = 0;
+
+	// Files positioned by the plugin data list, placed between the notes listed around them
+	const readOrder = (path: string) => {
+		const file = vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile) || file.extension !== 'md') return null;
+		const order: unknown = metadataCache.getFileCache(file)?.frontmatter?.[FRONTMATTER_KEYS.ORDER];
+		return typeof order === 'number' ? order : null;
+	};
+	const listed = data.noteOrder
+		.map((path, index) => ({ path, index: getListedOrderValue(data.noteOrder, index, readOrder) }))
+		.filter(entry => readOrder(entry.path) === null);
+
+	for (const file of vault.getMarkdownFiles()) {
+		const frontmatter = metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
+		if (!frontmatter) continue;
+
+		const pinned = frontmatter[FRONTMATTER_KEYS.PINNED];
+		const color = colorFromName(frontmatter[FRONTMATTER_KEYS.COLOR]);
+		const order = frontmatter[FRONTMATTER_KEYS.ORDER];
+		if (typeof pinned !== 'boolean' && !color && typeof order !== 'number') continue;
+
+		if (pinned === true && !data.pinnedNotes.includes(file.path)) {
+			data.pinnedNotes.push(file.path);
+		}
+		if (color) {
+			data.noteColors[file.path] = color;
+		}
+		if (typeof order === 'number') {
+			ordered.push({ path: file.path, index: order });
+		}
+
+		await fileManager.processFrontMatter(file, (fm: Record<string, unknown>) => {
+			if (typeof pinned === 'boolean') delete fm[FRONTMATTER_KEYS.PINNED];
+			if (color) delete fm[FRONTMATTER_KEYS.COLOR];
+			if (typeof order === 'number') delete fm[FRONTMATTER_KEYS.ORDER];
+		});
+		updated++;
+	}
+
+	// Merge with the positions of non-markdown files that were already in plugin data
+	listed.forEach(entry => {
+		if (!ordered.some(orderedEntry => orderedEntry.path === entry.path)) {
+			ordered.push(entry);
+		}
+	});
+	data.noteOrder = ordered.sort((a, b) => a.index - b.index).map(entry => entry.path);
+
+	data.storageMode = 'plugin-data';
+	await plugin.savePluginData();
+	plugin.noteIndex.refreshAllStates();
+	return updated;
+}
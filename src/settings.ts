@@ -1,5 +1,8 @@
 import { App, PluginSettingTab, Setting, setIcon } from 'obsidian';
 import type VisualDashboardPlugin from './main';
+import type { StorageMode } from './services/note-state-store';
+import { BoardSettingsModal } from './views/board-settings-modal';
+import { MAX_MASONRY_COLUMNS, MIN_CARD_WIDTH_RANGE } from './constants';
 
 export class MiniNotesSettingTab extends PluginSettingTab {
 	plugin: VisualDashboardPlugin;
@@ -31,7 +34,7 @@ export class MiniNotesSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('View title')
-			.setDesc('Custom title for the view')
+			.setDesc('Custom title for the default board')
 			.addText(text => text
 				.setPlaceholder('Do your best today!')
 				.setValue(this.plugin.data.viewTitle)
@@ -68,7 +71,7 @@ export class MiniNotesSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('Maximum notes')
-			.setDesc('Maximum number of notes to display (more than 300 is not recommended)')
+			.setDesc('Maximum number of notes to list in the sidebar (the full view renders cards on demand and shows all notes)')
 			.addText(text => text
 				.setPlaceholder('150')
 				.setValue(String(this.plugin.data.maxNotes))
@@ -81,6 +84,93 @@ export class MiniNotesSettingTab extends PluginSettingTab {
 				})
 			);
 
+		new Setting(containerEl)
+			.setName('Search mode')
+			.setDesc('Fuzzy search tolerates typos and sorts results by relevance instead of board order')
+			.addDropdown(dropdown => {
+				dropdown.addOption('filter', 'Exact filter');
+				dropdown.addOption('fuzzy', 'Fuzzy, ranked by relevance');
+				dropdown.setValue(this.plugin.data.searchMode);
+				dropdown.onChange(async (value) => {
+					this.plugin.data.searchMode = value as 'filter' | 'fuzzy';
+					await this.plugin.savePluginData();
+					this.app.workspace.trigger('mini-notes:settings-changed');
+				});
+			});
+
+		new Setting(containerEl)
+			.setName('Masonry columns')
+			.setDesc('Number of card columns in the full view, or automatic to fit as many as the minimum card width allows')
+			.addDropdown(dropdown => {
+				dropdown.addOption('0', 'Automatic');
+				for (let columns = 1; columns <= MAX_MASONRY_COLUMNS; columns++) {
+					dropdown.addOption(String(columns), String(columns));
+				}
+				dropdown.setValue(String(this.plugin.data.masonryColumns));
+				dropdown.onChange(async (value) => {
+					this.plugin.data.masonryColumns = parseInt(value);
+					await this.plugin.savePluginData();
+					this.app.workspace.trigger('mini-notes:settings-changed');
+					this.display();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName('Minimum card width')
+			.setDesc('Narrowest a card may get before a column is dropped, in pixels')
+			.setDisabled(this.plugin.data.masonryColumns > 0)
+			.addSlider(slider => slider
+				.setLimits(MIN_CARD_WIDTH_RANGE.MIN, MIN_CARD_WIDTH_RANGE.MAX, 10)
+				.setValue(this.plugin.data.minCardWidth)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.data.minCardWidth = value;
+					await this.plugin.savePluginData();
+					this.app.workspace.trigger('mini-notes:settings-changed');
+				})
+			);
+
+		// Boards settings
+		new Setting(containerEl).setName("Boards").setHeading();
+
+		new Setting(containerEl)
+			.setDesc('The settings on this page configure the default board. Named boards have their own source folders, exclusions, title, theme color and filters, and each opens in its own tab.')
+			.addButton(button => button
+				.setButtonText('Add board')
+				.onClick(async () => {
+					const board = await this.plugin.createBoard('New board');
+					new BoardSettingsModal(this.app, this.plugin, board.id, () => this.display()).open();
+				})
+			);
+
+		this.plugin.data.boards.forEach(board => {
+			new Setting(containerEl)
+				.setName(board.name)
+				.setDesc(board.sourceFolders.join(', '))
+				.addExtraButton(button => button
+					.setIcon('external-link')
+					.setTooltip('Open board')
+					.onClick(() => {
+						void this.plugin.activateView(board.id);
+					})
+				)
+				.addExtraButton(button => button
+					.setIcon('settings')
+					.setTooltip('Edit board')
+					.onClick(() => {
+						new BoardSettingsModal(this.app, this.plugin, board.id, () => this.display()).open();
+					})
+				)
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Delete board')
+					.onClick(async () => {
+						await this.plugin.deleteBoard(board.id);
+						this.display();
+					})
+				);
+		});
+
 		// New notes location settings
 		new Setting(containerEl).setName("New notes location").setHeading();
 
@@ -145,6 +235,29 @@ export class MiniNotesSettingTab extends PluginSettingTab {
 				})
 			);
 
+		new Setting(containerEl)
+			.setName('Archive folder')
+			.setDesc('Where archived notes are moved. Boards hide archived notes unless they take their notes from this folder.')
+			.addText(text => {
+				let shownFolder = this.plugin.data.archiveFolder;
+				text
+					// eslint-disable-next-line obsidianmd/ui/sentence-case -- Placeholder example
+					.setPlaceholder('Mini Notes/Archive')
+					.setValue(this.plugin.data.archiveFolder)
+					.onChange(async (value) => {
+						const folder = value.trim().replace(/\/+$/, '');
+						if (!folder) return;
+						this.plugin.data.archiveFolder = folder;
+						await this.plugin.savePluginData();
+					});
+				// Views hide archived notes by this folder, so re-render them once editing is done, not per keystroke
+				text.inputEl.addEventListener('blur', () => {
+					if (this.plugin.data.archiveFolder === shownFolder) return;
+					shownFolder = this.plugin.data.archiveFolder;
+					this.app.workspace.trigger('mini-notes:settings-changed');
+				});
+			});
+
 		// Auto-create folder settings
 		new Setting(containerEl).setName("Auto-create folder").setHeading();
 
@@ -361,6 +474,59 @@ export class MiniNotesSettingTab extends PluginSettingTab {
 		customColorSetting.settingEl.addClass('custom-color-setting');
 		customColorSetting.settingEl.style.display = this.plugin.data.themeColor === 'custom' ? 'flex' : 'none';
 
+		// Storage settings
+		new Setting(containerEl).setName("Storage").setHeading();
+
+		new Setting(containerEl)
+			.setName('Pins, colors and order')
+			.setDesc('Where per-note state is kept. Frontmatter stores it as "mini-notes-pinned", "mini-notes-color" and "mini-notes-order" properties in each note, so it survives moves and syncing outside Obsidian.')
+			.addDropdown(dropdown => {
+				dropdown.addOption('plugin-data', 'Plugin data (default)');
+				dropdown.addOption('frontmatter', 'Note frontmatter');
+				dropdown.setValue(this.plugin.data.storageMode);
+				dropdown.onChange(async (value) => {
+					this.plugin.data.storageMode = value as StorageMode;
+					await this.plugin.savePluginData();
+					this.plugin.noteIndex.refreshAllStates();
+				});
+			})
+			.addButton(button => button
+				.setButtonText('Move existing state')
+				.setTooltip('Copy the existing pins, colors and order into the selected storage')
+				.onClick(async () => {
+					await this.plugin.migrateStorage(this.plugin.data.storageMode);
+				})
+			);
+
+		// Maintenance settings
+		new Setting(containerEl).setName("Maintenance").setHeading();
+
+		new Setting(containerEl)
+			.setName('Clean up data')
+			.setDesc('Re-match pins, colors and order left behind by moved files, and remove entries and open times for deleted files')
+			.addButton(button => button
+				.setButtonText('Clean up')
+				.onClick(() => {
+					this.plugin.cleanUpData();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName('Export and import board')
+			.setDesc('Save a board\'s pins, colors, order, title, saved filters, sort order and layout to a JSON file in its source folder, or load them from one. Importing updates the board the file was exported from, or creates it. Paths are stored relative to the source folder.')
+			.addButton(button => button
+				.setButtonText('Export')
+				.onClick(() => {
+					this.plugin.exportBoard();
+				})
+			)
+			.addButton(button => button
+				.setButtonText('Import')
+				.onClick(() => {
+					this.plugin.importBoard();
+				})
+			);
+
 		// Footer with GitHub link
 		const footer = containerEl.createDiv();
 		// Required for proper footer spacing and layout - CSS classes not available for settings footer
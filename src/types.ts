@@ -1,42 +1,213 @@
+import type { StorageMode } from './services/note-state-store';
+
 export const VIEW_TYPE_VISUAL_DASHBOARD = 'visual-dashboard-view';
 export const VIEW_TYPE_SIDEBAR = 'mini-notes-sidebar-view';
 
 export const DASHBOARD_ICON = `<svg xmlns="http://www.w3.org/2000/svg" width="100" height="100" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><line x1="10" y1="5" x2="20" y2="5"/><line x1="4" y1="12" x2="20" y2="12"/><line x1="4" y1="19" x2="14" y2="19"/></svg>`;
 
+export type ThemeColor = 'obsidian' | 'black' | 'custom';
+
+// Tags a note must (or must not) have; 'all' requires every included tag, 'any' just one
+export interface TagFilter {
+	include: string[];
+	exclude: string[];
+	mode: 'all' | 'any';
+}
+
+// Folders to show (any of them, with subfolders) and folders hidden for now
+export interface FolderFilter {
+	include: string[];
+	exclude: string[];
+}
+
+// Which date a date filter looks at: file creation, last modification, the `created` frontmatter property,
+// or a YYYY-MM-DD date at the start of the note name (as new mini notes get), falling back to file creation
+export type DateField = 'created' | 'modified' | 'property' | 'name';
+
+export type DatePreset = 'today' | 'yesterday' | 'this-week' | 'last-30-days' | 'custom';
+
+// No preset means no date filter; a custom range uses `from` and `to` (YYYY-MM-DD, both inclusive, either optional)
+export interface DateFilter {
+	field: DateField;
+	preset: DatePreset | null;
+	from: string | null;
+	to: string | null;
+}
+
+// Filters a board remembers between sessions
+export interface BoardFilters {
+	pinned: 'all' | 'pinned' | 'unpinned';
+	tags: TagFilter;
+	folders: FolderFilter;
+	date: DateFilter;
+	color: string | null;
+	type: string | null;
+	search: string;
+}
+
+export type SortField = 'manual' | 'modified' | 'created' | 'title' | 'size' | 'tag' | 'color' | 'last-opened';
+
+// How cards are ordered within a section; manual order ignores the direction
+export interface SortOrder {
+	field: SortField;
+	direction: 'asc' | 'desc';
+}
+
+// A named combination of filters, optionally with its own sort order
+export interface FilterPreset {
+	id: string;
+	name: string;
+	filters: BoardFilters;
+	sort: SortOrder | null;
+}
+
+// What the dashboard splits cards into sections by; dates use the creation time
+export type GroupBy = 'none' | 'tag' | 'folder' | 'color' | 'type' | 'created-day' | 'created-week' | 'created-month';
+
+export type BoardLayoutMode = 'masonry' | 'kanban' | 'timeline' | 'calendar';
+
+// How much of each note a card shows: masonry sizes cards by content, the grid uses one fixed height, the list one line per note
+export type CardDensity = 'masonry' | 'grid' | 'list';
+
+// Kanban columns come from the values of a frontmatter property, or from a list of tags
+export interface KanbanConfig {
+	source: 'property' | 'tags';
+	property: string;
+	// Column order for property values (values not listed get columns after these), or the tags to use as columns
+	columns: string[];
+}
+
+// How a board arranges its cards
+export interface BoardLayout {
+	mode: BoardLayoutMode;
+	density: CardDensity;
+	kanban: KanbanConfig;
+	// Which date places notes on the timeline and calendar
+	dateField: Extract<DateField, 'created' | 'name'>;
+	// Sections of the masonry layout
+	groupBy: GroupBy;
+	// Keys of the group sections folded away
+	collapsedGroups: string[];
+}
+
+/**
+ * A named dashboard with its own sources, title, theme and filters.
+ * The default board is not stored here; it is built from the top-level settings.
+ */
+export interface BoardConfig {
+	id: string;
+	name: string;
+	viewTitle: string;
+	sourceFolders: string[];
+	excludedFolders: string[];
+	themeColor: ThemeColor;
+	customThemeColor: string;
+	filters: BoardFilters;
+	sort: SortOrder;
+	layout: BoardLayout;
+}
+
+export const DEFAULT_BOARD_FILTERS: BoardFilters = {
+	pinned: 'all',
+	tags: { include: [], exclude: [], mode: 'all' },
+	folders: { include: [], exclude: [] },
+	date: { field: 'modified', preset: null, from: null, to: null },
+	color: null,
+	type: null,
+	search: ''
+};
+
+export const DEFAULT_SORT_ORDER: SortOrder = {
+	field: 'manual',
+	direction: 'asc'
+};
+
+export const DEFAULT_BOARD_LAYOUT: BoardLayout = {
+	mode: 'masonry',
+	density: 'masonry',
+	kanban: { source: 'property', property: 'status', columns: [] },
+	dateField: 'name',
+	groupBy: 'none',
+	collapsedGroups: []
+};
+
+// A card resized on the dashboard: how many masonry columns it spans, and its height limit if changed
+export interface CardSize {
+	columns: number;
+	maxHeight: number | null;
+}
+
 export interface DashboardData {
+	schemaVersion: number;
 	pinnedNotes: string[];
 	noteOrder: string[];
 	viewTitle: string;
 	sourceFolder: string;
 	maxNotes: number;
 	noteColors: Record<string, string>;
-	themeColor: 'obsidian' | 'black' | 'custom';
+	cardSizes: Record<string, CardSize>;
+	themeColor: ThemeColor;
 	customThemeColor: string;
 	useObsidianDefault: boolean;
 	newNotesFolder: string;
 	openAfterCreate: boolean;
+	// Where archived notes are moved; boards leave it out unless it is one of their sources
+	archiveFolder: string;
 	excludedFolders: string[];
 	allowedExtensions: string[];
 	autoCreateFolder: boolean;
 	autoCreateFolderPath: string;
 	defaultViewType: 'dashboard' | 'sidebar';
+	storageMode: StorageMode;
+	// 'fuzzy' ranks search results by relevance and tolerates typos
+	searchMode: 'filter' | 'fuzzy';
+	// Fixed number of masonry columns, or 0 to fit as many columns of at least `minCardWidth` pixels as there is room for
+	masonryColumns: number;
+	minCardWidth: number;
+	// Last known size of each file with stored state, used to re-match orphaned paths
+	noteFileSizes: Record<string, number>;
+	// When each note was last opened, for the "last opened" sort order
+	lastOpened: Record<string, number>;
+	// Sort order of the sidebar list; boards keep their own
+	sidebarSort: SortOrder;
+	// Saved filters of the default board
+	defaultBoardFilters: BoardFilters;
+	defaultBoardSort: SortOrder;
+	defaultBoardLayout: BoardLayout;
+	boards: BoardConfig[];
+	filterPresets: FilterPreset[];
 }
 
 export const DEFAULT_DATA: DashboardData = {
+	schemaVersion: 2,
 	pinnedNotes: [],
 	noteOrder: [],
 	viewTitle: 'Do Your Best Today!',
 	sourceFolder: '/',
 	maxNotes: 150,
 	noteColors: {},
+	cardSizes: {},
 	themeColor: 'obsidian',
 	customThemeColor: '#000000',
 	useObsidianDefault: true,
 	newNotesFolder: 'Mini Notes',
 	openAfterCreate: false,
+	archiveFolder: 'Mini Notes/Archive',
 	excludedFolders: [],
 	allowedExtensions: ['md'],
 	autoCreateFolder: true,
 	autoCreateFolderPath: 'Mini Notes',
-	defaultViewType: 'dashboard'
+	defaultViewType: 'dashboard',
+	storageMode: 'plugin-data',
+	searchMode: 'filter',
+	masonryColumns: 0,
+	minCardWidth: 220,
+	noteFileSizes: {},
+	lastOpened: {},
+	sidebarSort: DEFAULT_SORT_ORDER,
+	defaultBoardFilters: DEFAULT_BOARD_FILTERS,
+	defaultBoardSort: DEFAULT_SORT_ORDER,
+	defaultBoardLayout: DEFAULT_BOARD_LAYOUT,
+	boards: [],
+	filterPresets: []
 };
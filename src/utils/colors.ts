@@ -0,0 +1,17 @@
+import { PASTEL_COLORS } from '../constants';
+
+const PASTEL_VARIABLE_PATTERN = /^var\(--pastel-([a-z]+)\)$/;
+
+// Convert a stored color (e.g. "var(--pastel-yellow)") to its short name ("yellow")
+export function colorToName(color: string): string | null {
+	const match = color.match(PASTEL_VARIABLE_PATTERN);
+	return match && match[1] ? match[1] : null;
+}
+
+// Convert a short color name ("yellow", "Yellow") or a CSS variable back to a known pastel color
+export function colorFromName(value: unknown): string | null {
+	if (typeof value !== 'string') return null;
+	const name = colorToName(value.trim()) ?? value.trim().toLowerCase();
+	const option = PASTEL_COLORS.find(option => option.name.toLowerCase() === name);
+	return option ? option.color : null;
+}
@@ -0,0 +1,108 @@
+import type { IndexedNote } from '../services/note-index';
+import type { DateField, DateFilter, DatePreset } from '../types';
+
+// Start inclusive, end exclusive, in milliseconds
+export interface DateRange {
+	start: number;
+	end: number;
+}
+
+export const DATE_FIELD_OPTIONS: { value: DateField; label: string }[] = [
+	{ value: 'modified', label: 'Modified' },
+	{ value: 'created', label: 'Created' },
+	{ value: 'property', label: 'Created property' },
+	{ value: 'name', label: 'Date in name' }
+];
+
+export const DATE_PRESET_OPTIONS: { value: Exclude<DatePreset, 'custom'>; label: string }[] = [
+	{ value: 'today', label: 'Today' },
+	{ value: 'yesterday', label: 'Yesterday' },
+	{ value: 'this-week', label: 'This week' },
+	{ value: 'last-30-days', label: 'Last 30 days' }
+];
+
+export function isDateFilterActive(filter: DateFilter): boolean {
+	return filter.preset !== null;
+}
+
+export function isSameDateFilter(a: DateFilter, b: DateFilter): boolean {
+	// The field only matters while a range is set
+	if (!isDateFilterActive(a) && !isDateFilterActive(b)) return true;
+	return a.field === b.field && a.preset === b.preset
+		&& (a.preset !== 'custom' || (a.from === b.from && a.to === b.to));
+}
+
+// Midnight of the day `offset` days from the given date, in local time
+function startOfDay(date: Date, offset = 0): number {
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate() + offset).getTime();
+}
+
+// Parse a YYYY-MM-DD day as local midnight
+export function parseDay(value: string): Date | null {
+	const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+	if (!match) return null;
+	const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+	return isNaN(date.getTime()) ? null : date;
+}
+
+export function formatDay(date: Date): string {
+	const pad = (n: number) => String(n).padStart(2, '0');
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// The time span a filter covers (weeks start on Monday), or null when it doesn't filter
+export function getDateRange(filter: DateFilter, now = new Date()): DateRange | null {
+	switch (filter.preset) {
+		case 'today':
+			return { start: startOfDay(now), end: startOfDay(now, 1) };
+		case 'yesterday':
+			return { start: startOfDay(now, -1), end: startOfDay(now) };
+		case 'this-week':
+			return { start: startOfDay(now, -((now.getDay() + 6) % 7)), end: startOfDay(now, 1) };
+		case 'last-30-days':
+			return { start: startOfDay(now, -29), end: startOfDay(now, 1) };
+		case 'custom': {
+			const from = filter.from ? parseDay(filter.from) : null;
+			const to = filter.to ? parseDay(filter.to) : null;
+			if (!from && !to) return null;
+			return {
+				start: from ? from.getTime() : -Infinity,
+				end: to ? startOfDay(to, 1) : Infinity
+			};
+		}
+		default:
+			return null;
+	}
+}
+
+// The note's date for the field; notes without a `created` property have none
+export function getNoteDate(note: IndexedNote, field: DateField): number | null {
+	switch (field) {
+		case 'name':
+			return parseDay(note.file.basename.slice(0, 10))?.getTime() ?? note.file.stat.ctime;
+		case 'created':
+			return note.file.stat.ctime;
+		case 'modified':
+			return note.file.stat.mtime;
+		case 'property':
+			return note.createdProperty;
+	}
+}
+
+export function matchesDateRange(note: IndexedNote, field: DateField, range: DateRange): boolean {
+	const time = getNoteDate(note, field);
+	return time !== null && time >= range.start && time < range.end;
+}
+
+// Short label for the active filter, e.g. "Modified today" or "Created 2026-03-01 – 2026-03-14"
+export function describeDateFilter(filter: DateFilter): string {
+	const field = DATE_FIELD_OPTIONS.find(option => option.value === filter.field)?.label ?? '';
+	if (filter.preset === 'custom') {
+		if (filter.from && filter.to) return `${field} ${filter.from} – ${filter.to}`;
+		if (filter.from) return `${field} since ${filter.from}`;
+		if (filter.to) return `${field} until ${filter.to}`;
+		return field;
+	}
+	const preset = DATE_PRESET_OPTIONS.find(option => option.value === filter.preset)?.label ?? '';
+	return `${field} ${preset.toLowerCase()}`;
+}
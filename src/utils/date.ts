@@ -22,3 +22,24 @@ export function formatDate(timestamp: number): string {
 		});
 	}
 }
+
+// Read a frontmatter date such as `2026-03-14` or `2026-03-14T09:30` as local time
+export function parseFrontmatterDate(value: unknown): number | null {
+	if (typeof value === 'number') {
+		return Number.isFinite(value) ? value : null;
+	}
+	if (typeof value !== 'string') return null;
+
+	const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/);
+	if (match) {
+		const date = new Date(
+			Number(match[1]), Number(match[2]) - 1, Number(match[3]),
+			Number(match[4] ?? 0), Number(match[5] ?? 0), Number(match[6] ?? 0)
+		);
+		return isNaN(date.getTime()) ? null : date.getTime();
+	}
+
+	// Anything else the Date parser understands, e.g. with a time zone
+	const time = Date.parse(value);
+	return isNaN(time) ? null : time;
+}
@@ -0,0 +1,94 @@
+import type { FolderFilter } from '../types';
+import { isFileInFolderOrSubfolder } from './markdown';
+
+export type FolderState = 'include' | 'exclude' | null;
+
+// A folder in the filter tree; `count` covers the folder and everything below it
+export interface FolderTreeNode {
+	path: string;
+	name: string;
+	count: number;
+	children: FolderTreeNode[];
+}
+
+export function isFolderFilterActive(filter: FolderFilter): boolean {
+	return filter.include.length > 0 || filter.exclude.length > 0;
+}
+
+export function getFolderState(filter: FolderFilter, folder: string): FolderState {
+	if (filter.include.includes(folder)) return 'include';
+	if (filter.exclude.includes(folder)) return 'exclude';
+	return null;
+}
+
+// A copy of the filter with the folder included, excluded or removed
+export function setFolderState(filter: FolderFilter, folder: string, state: FolderState): FolderFilter {
+	const include = filter.include.filter(f => f !== folder);
+	const exclude = filter.exclude.filter(f => f !== folder);
+	if (state === 'include') include.push(folder);
+	if (state === 'exclude') exclude.push(folder);
+	return { include, exclude };
+}
+
+export function isSameFolderFilter(a: FolderFilter, b: FolderFilter): boolean {
+	const sameSet = (x: string[], y: string[]) => x.length === y.length && x.every(folder => y.includes(folder));
+	return sameSet(a.include, b.include) && sameSet(a.exclude, b.exclude);
+}
+
+// Included and excluded folders cover their subfolders; "/" only stands for notes at the vault root
+export function matchesFolderFilter(folder: string, filter: FolderFilter): boolean {
+	if (filter.exclude.some(excluded => isFileInFolderOrSubfolder(folder, excluded))) return false;
+	return filter.include.length === 0 || filter.include.some(included => isFileInFolderOrSubfolder(folder, included));
+}
+
+// Number of notes directly inside each folder
+export function countNotesByFolder(notes: { folder: string }[]): Map<string, number> {
+	const counts = new Map<string, number>();
+	for (const note of notes) {
+		counts.set(note.folder, (counts.get(note.folder) ?? 0) + 1);
+	}
+	return counts;
+}
+
+/**
+ * Arrange folder paths into a tree sorted by name, adding parent folders that hold no notes themselves.
+ * Counts roll up, so a folder's count includes its subfolders. The vault root, if listed, comes first.
+ */
+export function buildFolderTree(folders: string[], directCounts: Map<string, number>): FolderTreeNode[] {
+	const nodes = new Map<string, FolderTreeNode>();
+	const roots: FolderTreeNode[] = [];
+
+	const getNode = (path: string): FolderTreeNode => {
+		let node = nodes.get(path);
+		if (node) return node;
+
+		const separator = path.lastIndexOf('/');
+		node = { path, name: path.slice(separator + 1), count: 0, children: [] };
+		nodes.set(path, node);
+		if (separator > 0) {
+			getNode(path.slice(0, separator)).children.push(node);
+		} else {
+			roots.push(node);
+		}
+		return node;
+	};
+
+	let rootNode: FolderTreeNode | null = null;
+	for (const folder of folders) {
+		if (folder === '/') {
+			rootNode = { path: '/', name: '/', count: directCounts.get('/') ?? 0, children: [] };
+		} else if (folder) {
+			getNode(folder);
+		}
+	}
+
+	const rollUp = (node: FolderTreeNode): number => {
+		node.children.sort((a, b) => a.name.localeCompare(b.name));
+		node.count = (directCounts.get(node.path) ?? 0) + node.children.reduce((sum, child) => sum + rollUp(child), 0);
+		return node.count;
+	};
+	roots.forEach(rollUp);
+	roots.sort((a, b) => a.name.localeCompare(b.name));
+
+	return rootNode ? [rootNode, ...roots] : roots;
+}
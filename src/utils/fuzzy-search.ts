@@ -0,0 +1,110 @@
+import { prepareFuzzySearch, SearchResult } from 'obsidian';
+import type { IndexedNote } from '../services/note-index';
+import { matchWords } from './word-match';
+
+export type MatchRange = [number, number];
+
+export interface FuzzyNoteMatch {
+	// Higher is more relevant; 0 when no term matched
+	score: number;
+	// Ranges in the note's basename
+	titleRanges: MatchRange[];
+	// Ranges in the note's stripped text
+	textRanges: MatchRange[];
+}
+
+interface TermMatch extends FuzzyNoteMatch {
+	matched: boolean;
+}
+
+// How much a hit in the title or a heading counts towards relevance; body hits are scored by matchWords
+const TITLE_WEIGHT = 3;
+const HEADING_WEIGHT = 2;
+
+/**
+ * Typo-tolerant relevance scoring of notes against the words of a search.
+ * Titles and headings are matched with Obsidian's fuzzy search; body text word by word,
+ * where a word matches exactly, by prefix, or within a small edit distance.
+ * Results are cached per note for the lifetime of the scorer (one render).
+ */
+export class FuzzyNoteScorer {
+	private terms: string[];
+	private fuzzyMatchers = new Map<string, (text: string) => SearchResult | null>();
+	private termCache = new Map<string, TermMatch>();
+	private noteCache = new Map<string, FuzzyNoteMatch>();
+
+	constructor(terms: string[]) {
+		this.terms = terms.filter(term => term.trim() !== '');
+	}
+
+	hasTerms(): boolean {
+		return this.terms.length > 0;
+	}
+
+	// Whether a single search term fuzzily matches the note
+	matchesTerm(note: IndexedNote, term: string): boolean {
+		return this.matchTerm(note, term).matched;
+	}
+
+	// Combined relevance and highlight ranges for all terms
+	score(note: IndexedNote): FuzzyNoteMatch {
+		const cached = this.noteCache.get(note.file.path);
+		if (cached) return cached;
+
+		const result: FuzzyNoteMatch = { score: 0, titleRanges: [], textRanges: [] };
+		for (const term of this.terms) {
+			const match = this.matchTerm(note, term);
+			if (!match.matched) continue;
+			result.score += match.score;
+			result.titleRanges.push(...match.titleRanges);
+			result.textRanges.push(...match.textRanges);
+		}
+
+		this.noteCache.set(note.file.path, result);
+		return result;
+	}
+
+	private getFuzzyMatcher(term: string): (text: string) => SearchResult | null {
+		let matcher = this.fuzzyMatchers.get(term);
+		if (!matcher) {
+			matcher = prepareFuzzySearch(term);
+			this.fuzzyMatchers.set(term, matcher);
+		}
+		return matcher;
+	}
+
+	private matchTerm(note: IndexedNote, term: string): TermMatch {
+		const key = `${note.file.path}\u0000${term}`;
+		const cached = this.termCache.get(key);
+		if (cached) return cached;
+
+		const fuzzy = this.getFuzzyMatcher(term);
+		const match: TermMatch = { matched: false, score: 0, titleRanges: [], textRanges: [] };
+
+		const title = fuzzy(note.file.basename);
+		if (title) {
+			match.matched = true;
+			// Obsidian's scores are 0 for a perfect match and negative otherwise
+			match.score += TITLE_WEIGHT + Math.max(-1, title.score / 10);
+			match.titleRanges.push(...title.matches);
+		}
+
+		const heading = note.headings
+			.map(text => fuzzy(text))
+			.reduce<SearchResult | null>((best, result) => result && (!best || result.score > best.score) ? result : best, null);
+		if (heading) {
+			match.matched = true;
+			match.score += HEADING_WEIGHT + Math.max(-1, heading.score / 10);
+		}
+
+		const words = matchWords(note.text, term);
+		if (words) {
+			match.matched = true;
+			match.score += words.score;
+			match.textRanges.push(...words.ranges);
+		}
+
+		this.termCache.set(key, match);
+		return match;
+	}
+}
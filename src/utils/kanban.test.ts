@@ -0,0 +1,88 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { TFile } from 'obsidian';
+import type { IndexedNote } from '../services/note-index';
+import type { KanbanConfig } from '../types';
+import { buildKanbanColumns, getColumnChange, getPropertyColumnKey } from './kanban';
+
+function noteWith(name: string, tags: string[] = []): IndexedNote {
+	return {
+		file: { path: `${name}.md`, name: `${name}.md`, basename: name, extension: 'md', stat: { ctime: 0, mtime: 0, size: 0 } } as TFile,
+		folder: '/',
+		tags,
+		headings: [],
+		body: '',
+		text: '',
+		sizeClass: 'card-small',
+		color: null,
+		createdProperty: null
+	};
+}
+
+const byStatus: KanbanConfig = { source: 'property', property: 'status', columns: ['todo', 'doing', 'done'] };
+const byTag: KanbanConfig = { source: 'tags', property: '', columns: ['todo', '#done'] };
+
+function columnsOf(notes: IndexedNote[], config: KanbanConfig, properties: Record<string, unknown> = {}) {
+	return buildKanbanColumns(notes, config, note => properties[note.file.path])
+		.map(column => ({ key: column.key, notes: column.notes.map(note => note.file.basename) }));
+}
+
+describe('getPropertyColumnKey', () => {
+	test('reads strings, numbers, booleans and the first entry of a list', () => {
+		assert.equal(getPropertyColumnKey(' doing '), 'doing');
+		assert.equal(getPropertyColumnKey(3), '3');
+		assert.equal(getPropertyColumnKey(false), 'false');
+		assert.equal(getPropertyColumnKey(['done', 'todo']), 'done');
+		assert.equal(getPropertyColumnKey({ status: 'done' }), '');
+	});
+});
+
+describe('buildKanbanColumns', () => {
+	test('shows configured property columns even when empty, then other values, with unsorted notes first', () => {
+		const notes = [noteWith('a'), noteWith('b'), noteWith('c'), noteWith('d')];
+		const properties = { 'a.md': 'done', 'b.md': 'blocked', 'c.md': 'done' };
+		assert.deepEqual(columnsOf(notes, byStatus, properties), [
+			{ key: '', notes: ['d'] },
+			{ key: 'todo', notes: [] },
+			{ key: 'doing', notes: [] },
+			{ key: 'done', notes: ['a', 'c'] },
+			{ key: 'blocked', notes: ['b'] }
+		]);
+	});
+
+	test('puts a note under the first configured tag it has, counting nested tags', () => {
+		const notes = [noteWith('a', ['#done', '#todo']), noteWith('b', ['#todo/urgent']), noteWith('c', ['#other'])];
+		assert.deepEqual(columnsOf(notes, byTag), [
+			{ key: '', notes: ['c'] },
+			{ key: '#todo', notes: ['a', 'b'] },
+			{ key: '#done', notes: [] }
+		]);
+	});
+});
+
+describe('getColumnChange', () => {
+	test('changes nothing for a drop into the same column', () => {
+		assert.equal(getColumnChange(noteWith('a'), byStatus, 'todo', 'todo'), null);
+		assert.equal(getColumnChange(noteWith('a', ['#todo']), byTag, '#todo', '#todo'), null);
+	});
+
+	test('sets the property for a drop into another column, and clears it for the unsorted one', () => {
+		assert.deepEqual(getColumnChange(noteWith('a'), byStatus, 'todo', 'done'), { kind: 'property', value: 'done' });
+		assert.deepEqual(getColumnChange(noteWith('a'), byStatus, 'todo', ''), { kind: 'property', value: undefined });
+	});
+
+	test('swaps the column tag the note has, including a nested one', () => {
+		const note = noteWith('a', ['#work', '#todo/urgent']);
+		assert.deepEqual(getColumnChange(note, byTag, '#todo', '#done'), { kind: 'tag', from: '#todo/urgent', to: '#done' });
+		assert.deepEqual(getColumnChange(note, byTag, '#todo', ''), { kind: 'tag', from: '#todo/urgent', to: null });
+		assert.deepEqual(getColumnChange(noteWith('b'), byTag, '', '#done'), { kind: 'tag', from: null, to: '#done' });
+	});
+
+	test('lands the note in the column it was dropped on', () => {
+		const note = noteWith('a', ['#todo']);
+		const change = getColumnChange(note, byTag, '#todo', '#done');
+		assert.ok(change?.kind === 'tag');
+		const moved = noteWith('a', note.tags.map(tag => tag === change.from ? change.to! : tag));
+		assert.deepEqual(columnsOf([moved], byTag).find(column => column.notes.includes('a'))?.key, '#done');
+	});
+});
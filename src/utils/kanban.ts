@@ -0,0 +1,92 @@
+import type { IndexedNote } from '../services/note-index';
+import type { KanbanConfig } from '../types';
+import { formatTagForDisplay, tagMatchesFilter } from './markdown';
+
+export interface KanbanColumn {
+	// The property value or tag the column stands for; empty for notes without one
+	key: string;
+	label: string;
+	notes: IndexedNote[];
+}
+
+const naturalCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+// Read a frontmatter value as a column key; lists use their first entry
+export function getPropertyColumnKey(value: unknown): string {
+	const first: unknown = Array.isArray(value) ? value[0] : value;
+	if (typeof first === 'string') return first.trim();
+	if (typeof first === 'number' || typeof first === 'boolean') return String(first);
+	return '';
+}
+
+// Tags typed in settings may leave out the #
+export function normalizeColumnTag(tag: string): string {
+	const trimmed = tag.trim();
+	return trimmed.startsWith('#') ? trimmed : `#${trimmed}`;
+}
+
+// The note tag a tag column matches, so nested tags (#task/urgent in #task) can be swapped out too
+export function findColumnTag(note: IndexedNote, columnTag: string): string | null {
+	return note.tags.find(tag => tagMatchesFilter(tag, columnTag)) ?? null;
+}
+
+// What a card dropped into another column changes: the property value, or one column tag for another
+export type ColumnChange =
+	| { kind: 'property'; value: string | undefined }
+	| { kind: 'tag'; from: string | null; to: string | null };
+
+// The change that moves a note from one column (by key) into another; none within the same column
+export function getColumnChange(note: IndexedNote, config: KanbanConfig, fromKey: string, toKey: string): ColumnChange | null {
+	if (fromKey === toKey) return null;
+	if (config.source === 'property') return { kind: 'property', value: toKey || undefined };
+	return { kind: 'tag', from: fromKey ? findColumnTag(note, fromKey) : null, to: toKey || null };
+}
+
+/**
+ * Sort notes into kanban columns, keeping their order within each column.
+ * Configured columns always show, so cards can be dropped into empty ones. For a property, values
+ * that aren't configured get their own columns after them; notes without a value (or, for tags,
+ * without any of the column tags) go into a first column that only shows when it has notes.
+ */
+export function buildKanbanColumns(
+	notes: IndexedNote[],
+	config: KanbanConfig,
+	getProperty: (note: IndexedNote) => unknown
+): KanbanColumn[] {
+	const configured = Array.from(new Set(config.source === 'tags'
+		? config.columns.map(normalizeColumnTag)
+		: config.columns.map(column => column.trim())));
+	const columns = new Map<string, IndexedNote[]>(configured.map(key => [key, []]));
+	const unsorted: IndexedNote[] = [];
+	const extraKeys: string[] = [];
+
+	for (const note of notes) {
+		let key = '';
+		if (config.source === 'tags') {
+			key = configured.find(tag => findColumnTag(note, tag) !== null) ?? '';
+		} else {
+			key = getPropertyColumnKey(getProperty(note));
+		}
+
+		if (!key) {
+			unsorted.push(note);
+			continue;
+		}
+		let column = columns.get(key);
+		if (!column) {
+			column = [];
+			columns.set(key, column);
+			extraKeys.push(key);
+		}
+		column.push(note);
+	}
+
+	const emptyLabel = config.source === 'tags' ? 'Other' : `No ${config.property}`;
+	const result: KanbanColumn[] = unsorted.length > 0 ? [{ key: '', label: emptyLabel, notes: unsorted }] : [];
+	const label = (key: string) => config.source === 'tags' ? formatTagForDisplay(key) : key;
+	configured.forEach(key => result.push({ key, label: label(key), notes: columns.get(key)! }));
+	extraKeys
+		.sort((a, b) => naturalCollator.compare(a, b))
+		.forEach(key => result.push({ key, label: label(key), notes: columns.get(key)! }));
+	return result;
+}
@@ -95,6 +95,20 @@ export function extractTags(content: string): string[] {
 	return tags;
 }
 
+// Extract the text of ATX headings (# to ######), outside frontmatter
+export function extractHeadings(content: string): string[] {
+	const headings: string[] = [];
+	const headingRegex = /^#{1,6}\s+(.+?)\s*#*$/gm;
+	const body = content.replace(/^---[\s\S]*?---\n?/, '');
+	let match;
+
+	while ((match = headingRegex.exec(body)) !== null) {
+		if (match[1]) headings.push(match[1]);
+	}
+
+	return headings;
+}
+
 // Strip markdown formatting from content
 export function stripMarkdown(content: string): string {
 	return content
@@ -138,3 +152,27 @@ export function getMarkdownForPreview(content: string, maxLength: number): strin
 
 	return text;
 }
+
+/**
+ * Rename an inline tag in the note body (outside frontmatter), or remove it when `to` is null.
+ * Only the exact tag is touched, not its children; both tags include the leading #.
+ */
+export function replaceInlineTag(content: string, from: string, to: string | null): string {
+	const frontmatter = content.match(/^---\n[\s\S]*?\n---/)?.[0] ?? '';
+	const body = content.slice(frontmatter.length);
+	const escaped = from.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	const tagRegex = new RegExp(`(^|\\s)${escaped}(?![0-9A-Za-z_/-])`, 'gi');
+	return frontmatter + body.replace(tagRegex, (_match, prefix: string) => to ? prefix + to : prefix);
+}
+
+/**
+ * Swap a tag in a `tags` property list, or remove it when `to` is null; without `from` the tag is added.
+ * Tags are compared without # and case. The added tag goes first (stored without #), so a note
+ * without inline tags gets it as its first tag.
+ */
+export function replaceTagInList(tags: string[], from: string | null, to: string | null): string[] {
+	const bare = (tag: string) => tag.replace(/^#/, '').toLowerCase();
+	const kept = tags.filter(tag => bare(tag) !== bare(from ?? '') && bare(tag) !== bare(to ?? ''));
+	if (to) kept.unshift(to.replace(/^#/, ''));
+	return kept;
+}
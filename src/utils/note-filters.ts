@@ -0,0 +1,15 @@
+import type { IndexedNote } from '../services/note-index';
+
+export type FilterFacet = 'search' | 'tags' | 'folders' | 'date' | 'type' | 'color' | 'pinned';
+
+// The active filters of a view, one predicate per facet
+export type NotePredicates = Partial<Record<FilterFacet, (note: IndexedNote) => boolean>>;
+
+// Notes passing every active filter except the skipped ones, e.g. to count what a filter's options would leave
+export function applyNoteFilters(notes: IndexedNote[], predicates: NotePredicates, skip: FilterFacet[] = []): IndexedNote[] {
+	const active = (Object.keys(predicates) as FilterFacet[])
+		.filter(facet => !skip.includes(facet))
+		.map(facet => predicates[facet]!);
+	if (active.length === 0) return notes;
+	return notes.filter(note => active.every(predicate => predicate(note)));
+}
@@ -0,0 +1,132 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { TFile } from 'obsidian';
+import type { IndexedNote } from '../services/note-index';
+import { extractTags, replaceInlineTag, replaceTagInList } from './markdown';
+import { getGroupKey, getGroupTarget, groupNotes } from './note-groups';
+
+function noteFrom(content: string, path = 'note.md', ctime = 0): IndexedNote {
+	const name = path.slice(path.lastIndexOf('/') + 1);
+	return {
+		file: {
+			path,
+			name,
+			basename: name.replace(/\.[^.]+$/, ''),
+			extension: name.slice(name.lastIndexOf('.') + 1),
+			stat: { ctime, mtime: 0, size: content.length }
+		} as TFile,
+		folder: path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '/',
+		tags: extractTags(content),
+		headings: [],
+		body: content,
+		text: content,
+		sizeClass: 'card-small',
+		color: null,
+		createdProperty: null
+	};
+}
+
+// The edits replaceNoteTag makes, with the tags property as a flow list
+function replaceTag(content: string, from: string | null, to: string | null): string {
+	const swapped = from ? replaceInlineTag(content, from, to) : content;
+	const [, list = '', body = swapped] = swapped.match(/^---\ntags: \[(.*)\]\n---\n([\s\S]*)$/) ?? [];
+	const tags = replaceTagInList(list.split(', ').filter(Boolean), from, swapped === content ? to : null);
+	return tags.length > 0 ? `---\ntags: [${tags.join(', ')}]\n---\n${body}` : body;
+}
+
+// A drop onto a tag group swaps the first tag; one onto "No tags" removes them all
+function dropOnTag(content: string, to: string): string {
+	return replaceTag(content, noteFrom(content).tags[0] ?? null, to);
+}
+
+function dropOnNoTags(content: string): string {
+	return noteFrom(content).tags.reduce((result, tag) => replaceTag(result, tag, null), content);
+}
+
+describe('getGroupKey', () => {
+	test('groups by the first tag, with untagged notes under an empty key', () => {
+		assert.equal(getGroupKey(noteFrom('Text #b #a'), 'tag'), 'tag:#b');
+		assert.equal(getGroupKey(noteFrom('Text'), 'tag'), 'tag:');
+	});
+
+	test('groups by folder, color and file type', () => {
+		const note = { ...noteFrom('', 'Projects/Site/plan.PDF'), color: 'var(--pastel-blue)' };
+		assert.equal(getGroupKey(note, 'folder'), 'folder:Projects/Site');
+		assert.equal(getGroupKey(note, 'color'), 'color:var(--pastel-blue)');
+		assert.equal(getGroupKey(note, 'type'), 'type:pdf');
+		assert.equal(getGroupKey(noteFrom(''), 'none'), '');
+	});
+
+	test('groups by creation day, week starting on Monday, and month', () => {
+		// A Sunday
+		const note = noteFrom('', 'note.md', new Date(2026, 2, 15, 18).getTime());
+		assert.equal(getGroupKey(note, 'created-day'), 'day:2026-03-15');
+		assert.equal(getGroupKey(note, 'created-week'), 'week:2026-03-09');
+		assert.equal(getGroupKey(note, 'created-month'), 'month:2026-03');
+	});
+});
+
+describe('groupNotes', () => {
+	test('orders groups by name with the empty group last, keeping note order within groups', () => {
+		const notes = [noteFrom('#work', 'one.md'), noteFrom('none', 'two.md'), noteFrom('#home', 'three.md'), noteFrom('#work', 'four.md')];
+		const groups = groupNotes(notes, 'tag');
+		assert.deepEqual(groups.map(group => group.key), ['tag:#home', 'tag:#work', 'tag:']);
+		assert.deepEqual(groups.map(group => group.label), ['home', 'work', 'No tags']);
+		assert.deepEqual(groups[1]!.notes.map(note => note.file.path), ['one.md', 'four.md']);
+	});
+
+	test('lists newer dates first', () => {
+		const notes = [noteFrom('', 'old.md', new Date(2026, 0, 5).getTime()), noteFrom('', 'new.md', new Date(2026, 2, 5).getTime())];
+		assert.deepEqual(groupNotes(notes, 'created-month').map(group => group.key), ['month:2026-03', 'month:2026-01']);
+	});
+});
+
+describe('getGroupTarget', () => {
+	test('reads what a drop into the group changes', () => {
+		assert.deepEqual(getGroupTarget('tag:#work'), { kind: 'tag', tag: '#work' });
+		assert.deepEqual(getGroupTarget('tag:'), { kind: 'tag', tag: null });
+		assert.deepEqual(getGroupTarget('folder:Projects'), { kind: 'folder', folder: 'Projects' });
+		assert.deepEqual(getGroupTarget('color:'), { kind: 'color', color: null });
+		assert.deepEqual(getGroupTarget('month:2026-03'), { kind: 'fixed' });
+	});
+});
+
+describe('dropping a note on "No tags"', () => {
+	test('removes every tag, inline and in the property', () => {
+		const dropped = dropOnNoTags('---\ntags: [c, d]\n---\nText #a and #b\n');
+		assert.equal(dropped, 'Text  and \n');
+		assert.equal(getGroupKey(noteFrom(dropped), 'tag'), 'tag:');
+	});
+});
+
+describe('dropping a note on a tag group', () => {
+	test('swaps the first inline tag in place, ahead of the other tags', () => {
+		const content = '---\ntags: [c]\n---\nText #a and #b\n';
+		assert.equal(getGroupKey(noteFrom(content), 'tag'), 'tag:#a');
+
+		const dropped = dropOnTag(content, '#b');
+		assert.equal(dropped, '---\ntags: [c]\n---\nText #b and #b\n');
+		assert.equal(getGroupKey(noteFrom(dropped), 'tag'), 'tag:#b');
+
+		const retagged = dropOnTag(content, '#d');
+		assert.equal(getGroupKey(noteFrom(retagged), 'tag'), 'tag:#d');
+	});
+
+	test('does not add a tags property to a note with only inline tags', () => {
+		const dropped = dropOnTag('Idea #a #b', '#c');
+		assert.equal(dropped, 'Idea #c #b');
+		assert.equal(getGroupKey(noteFrom(dropped), 'tag'), 'tag:#c');
+	});
+
+	test('puts the new tag first in the property of a note without inline tags', () => {
+		const content = '---\ntags: [a, b, c]\n---\nText\n';
+		const dropped = dropOnTag(content, '#c');
+		assert.equal(dropped, '---\ntags: [c, b]\n---\nText\n');
+		assert.equal(getGroupKey(noteFrom(dropped), 'tag'), 'tag:#c');
+	});
+
+	test('adds the tag to an untagged note', () => {
+		const dropped = dropOnTag('Text\n', '#a');
+		assert.equal(getGroupKey(noteFrom(dropped), 'tag'), 'tag:#a');
+	});
+});
@@ -0,0 +1,131 @@
+import type { IndexedNote } from '../services/note-index';
+import type { GroupBy } from '../types';
+import { PASTEL_COLORS } from '../constants';
+import { formatTagForDisplay } from './markdown';
+import { formatDay } from './date-filter';
+
+export const GROUP_BY_OPTIONS: { value: GroupBy; label: string }[] = [
+	{ value: 'none', label: 'No grouping' },
+	{ value: 'tag', label: 'Tag' },
+	{ value: 'folder', label: 'Folder' },
+	{ value: 'color', label: 'Color' },
+	{ value: 'type', label: 'File type' },
+	{ value: 'created-day', label: 'Created day' },
+	{ value: 'created-week', label: 'Created week' },
+	{ value: 'created-month', label: 'Created month' }
+];
+
+// A section of cards sharing a tag, folder, color, type or creation date
+export interface NoteGroup {
+	// Stable across renders, e.g. "tag:#work", "folder:Projects" or "month:2026-03"
+	key: string;
+	label: string;
+	notes: IndexedNote[];
+}
+
+// What a card dropped into a group should change: tags, folder and color can be changed, the rest can't
+export type GroupTarget =
+	| { kind: 'tag'; tag: string | null }
+	| { kind: 'folder'; folder: string }
+	| { kind: 'color'; color: string | null }
+	| { kind: 'fixed' };
+
+const naturalCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+// The group a note belongs to; notes with several tags go under their first tag
+export function getGroupKey(note: IndexedNote, groupBy: GroupBy): string {
+	const created = new Date(note.file.stat.ctime);
+	switch (groupBy) {
+		case 'tag':
+			return `tag:${note.tags[0] ?? ''}`;
+		case 'folder':
+			return `folder:${note.folder}`;
+		case 'color':
+			return `color:${note.color ?? ''}`;
+		case 'type':
+			return `type:${note.file.extension.toLowerCase()}`;
+		case 'created-day':
+			return `day:${formatDay(created)}`;
+		case 'created-week': {
+			const monday = new Date(created.getFullYear(), created.getMonth(), created.getDate() - (created.getDay() + 6) % 7);
+			return `week:${formatDay(monday)}`;
+		}
+		case 'created-month':
+			return `month:${formatDay(created).slice(0, 7)}`;
+		case 'none':
+			return '';
+	}
+}
+
+function getGroupLabel(key: string): string {
+	const separator = key.indexOf(':');
+	const kind = key.slice(0, separator);
+	const value = key.slice(separator + 1);
+	switch (kind) {
+		case 'tag':
+			return value ? formatTagForDisplay(value) : 'No tags';
+		case 'folder':
+			return value === '/' ? 'Vault root' : value;
+		case 'color':
+			return PASTEL_COLORS.find(option => option.color === value)?.name ?? 'No color';
+		case 'type':
+			return `.${value}`;
+		case 'day':
+			return new Date(`${value}T00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+		case 'week':
+			return `Week of ${new Date(`${value}T00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+		case 'month':
+			return new Date(`${value}-01T00:00`).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+		default:
+			return value;
+	}
+}
+
+// Groups in display order: dates newest first, colors in palette order, everything else by name; empty keys last
+function compareGroupKeys(a: string, b: string): number {
+	const aValue = a.slice(a.indexOf(':') + 1);
+	const bValue = b.slice(b.indexOf(':') + 1);
+	if (!aValue || !bValue) return aValue ? -1 : bValue ? 1 : 0;
+	if (/^(day|week|month):/.test(a)) return bValue.localeCompare(aValue);
+	if (a.startsWith('color:')) {
+		const rank = (value: string) => PASTEL_COLORS.findIndex(option => option.color === value);
+		return rank(aValue) - rank(bValue);
+	}
+	return naturalCollator.compare(aValue, bValue);
+}
+
+/**
+ * Split notes into groups, keeping their order within each group.
+ */
+export function groupNotes(notes: IndexedNote[], groupBy: GroupBy): NoteGroup[] {
+	const groups = new Map<string, IndexedNote[]>();
+	for (const note of notes) {
+		const key = getGroupKey(note, groupBy);
+		const group = groups.get(key);
+		if (group) {
+			group.push(note);
+		} else {
+			groups.set(key, [note]);
+		}
+	}
+
+	return Array.from(groups.keys())
+		.sort(compareGroupKeys)
+		.map(key => ({ key, label: getGroupLabel(key), notes: groups.get(key)! }));
+}
+
+export function getGroupTarget(key: string): GroupTarget {
+	const separator = key.indexOf(':');
+	const kind = key.slice(0, separator);
+	const value = key.slice(separator + 1);
+	switch (kind) {
+		case 'tag':
+			return { kind: 'tag', tag: value || null };
+		case 'folder':
+			return { kind: 'folder', folder: value };
+		case 'color':
+			return { kind: 'color', color: value || null };
+		default:
+			return { kind: 'fixed' };
+	}
+}
@@ -0,0 +1,105 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { TFile } from 'obsidian';
+import type { IndexedNote } from '../services/note-index';
+import type { SortOrder } from '../types';
+import { createNoteComparator, describeSortOrder, moveInManualOrder, NoteSortContext } from './note-sort';
+
+interface NoteFields {
+	tags?: string[];
+	color?: string | null;
+	mtime?: number;
+	size?: number;
+}
+
+function noteWith(name: string, { tags = [], color = null, mtime = 0, size = 0 }: NoteFields = {}): IndexedNote {
+	return {
+		file: { path: `${name}.md`, name: `${name}.md`, basename: name, extension: 'md', stat: { ctime: 0, mtime, size } } as TFile,
+		folder: '/',
+		tags,
+		headings: [],
+		body: '',
+		text: '',
+		sizeClass: 'card-small',
+		color,
+		createdProperty: null
+	};
+}
+
+function sortNames(notes: IndexedNote[], order: SortOrder, context: Partial<NoteSortContext> = {}): string[] {
+	const comparator = createNoteComparator(order, { getOrderIndex: () => -1, getLastOpened: () => undefined, ...context });
+	return [...notes].sort(comparator).map(note => note.file.basename);
+}
+
+describe('createNoteComparator', () => {
+	test('sorts titles naturally', () => {
+		const notes = [noteWith('Note 10'), noteWith('note 2'), noteWith('Note 1')];
+		assert.deepEqual(sortNames(notes, { field: 'title', direction: 'asc' }), ['Note 1', 'note 2', 'Note 10']);
+		assert.deepEqual(sortNames(notes, { field: 'title', direction: 'desc' }), ['Note 10', 'note 2', 'Note 1']);
+	});
+
+	test('puts notes with a manual position first, then the rest newest first', () => {
+		const notes = [noteWith('a', { mtime: 1 }), noteWith('b', { mtime: 3 }), noteWith('c', { mtime: 2 }), noteWith('d')];
+		const positions: Record<string, number> = { 'd.md': 0, 'a.md': 5 };
+		assert.deepEqual(
+			sortNames(notes, { field: 'manual', direction: 'asc' }, { getOrderIndex: path => positions[path] ?? -1 }),
+			['d', 'a', 'b', 'c']
+		);
+	});
+
+	test('puts notes that were never opened last in both directions', () => {
+		const opened: Record<string, number> = { 'a.md': 100, 'b.md': 300 };
+		const notes = [noteWith('never'), noteWith('a'), noteWith('b'), noteWith('also never')];
+		const getLastOpened = (path: string) => opened[path];
+		assert.deepEqual(sortNames(notes, { field: 'last-opened', direction: 'desc' }, { getLastOpened }), ['b', 'a', 'also never', 'never']);
+		assert.deepEqual(sortNames(notes, { field: 'last-opened', direction: 'asc' }, { getLastOpened }), ['a', 'b', 'also never', 'never']);
+	});
+
+	test('sorts by first tag alphabetically, untagged notes last', () => {
+		const notes = [noteWith('none'), noteWith('work', { tags: ['#work', '#alpha'] }), noteWith('home', { tags: ['#home'] })];
+		assert.deepEqual(sortNames(notes, { field: 'tag', direction: 'asc' }), ['work', 'home', 'none']);
+		assert.deepEqual(sortNames(notes, { field: 'tag', direction: 'desc' }), ['home', 'work', 'none']);
+	});
+
+	test('sorts by color in palette order, uncolored notes last', () => {
+		const notes = [noteWith('plain'), noteWith('blue', { color: 'var(--pastel-blue)' }), noteWith('yellow', { color: 'var(--pastel-yellow)' })];
+		assert.deepEqual(sortNames(notes, { field: 'color', direction: 'asc' }), ['yellow', 'blue', 'plain']);
+	});
+
+	test('falls back to the title for ties', () => {
+		const notes = [noteWith('b', { size: 10 }), noteWith('a', { size: 10 }), noteWith('c', { size: 20 })];
+		assert.deepEqual(sortNames(notes, { field: 'size', direction: 'desc' }), ['c', 'a', 'b']);
+	});
+});
+
+describe('describeSortOrder', () => {
+	test('names the field and direction, ignoring the direction of manual order', () => {
+		assert.equal(describeSortOrder({ field: 'modified', direction: 'desc' }), 'Modified (newest first)');
+		assert.equal(describeSortOrder({ field: 'manual', direction: 'desc' }), 'Manual order');
+	});
+});
+
+describe('moveInManualOrder', () => {
+	test('moves a note before its target when dragged up and after it when dragged down', () => {
+		const order = ['a', 'b', 'c', 'd'];
+		assert.deepEqual(moveInManualOrder(order, order, 'd', 'b'), ['a', 'd', 'b', 'c']);
+		assert.deepEqual(moveInManualOrder(order, order, 'a', 'c'), ['b', 'c', 'a', 'd']);
+	});
+
+	test('keeps the positions of notes the view hides', () => {
+		// x and y are filtered out of the view
+		const stored = ['a', 'x', 'b', 'y', 'c'];
+		assert.deepEqual(moveInManualOrder(stored, ['a', 'b', 'c'], 'c', 'a'), ['c', 'a', 'x', 'b', 'y']);
+		assert.deepEqual(moveInManualOrder(stored, ['a', 'b', 'c'], 'a', 'b'), ['x', 'b', 'a', 'y', 'c']);
+	});
+
+	test('starts from the order the view shows and adds notes without a position at the end', () => {
+		// The view is sorted differently and shows d, which has no position yet
+		const stored = ['a', 'x', 'b', 'c'];
+		assert.deepEqual(moveInManualOrder(stored, ['c', 'd', 'b', 'a'], 'a', 'd'), ['c', 'x', 'a', 'd', 'b']);
+	});
+
+	test('leaves the order alone when the target is not in it', () => {
+		assert.deepEqual(moveInManualOrder(['a', 'b'], ['a', 'b'], 'a', 'z'), ['a', 'b']);
+	});
+});
@@ -0,0 +1,133 @@
+import type { IndexedNote } from '../services/note-index';
+import type { SortField, SortOrder } from '../types';
+import { PASTEL_COLORS } from '../constants';
+
+// Sort fields offered in pickers, with how each direction reads and the direction picked first
+export const SORT_FIELD_OPTIONS: { field: SortField; label: string; asc: string; desc: string; defaultDirection: SortOrder['direction'] }[] = [
+	{ field: 'manual', label: 'Manual order', asc: '', desc: '', defaultDirection: 'asc' },
+	{ field: 'modified', label: 'Modified', asc: 'oldest first', desc: 'newest first', defaultDirection: 'desc' },
+	{ field: 'created', label: 'Created', asc: 'oldest first', desc: 'newest first', defaultDirection: 'desc' },
+	{ field: 'title', label: 'Title', asc: 'A to Z', desc: 'Z to A', defaultDirection: 'asc' },
+	{ field: 'size', label: 'Size', asc: 'smallest first', desc: 'largest first', defaultDirection: 'desc' },
+	{ field: 'tag', label: 'Tag', asc: 'A to Z', desc: 'Z to A', defaultDirection: 'asc' },
+	{ field: 'color', label: 'Color', asc: 'palette order', desc: 'reverse palette order', defaultDirection: 'asc' },
+	{ field: 'last-opened', label: 'Last opened', asc: 'longest ago first', desc: 'most recent first', defaultDirection: 'desc' }
+];
+
+// Sort orders offered in pickers, in display order: manual, then each field in its default direction first
+export const SORT_ORDER_OPTIONS: { label: string; order: SortOrder }[] = SORT_FIELD_OPTIONS.flatMap(option => {
+	if (option.field === 'manual') {
+		return [{ label: option.label, order: { field: option.field, direction: option.defaultDirection } }];
+	}
+	const directions: SortOrder['direction'][] = option.defaultDirection === 'asc' ? ['asc', 'desc'] : ['desc', 'asc'];
+	return directions.map(direction => ({
+		label: `${option.label} (${option[direction]})`,
+		order: { field: option.field, direction }
+	}));
+});
+
+// Natural sort, so "Note 2" comes before "Note 10"
+const titleCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+// Plugin state the comparators need beyond the index
+export interface NoteSortContext {
+	getOrderIndex: (path: string) => number;
+	getLastOpened: (path: string) => number | undefined;
+}
+
+export function isSameSortOrder(a: SortOrder, b: SortOrder): boolean {
+	return a.field === b.field && (a.field === 'manual' || a.direction === b.direction);
+}
+
+export function describeSortOrder(order: SortOrder): string {
+	return SORT_ORDER_OPTIONS.find(option => isSameSortOrder(option.order, order))?.label ?? 'Manual order';
+}
+
+// Position of a note's color in the palette; uncolored notes get none
+function colorRank(note: IndexedNote): number | null {
+	if (!note.color) return null;
+	const index = PASTEL_COLORS.findIndex(option => option.color === note.color);
+	return index === -1 ? PASTEL_COLORS.length : index;
+}
+
+// Alphabetically first tag of a note, which decides its place when sorting by tag
+function firstTag(note: IndexedNote): string | null {
+	return note.tags.length > 0 ? note.tags.reduce((first, tag) => titleCollator.compare(tag, first) < 0 ? tag : first) : null;
+}
+
+/**
+ * Compare by a key in the given direction. Notes without a key (untagged, uncolored, never opened)
+ * always go last, and ties fall back to the title.
+ */
+function compareByKey<T>(getKey: (note: IndexedNote) => T | null | undefined, compare: (a: T, b: T) => number, sign: number) {
+	return (a: IndexedNote, b: IndexedNote): number => {
+		const aKey = getKey(a);
+		const bKey = getKey(b);
+		if (aKey === null || aKey === undefined) {
+			if (bKey !== null && bKey !== undefined) return 1;
+		} else if (bKey === null || bKey === undefined) {
+			return -1;
+		} else {
+			const result = compare(aKey, bKey);
+			if (result !== 0) return sign * result;
+		}
+		return titleCollator.compare(a.file.basename, b.file.basename);
+	};
+}
+
+/**
+ * Compare notes by a sort order. Manual order puts notes with a position in `noteOrder` first,
+ * then the rest newest first, as the views always did.
+ */
+export function createNoteComparator(order: SortOrder, context: NoteSortContext): (a: IndexedNote, b: IndexedNote) => number {
+	const sign = order.direction === 'asc' ? 1 : -1;
+	const byNumber = (a: number, b: number) => a - b;
+	switch (order.field) {
+		case 'manual':
+			return (a, b) => {
+				const aOrder = context.getOrderIndex(a.file.path);
+				const bOrder = context.getOrderIndex(b.file.path);
+
+				if (aOrder > -1 && bOrder > -1) return aOrder - bOrder;
+				if (aOrder > -1) return -1;
+				if (bOrder > -1) return 1;
+				return b.file.stat.mtime - a.file.stat.mtime;
+			};
+		case 'modified':
+			return (a, b) => sign * (a.file.stat.mtime - b.file.stat.mtime);
+		case 'created':
+			return (a, b) => sign * (a.file.stat.ctime - b.file.stat.ctime);
+		case 'title':
+			return (a, b) => sign * titleCollator.compare(a.file.basename, b.file.basename);
+		case 'size':
+			return compareByKey(note => note.file.stat.size, byNumber, sign);
+		case 'tag':
+			return compareByKey(firstTag, (a, b) => titleCollator.compare(a, b), sign);
+		case 'color':
+			return compareByKey(colorRank, byNumber, sign);
+		case 'last-opened':
+			return compareByKey(note => context.getLastOpened(note.file.path), byNumber, sign);
+	}
+}
+
+/**
+ * The full manual order after dragging `path` onto `target` in a view showing `shown`. The shown
+ * notes first take the slots they hold in `stored`, in the order they are shown (notes without a
+ * position are added at the end), so the manual order starts from what the view shows. Then only
+ * the dragged note moves: before the target when dragged up, after it when dragged down. Notes
+ * the view doesn't show, e.g. because of a filter, keep their positions.
+ */
+export function moveInManualOrder(stored: string[], shown: string[], path: string, target: string): string[] {
+	const shownPaths = new Set(shown);
+	const storedPaths = new Set(stored);
+	let next = 0;
+	const order = [...stored, ...shown.filter(shownPath => !storedPaths.has(shownPath))]
+		.map(orderPath => shownPaths.has(orderPath) ? shown[next++]! : orderPath);
+
+	const draggedUp = shown.indexOf(path) > shown.indexOf(target);
+	const result = order.filter(orderPath => orderPath !== path);
+	const targetIndex = result.indexOf(target);
+	if (targetIndex === -1) return order;
+	result.splice(draggedUp ? targetIndex : targetIndex + 1, 0, path);
+	return result;
+}
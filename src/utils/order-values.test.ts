@@ -0,0 +1,50 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { assignOrderValues, getListedOrderValue } from './order-values';
+
+describe('assignOrderValues', () => {
+	test('numbers notes without positions from 1', () => {
+		assert.deepEqual(assignOrderValues([null, null, null]), [1, 2, 3]);
+	});
+
+	test('keeps values that already increase', () => {
+		assert.deepEqual(assignOrderValues([1, 2, 3]), [1, 2, 3]);
+		assert.deepEqual(assignOrderValues([10, 20, 30]), [10, 20, 30]);
+	});
+
+	test('changes only the moved note', () => {
+		// The third note was dragged to the front
+		assert.deepEqual(assignOrderValues([3, 1, 2, 4]), [0.5, 1, 2, 4]);
+		// The first note was dragged between the third and the fourth
+		assert.deepEqual(assignOrderValues([2, 3, 1, 4]), [2, 3, 3.5, 4]);
+	});
+
+	test('places new notes between their neighbours, or after the last one', () => {
+		assert.deepEqual(assignOrderValues([1, null, null, 4]), [1, 2, 3, 4]);
+		assert.deepEqual(assignOrderValues([1, null, 2]), [1, 1.5, 2]);
+		assert.deepEqual(assignOrderValues([2.5, null, null]), [2.5, 3, 4]);
+	});
+
+	test('treats values that are not positive as missing', () => {
+		assert.deepEqual(assignOrderValues([0, -2, 5]), [1.666667, 3.333333, 5]);
+	});
+
+	test('numbers everything again when there is no room left in between', () => {
+		assert.deepEqual(assignOrderValues([1, null, 1.000001]), [1, 2, 3]);
+	});
+});
+
+describe('getListedOrderValue', () => {
+	const values: Record<string, number> = { a: 1, c: 3 };
+	const valueOf = (path: string) => values[path] ?? null;
+
+	test('interpolates between the nearest entries with a value', () => {
+		assert.equal(getListedOrderValue(['a', 'b', 'c'], 1, valueOf), 2);
+		assert.equal(getListedOrderValue(['x', 'a'], 0, valueOf), 0.5);
+	});
+
+	test('counts on from the last value at the end of the list', () => {
+		assert.equal(getListedOrderValue(['a', 'c', 'x', 'y'], 3, valueOf), 5);
+		assert.equal(getListedOrderValue(['x', 'y'], 1, valueOf), 2);
+	});
+});
@@ -0,0 +1,70 @@
+// Decimals kept when a note is placed between two others
+const ORDER_PRECISION = 6;
+
+// Indices of the longest strictly increasing run of values, skipping missing ones
+function findLongestIncreasing(values: (number | null)[]): Set<number> {
+	// tails[k]: index of the smallest value ending an increasing run of length k + 1
+	const tails: number[] = [];
+	const previous = new Array<number>(values.length).fill(-1);
+	values.forEach((value, i) => {
+		if (value === null) return;
+		let low = 0;
+		let high = tails.length;
+		while (low < high) {
+			const mid = (low + high) >> 1;
+			if (values[tails[mid]!]! < value) low = mid + 1;
+			else high = mid;
+		}
+		if (low > 0) previous[i] = tails[low - 1]!;
+		tails[low] = i;
+	});
+
+	const run = new Set<number>();
+	for (let i = tails.length > 0 ? tails[tails.length - 1]! : -1; i > -1; i = previous[i]!) {
+		run.add(i);
+	}
+	return run;
+}
+
+/**
+ * Order values for the given current values (null for none) that increase in list order while
+ * keeping as many current values as possible. Positions start at 1; notes placed between two
+ * others get a value between theirs. Returns values 1..n when there is no room left in between.
+ */
+export function assignOrderValues(current: (number | null)[]): number[] {
+	const kept = findLongestIncreasing(current.map(value => value !== null && value > 0 ? value : null));
+	const values = current.map((value, i) => kept.has(i) ? value! : 0);
+
+	let i = 0;
+	while (i < values.length) {
+		if (kept.has(i)) {
+			i++;
+			continue;
+		}
+		let end = i;
+		while (end < values.length && !kept.has(end)) end++;
+		const low = i > 0 ? values[i - 1]! : 0;
+		const high = end < values.length ? values[end]! : null;
+		const count = end - i;
+		for (let j = 1; j <= count; j++) {
+			values[i + j - 1] = high === null ? Math.floor(low) + j : Number((low + (high - low) * j / (count + 1)).toFixed(ORDER_PRECISION));
+		}
+		i = end;
+	}
+
+	const increasing = values.every((value, index) => value > (index > 0 ? values[index - 1]! : 0));
+	return increasing ? values : values.map((_, index) => index + 1);
+}
+
+// Order value for the entry at `index` of a list of paths, between the values of the nearest entries that have one
+export function getListedOrderValue(list: string[], index: number, valueOf: (path: string) => number | null): number {
+	const valueAt = (i: number) => valueOf(list[i]!);
+	let before = index - 1;
+	while (before > -1 && valueAt(before) === null) before--;
+	let after = index + 1;
+	while (after < list.length && valueAt(after) === null) after++;
+
+	const low = before > -1 ? valueAt(before)! : 0;
+	if (after === list.length) return low + index - before;
+	return low + (valueAt(after)! - low) * (index - before) / (after - before);
+}
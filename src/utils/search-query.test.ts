@@ -0,0 +1,227 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { TFile } from 'obsidian';
+import type { IndexedNote } from '../services/note-index';
+import { findTermRanges, matchesSearchQuery, parseSearchQuery, SearchContext } from './search-query';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface NoteFields {
+	path?: string;
+	text?: string;
+	tags?: string[];
+	color?: string | null;
+	mtime?: number;
+	ctime?: number;
+}
+
+function noteWith({ path = 'Notes/note.md', text = '', tags = [], color = null, mtime = 0, ctime = 0 }: NoteFields): IndexedNote {
+	const name = path.slice(path.lastIndexOf('/') + 1);
+	const folder = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '/';
+	return {
+		file: {
+			path,
+			name,
+			basename: name.replace(/\.[^.]+$/, ''),
+			extension: name.slice(name.lastIndexOf('.') + 1),
+			stat: { ctime, mtime, size: text.length }
+		} as TFile,
+		folder,
+		tags,
+		headings: [],
+		body: text,
+		text,
+		sizeClass: 'card-small',
+		color,
+		createdProperty: null
+	};
+}
+
+const context: SearchContext = { isPinned: path => path === 'Notes/pinned.md' };
+
+function matches(query: string, note: IndexedNote): boolean {
+	return matchesSearchQuery(note, parseSearchQuery(query), context);
+}
+
+describe('parseSearchQuery', () => {
+	test('combines words with AND and keeps them for highlighting', () => {
+		const query = parseSearchQuery('Meeting notes');
+		assert.deepEqual(query.root, {
+			type: 'and',
+			children: [
+				{ type: 'term', term: { kind: 'text', value: 'meeting' } },
+				{ type: 'term', term: { kind: 'text', value: 'notes' } }
+			]
+		});
+		assert.deepEqual(query.highlights, ['meeting', 'notes']);
+	});
+
+	test('treats OR and | as alternatives that bind looser than AND', () => {
+		const expected = {
+			type: 'or',
+			children: [
+				{ type: 'and', children: [{ type: 'term', term: { kind: 'text', value: 'a' } }, { type: 'term', term: { kind: 'text', value: 'b' } }] },
+				{ type: 'term', term: { kind: 'text', value: 'c' } }
+			]
+		};
+		assert.deepEqual(parseSearchQuery('a b OR c').root, expected);
+		assert.deepEqual(parseSearchQuery('a b | c').root, expected);
+	});
+
+	test('reads a lowercase or quoted "or" as a word', () => {
+		assert.deepEqual(parseSearchQuery('a or b').highlights, ['a', 'or', 'b']);
+		assert.deepEqual(parseSearchQuery('a "OR" b').highlights, ['a', 'or', 'b']);
+	});
+
+	test('groups with parentheses', () => {
+		assert.deepEqual(parseSearchQuery('a (b | c)').root, {
+			type: 'and',
+			children: [
+				{ type: 'term', term: { kind: 'text', value: 'a' } },
+				{ type: 'or', children: [{ type: 'term', term: { kind: 'text', value: 'b' } }, { type: 'term', term: { kind: 'text', value: 'c' } }] }
+			]
+		});
+	});
+
+	test('negates terms and groups with a leading -, without highlighting them', () => {
+		const query = parseSearchQuery('a -b -(c d)');
+		assert.deepEqual(query.root, {
+			type: 'and',
+			children: [
+				{ type: 'term', term: { kind: 'text', value: 'a' } },
+				{ type: 'not', child: { type: 'term', term: { kind: 'text', value: 'b' } } },
+				{ type: 'not', child: { type: 'and', children: [{ type: 'term', term: { kind: 'text', value: 'c' } }, { type: 'term', term: { kind: 'text', value: 'd' } }] } }
+			]
+		});
+		assert.deepEqual(query.highlights, ['a']);
+	});
+
+	test('reads a - that negates nothing as text', () => {
+		assert.deepEqual(parseSearchQuery('well-known').highlights, ['well-known']);
+		assert.deepEqual(parseSearchQuery('a - b').highlights, ['a', '-', 'b']);
+		assert.deepEqual(parseSearchQuery('a -').highlights, ['a', '-']);
+	});
+
+	test('reads quoted phrases, including an unclosed quote up to the end', () => {
+		assert.deepEqual(parseSearchQuery('"team meeting" notes').highlights, ['team meeting', 'notes']);
+		assert.deepEqual(parseSearchQuery('notes "team meet').highlights, ['notes', 'team meet']);
+		assert.deepEqual(parseSearchQuery('tag:"my tag"').root, { type: 'term', term: { kind: 'tag', value: '#my tag' } });
+	});
+
+	test('skips a stray closing parenthesis and closes an open group at the end', () => {
+		assert.deepEqual(parseSearchQuery('a ) b').highlights, ['a', 'b']);
+		assert.deepEqual(parseSearchQuery('(a | b').root, {
+			type: 'or',
+			children: [{ type: 'term', term: { kind: 'text', value: 'a' } }, { type: 'term', term: { kind: 'text', value: 'b' } }]
+		});
+	});
+
+	test('normalizes filter values', () => {
+		assert.deepEqual(parseSearchQuery('tag:Work').root, { type: 'term', term: { kind: 'tag', value: '#work' } });
+		assert.deepEqual(parseSearchQuery('folder:/Projects/').root, { type: 'term', term: { kind: 'folder', value: 'projects' } });
+		assert.deepEqual(parseSearchQuery('ext:.PDF').root, { type: 'term', term: { kind: 'ext', value: 'pdf' } });
+		assert.deepEqual(parseSearchQuery('color:Yellow').root, { type: 'term', term: { kind: 'color', value: 'var(--pastel-yellow)' } });
+		assert.deepEqual(parseSearchQuery('color:none').root, { type: 'term', term: { kind: 'color', value: null } });
+	});
+
+	test('ignores incomplete and unknown filter values', () => {
+		for (const query of ['tag:', 'color:neon', 'is:archived', 'modified:>', 'created:yesterday', 'modified:2026-13-45x']) {
+			assert.equal(parseSearchQuery(query).root, null, query);
+		}
+		assert.deepEqual(parseSearchQuery('tag: notes').root, { type: 'term', term: { kind: 'text', value: 'notes' } });
+	});
+
+	test('reads unknown keys and quoted filters as text', () => {
+		assert.deepEqual(parseSearchQuery('todo:today').root, { type: 'term', term: { kind: 'text', value: 'todo:today' } });
+		assert.deepEqual(parseSearchQuery('"tag:work"').root, { type: 'term', term: { kind: 'text', value: 'tag:work' } });
+	});
+
+	test('reads relative and absolute dates', () => {
+		assert.deepEqual(parseSearchQuery('created:<7d').root, {
+			type: 'term',
+			term: { kind: 'date', field: 'ctime', comparison: '<', relative: true, value: 7 * DAY_MS }
+		});
+		assert.deepEqual(parseSearchQuery('modified:>=2026-01-02').root, {
+			type: 'term',
+			term: { kind: 'date', field: 'mtime', comparison: '>=', relative: false, value: new Date(2026, 0, 2).getTime() }
+		});
+		assert.deepEqual(parseSearchQuery('modified:today').root, {
+			type: 'term',
+			term: { kind: 'date', field: 'mtime', comparison: '=', relative: false, value: new Date().setHours(0, 0, 0, 0) }
+		});
+	});
+
+	test('returns no root for an empty query', () => {
+		assert.deepEqual(parseSearchQuery('  ( ) '), { root: null, highlights: [] });
+	});
+});
+
+describe('matchesSearchQuery', () => {
+	test('matches everything for an empty query', () => {
+		assert.equal(matches('', noteWith({})), true);
+	});
+
+	test('matches words in the name or the text, ignoring case', () => {
+		const note = noteWith({ path: 'Notes/Groceries.md', text: 'Buy Milk' });
+		assert.equal(matches('groceries milk', note), true);
+		assert.equal(matches('groceries bread', note), false);
+		assert.equal(matches('bread OR milk', note), true);
+		assert.equal(matches('-milk', note), false);
+		assert.equal(matches('-(bread | eggs)', note), true);
+	});
+
+	test('uses the context to match text when given', () => {
+		const fuzzy: SearchContext = { ...context, matchText: (_note, value) => value === 'mlk' };
+		assert.equal(matchesSearchQuery(noteWith({ text: 'milk' }), parseSearchQuery('mlk'), fuzzy), true);
+	});
+
+	test('matches tags including nested ones', () => {
+		const note = noteWith({ tags: ['#Work/Meetings'] });
+		assert.equal(matches('tag:work', note), true);
+		assert.equal(matches('tag:work/meetings', note), true);
+		assert.equal(matches('tag:meetings', note), false);
+	});
+
+	test('matches folders and their subfolders, and extensions', () => {
+		const note = noteWith({ path: 'Projects/Site/plan.pdf' });
+		assert.equal(matches('folder:projects', note), true);
+		assert.equal(matches('folder:proj', note), false);
+		assert.equal(matches('ext:pdf', note), true);
+		assert.equal(matches('ext:md', note), false);
+	});
+
+	test('matches colors and note state', () => {
+		const yellow = noteWith({ color: 'var(--pastel-yellow)' });
+		const plain = noteWith({ path: 'Notes/pinned.md' });
+		assert.equal(matches('color:yellow', yellow), true);
+		assert.equal(matches('color:none', yellow), false);
+		assert.equal(matches('color:none', plain), true);
+		assert.equal(matches('is:colored', yellow), true);
+		assert.equal(matches('is:pinned', plain), true);
+		assert.equal(matches('is:unpinned', plain), false);
+	});
+
+	test('compares absolute dates by whole days', () => {
+		const newYear = noteWith({ mtime: new Date(2026, 0, 1, 12).getTime() });
+		assert.equal(matches('modified:2026-01-01', newYear), true);
+		assert.equal(matches('modified:>2026-01-01', newYear), false);
+		assert.equal(matches('modified:<=2026-01-01', newYear), true);
+		assert.equal(matches('modified:<2026-01-01', newYear), false);
+		assert.equal(matches('modified:>=2026-01-01', newYear), true);
+	});
+
+	test('compares relative dates by age', () => {
+		const recent = noteWith({ ctime: Date.now() - DAY_MS });
+		const old = noteWith({ ctime: Date.now() - 10 * DAY_MS });
+		assert.equal(matches('created:<7d', recent), true);
+		assert.equal(matches('created:<7d', old), false);
+		assert.equal(matches('created:>1w', old), true);
+		assert.equal(matches('created:2d', recent), true);
+	});
+});
+
+describe('findTermRanges', () => {
+	test('finds every occurrence of every term, ignoring case', () => {
+		assert.deepEqual(findTermRanges('Milk and more milk', ['milk', '', 'and']), [[0, 4], [14, 18], [5, 8]]);
+	});
+});
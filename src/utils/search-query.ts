@@ -0,0 +1,327 @@
+import type { IndexedNote } from '../services/note-index';
+import type { MatchRange } from './fuzzy-search';
+import { colorFromName } from './colors';
+import { isFileInFolderOrSubfolder, tagMatchesFilter } from './markdown';
+
+/**
+ * Search query syntax shared by the dashboard and sidebar search boxes.
+ *
+ * Words and "quoted phrases" match the note name and text. Filters:
+ * `tag:#work`, `folder:Projects`, `color:yellow` (or `color:none`), `is:pinned`, `is:unpinned`,
+ * `is:colored`, `ext:pdf`, `modified:>2026-01-01`, `created:<7d`.
+ * Terms are combined with AND; `OR` (or `|`) separates alternatives, parentheses group them,
+ * and a leading `-` negates a term or group.
+ */
+
+export const SEARCH_FILTER_KEYS = ['tag', 'folder', 'color', 'is', 'ext', 'modified', 'created'] as const;
+export type SearchFilterKey = typeof SEARCH_FILTER_KEYS[number];
+
+export const SEARCH_IS_VALUES = ['pinned', 'unpinned', 'colored'] as const;
+
+type DateComparison = '<' | '>' | '<=' | '>=' | '=';
+
+export type SearchTerm =
+	| { kind: 'text'; value: string }
+	| { kind: 'tag' | 'folder' | 'ext'; value: string }
+	| { kind: 'color'; value: string | null }
+	| { kind: 'is'; value: typeof SEARCH_IS_VALUES[number] }
+	| { kind: 'date'; field: 'mtime' | 'ctime'; comparison: DateComparison; relative: boolean; value: number };
+
+export type SearchNode =
+	| { type: 'and' | 'or'; children: SearchNode[] }
+	| { type: 'not'; child: SearchNode }
+	| { type: 'term'; term: SearchTerm };
+
+export interface ParsedSearchQuery {
+	// Null when the query is empty (or only has incomplete filters), i.e. everything matches
+	root: SearchNode | null;
+	// Positive words and phrases, for highlighting matches
+	highlights: string[];
+}
+
+// Checks note state the index doesn't carry
+export interface SearchContext {
+	isPinned: (path: string) => boolean;
+	// Replaces the plain substring check for words and phrases (used by fuzzy search)
+	matchText?: (note: IndexedNote, value: string) => boolean;
+}
+
+type Token =
+	| { type: 'open' | 'close' | 'or' | 'not' }
+	| { type: 'word'; text: string; quoted: boolean };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELATIVE_UNITS_MS: Record<string, number> = {
+	h: 60 * 60 * 1000,
+	d: DAY_MS,
+	w: 7 * DAY_MS,
+	m: 30 * DAY_MS,
+	y: 365 * DAY_MS
+};
+
+function tokenize(input: string): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+
+	while (i < input.length) {
+		const char = input[i]!;
+		if (/\s/.test(char)) {
+			i++;
+		} else if (char === '(') {
+			tokens.push({ type: 'open' });
+			i++;
+		} else if (char === ')') {
+			tokens.push({ type: 'close' });
+			i++;
+		} else if (char === '|') {
+			tokens.push({ type: 'or' });
+			i++;
+		} else if (char === '-' && i + 1 < input.length && !/[\s)]/.test(input[i + 1]!)) {
+			tokens.push({ type: 'not' });
+			i++;
+		} else {
+			// A word runs to the next space or parenthesis; quotes may wrap spaces (`tag:"a b"` or `"a phrase"`)
+			let text = '';
+			const quoted = char === '"';
+			while (i < input.length && !/[\s()]/.test(input[i]!)) {
+				if (input[i] === '"') {
+					const end = input.indexOf('"', i + 1);
+					const stop = end === -1 ? input.length : end;
+					text += input.slice(i + 1, stop);
+					i = stop + 1;
+				} else {
+					text += input[i];
+					i++;
+				}
+			}
+			if (!quoted && text === 'OR') {
+				tokens.push({ type: 'or' });
+			} else if (text) {
+				tokens.push({ type: 'word', text, quoted });
+			}
+		}
+	}
+
+	return tokens;
+}
+
+function parseDateValue(field: 'mtime' | 'ctime', raw: string): SearchTerm | null {
+	const match = raw.match(/^(<=|>=|<|>|=)?(.+)$/);
+	if (!match || !match[2]) return null;
+	const comparison = (match[1] ?? '=') as DateComparison;
+	const value = match[2].toLowerCase();
+
+	if (value === 'today') {
+		return { kind: 'date', field, comparison, relative: false, value: new Date().setHours(0, 0, 0, 0) };
+	}
+
+	const relative = value.match(/^(\d+)([hdwmy])$/);
+	if (relative && relative[1] && relative[2]) {
+		const unit = RELATIVE_UNITS_MS[relative[2]]!;
+		return { kind: 'date', field, comparison, relative: true, value: parseInt(relative[1]) * unit };
+	}
+
+	// Absolute dates are taken as the start of that day in local time
+	const absolute = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+	if (absolute) {
+		const date = new Date(Number(absolute[1]), Number(absolute[2]) - 1, Number(absolute[3]));
+		if (!isNaN(date.getTime())) {
+			return { kind: 'date', field, comparison, relative: false, value: date.getTime() };
+		}
+	}
+	return null;
+}
+
+// Turn a word into a term; filters with missing or unknown values are ignored (null)
+function parseWord(text: string, quoted: boolean): SearchTerm | null {
+	const separator = text.indexOf(':');
+	const key = separator > 0 ? text.slice(0, separator).toLowerCase() : '';
+	if (quoted || !(SEARCH_FILTER_KEYS as readonly string[]).includes(key)) {
+		return { kind: 'text', value: text.toLowerCase() };
+	}
+
+	const value = text.slice(separator + 1).trim();
+	if (!value) return null;
+
+	switch (key as SearchFilterKey) {
+		case 'tag':
+			return { kind: 'tag', value: '#' + value.replace(/^#/, '').toLowerCase() };
+		case 'folder':
+			return { kind: 'folder', value: value.replace(/^\/+|\/+$/g, '').toLowerCase() };
+		case 'ext':
+			return { kind: 'ext', value: value.replace(/^\./, '').toLowerCase() };
+		case 'color': {
+			if (value.toLowerCase() === 'none') return { kind: 'color', value: null };
+			const color = colorFromName(value);
+			return color ? { kind: 'color', value: color } : null;
+		}
+		case 'is': {
+			const state = SEARCH_IS_VALUES.find(option => option === value.toLowerCase());
+			return state ? { kind: 'is', value: state } : null;
+		}
+		case 'modified':
+			return parseDateValue('mtime', value);
+		case 'created':
+			return parseDateValue('ctime', value);
+	}
+}
+
+// Recursive descent over: or := and (OR and)* ; and := unary+ ; unary := -unary | ( or ) | word
+class QueryParser {
+	private tokens: Token[];
+	private position = 0;
+	highlights: string[] = [];
+
+	constructor(tokens: Token[]) {
+		this.tokens = tokens;
+	}
+
+	parse(): SearchNode | null {
+		const nodes: (SearchNode | null)[] = [];
+		while (this.position < this.tokens.length) {
+			nodes.push(this.parseOr(false));
+			// Skip a stray closing parenthesis
+			if (this.peek()?.type === 'close') this.position++;
+		}
+		return combine('and', nodes);
+	}
+
+	private peek(): Token | undefined {
+		return this.tokens[this.position];
+	}
+
+	private parseOr(negated: boolean): SearchNode | null {
+		const alternatives = [this.parseAnd(negated)];
+		while (this.peek()?.type === 'or') {
+			this.position++;
+			alternatives.push(this.parseAnd(negated));
+		}
+		return combine('or', alternatives);
+	}
+
+	private parseAnd(negated: boolean): SearchNode | null {
+		const nodes: (SearchNode | null)[] = [];
+		let token = this.peek();
+		while (token && token.type !== 'or' && token.type !== 'close') {
+			nodes.push(this.parseUnary(negated));
+			token = this.peek();
+		}
+		return combine('and', nodes);
+	}
+
+	private parseUnary(negated: boolean): SearchNode | null {
+		const token = this.tokens[this.position++]!;
+
+		if (token.type === 'not') {
+			const next = this.peek();
+			if (!next || next.type === 'or' || next.type === 'close') return null;
+			const child = this.parseUnary(!negated);
+			return child ? { type: 'not', child } : null;
+		}
+
+		if (token.type === 'open') {
+			const group = this.parseOr(negated);
+			if (this.peek()?.type === 'close') this.position++;
+			return group;
+		}
+
+		if (token.type === 'word') {
+			const term = parseWord(token.text, token.quoted);
+			if (term?.kind === 'text' && !negated) {
+				this.highlights.push(term.value);
+			}
+			return term ? { type: 'term', term } : null;
+		}
+
+		return null;
+	}
+}
+
+function combine(type: 'and' | 'or', nodes: (SearchNode | null)[]): SearchNode | null {
+	const children = nodes.filter((node): node is SearchNode => node !== null);
+	if (children.length === 0) return null;
+	if (children.length === 1) return children[0]!;
+	return { type, children };
+}
+
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+	const parser = new QueryParser(tokenize(input));
+	const root = parser.parse();
+	return { root, highlights: parser.highlights };
+}
+
+function matchesDate(note: IndexedNote, term: Extract<SearchTerm, { kind: 'date' }>): boolean {
+	const time = note.file.stat[term.field];
+
+	if (term.relative) {
+		// `created:<7d` means "less than 7 days old"
+		const age = Date.now() - time;
+		switch (term.comparison) {
+			case '<': return age < term.value;
+			case '<=': return age <= term.value;
+			case '>': return age > term.value;
+			case '>=': return age >= term.value;
+			case '=': return age >= term.value - DAY_MS && age < term.value;
+		}
+	}
+
+	// Absolute dates compare whole days: `>2026-01-01` starts on January 2nd
+	const dayEnd = term.value + DAY_MS;
+	switch (term.comparison) {
+		case '<': return time < term.value;
+		case '<=': return time < dayEnd;
+		case '>': return time >= dayEnd;
+		case '>=': return time >= term.value;
+		case '=': return time >= term.value && time < dayEnd;
+	}
+}
+
+function matchesTerm(note: IndexedNote, term: SearchTerm, context: SearchContext): boolean {
+	switch (term.kind) {
+		case 'text':
+			if (context.matchText) return context.matchText(note, term.value);
+			return `${note.file.basename} ${note.text}`.toLowerCase().includes(term.value);
+		case 'tag':
+			return note.tags.some(tag => tagMatchesFilter(tag.toLowerCase(), term.value));
+		case 'folder':
+			return isFileInFolderOrSubfolder(note.folder.toLowerCase(), term.value);
+		case 'ext':
+			return note.file.extension.toLowerCase() === term.value;
+		case 'color':
+			return term.value === null ? !note.color : note.color === term.value;
+		case 'is':
+			if (term.value === 'pinned') return context.isPinned(note.file.path);
+			if (term.value === 'unpinned') return !context.isPinned(note.file.path);
+			return !!note.color;
+		case 'date':
+			return matchesDate(note, term);
+	}
+}
+
+function matchesNode(note: IndexedNote, node: SearchNode, context: SearchContext): boolean {
+	switch (node.type) {
+		case 'and': return node.children.every(child => matchesNode(note, child, context));
+		case 'or': return node.children.some(child => matchesNode(note, child, context));
+		case 'not': return !matchesNode(note, node.child, context);
+		case 'term': return matchesTerm(note, node.term, context);
+	}
+}
+
+export function matchesSearchQuery(note: IndexedNote, query: ParsedSearchQuery, context: SearchContext): boolean {
+	return query.root === null || matchesNode(note, query.root, context);
+}
+
+// Every occurrence of the (lowercase) terms in the text, for highlighting exact matches
+export function findTermRanges(text: string, terms: string[]): MatchRange[] {
+	const lowerText = text.toLowerCase();
+	const ranges: MatchRange[] = [];
+	for (const term of terms) {
+		if (!term) continue;
+		let index = lowerText.indexOf(term);
+		while (index !== -1) {
+			ranges.push([index, index + term.length]);
+			index = lowerText.indexOf(term, index + term.length);
+		}
+	}
+	return ranges;
+}
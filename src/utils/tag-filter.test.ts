@@ -0,0 +1,62 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { TagFilter } from '../types';
+import { cycleTagState, getTagState, isSameTagFilter, isTagFilterActive, matchesTagFilter, setTagState } from './tag-filter';
+
+function filterWith(fields: Partial<TagFilter>): TagFilter {
+	return { include: [], exclude: [], mode: 'all', ...fields };
+}
+
+describe('matchesTagFilter', () => {
+	test('matches every note without included or excluded tags', () => {
+		assert.equal(isTagFilterActive(filterWith({})), false);
+		assert.equal(matchesTagFilter([], filterWith({})), true);
+	});
+
+	test('needs all included tags in all mode and one of them in any mode', () => {
+		const include = ['#work', '#urgent'];
+		assert.equal(matchesTagFilter(['#work'], filterWith({ include, mode: 'all' })), false);
+		assert.equal(matchesTagFilter(['#work', '#urgent'], filterWith({ include, mode: 'all' })), true);
+		assert.equal(matchesTagFilter(['#work'], filterWith({ include, mode: 'any' })), true);
+		assert.equal(matchesTagFilter(['#home'], filterWith({ include, mode: 'any' })), false);
+	});
+
+	test('rejects notes with an excluded tag, whatever they include', () => {
+		const filter = filterWith({ include: ['#work'], exclude: ['#done'], mode: 'any' });
+		assert.equal(matchesTagFilter(['#work', '#done'], filter), false);
+		assert.equal(matchesTagFilter(['#home'], filterWith({ exclude: ['#done'] })), true);
+	});
+
+	test('counts nested tags for their parents only', () => {
+		assert.equal(matchesTagFilter(['#work/meetings'], filterWith({ include: ['#work'] })), true);
+		assert.equal(matchesTagFilter(['#work/meetings'], filterWith({ exclude: ['#work'] })), false);
+		assert.equal(matchesTagFilter(['#work'], filterWith({ include: ['#work/meetings'] })), false);
+		assert.equal(matchesTagFilter(['#workshop'], filterWith({ include: ['#work'] })), false);
+	});
+});
+
+describe('tag states', () => {
+	test('setTagState moves a tag between include and exclude without touching the original', () => {
+		const filter = filterWith({ include: ['#a'], mode: 'any' });
+		const excluded = setTagState(filter, '#a', 'exclude');
+		assert.deepEqual(excluded, { include: [], exclude: ['#a'], mode: 'any' });
+		assert.equal(getTagState(excluded, '#a'), 'exclude');
+		assert.equal(getTagState(filter, '#a'), 'include');
+		assert.deepEqual(setTagState(excluded, '#a', null), { include: [], exclude: [], mode: 'any' });
+	});
+
+	test('cycleTagState steps through include, exclude and off', () => {
+		const included = cycleTagState(filterWith({}), '#a');
+		assert.equal(getTagState(included, '#a'), 'include');
+		const excluded = cycleTagState(included, '#a');
+		assert.equal(getTagState(excluded, '#a'), 'exclude');
+		assert.equal(getTagState(cycleTagState(excluded, '#a'), '#a'), null);
+	});
+
+	test('isSameTagFilter ignores tag order, and the mode unless several tags are included', () => {
+		assert.equal(isSameTagFilter(filterWith({ include: ['#a', '#b'] }), filterWith({ include: ['#b', '#a'] })), true);
+		assert.equal(isSameTagFilter(filterWith({ include: ['#a', '#b'] }), filterWith({ include: ['#a', '#b'], mode: 'any' })), false);
+		assert.equal(isSameTagFilter(filterWith({ include: ['#a'] }), filterWith({ include: ['#a'], mode: 'any' })), true);
+		assert.equal(isSameTagFilter(filterWith({ exclude: ['#a'] }), filterWith({ include: ['#a'] })), false);
+	});
+});
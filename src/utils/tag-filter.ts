@@ -0,0 +1,46 @@
+import type { TagFilter } from '../types';
+import { tagMatchesFilter } from './markdown';
+
+export type TagState = 'include' | 'exclude' | null;
+
+export function isTagFilterActive(filter: TagFilter): boolean {
+	return filter.include.length > 0 || filter.exclude.length > 0;
+}
+
+export function getTagState(filter: TagFilter, tag: string): TagState {
+	if (filter.include.includes(tag)) return 'include';
+	if (filter.exclude.includes(tag)) return 'exclude';
+	return null;
+}
+
+// A copy of the filter with the tag included, excluded or removed
+export function setTagState(filter: TagFilter, tag: string, state: TagState): TagFilter {
+	const include = filter.include.filter(t => t !== tag);
+	const exclude = filter.exclude.filter(t => t !== tag);
+	if (state === 'include') include.push(tag);
+	if (state === 'exclude') exclude.push(tag);
+	return { include, exclude, mode: filter.mode };
+}
+
+// Step through include, exclude and off, for controls with a single click target
+export function cycleTagState(filter: TagFilter, tag: string): TagFilter {
+	const next: Record<string, TagState> = { include: 'exclude', exclude: null, none: 'include' };
+	return setTagState(filter, tag, next[getTagState(filter, tag) ?? 'none'] ?? null);
+}
+
+export function isSameTagFilter(a: TagFilter, b: TagFilter): boolean {
+	const sameSet = (x: string[], y: string[]) => x.length === y.length && x.every(tag => y.includes(tag));
+	// The mode only matters once there is more than one tag to combine
+	return sameSet(a.include, b.include)
+		&& sameSet(a.exclude, b.exclude)
+		&& (a.include.length < 2 || a.mode === b.mode);
+}
+
+// Nested tags count: including or excluding #parent also covers #parent/child
+export function matchesTagFilter(noteTags: string[], filter: TagFilter): boolean {
+	const hasTag = (filterTag: string) => noteTags.some(tag => tagMatchesFilter(tag, filterTag));
+
+	if (filter.exclude.some(hasTag)) return false;
+	if (filter.include.length === 0) return true;
+	return filter.mode === 'all' ? filter.include.every(hasTag) : filter.include.some(hasTag);
+}
@@ -0,0 +1,65 @@
+import type { IndexedNote } from '../services/note-index';
+import type { DateField } from '../types';
+import { formatDay, getNoteDate, parseDay } from './date-filter';
+
+export interface NoteDay {
+	// YYYY-MM-DD
+	day: string;
+	notes: IndexedNote[];
+}
+
+// The day a note falls on, by the given date field
+export function getNoteDay(note: IndexedNote, field: DateField): string | null {
+	const time = getNoteDate(note, field);
+	return time === null ? null : formatDay(new Date(time));
+}
+
+/**
+ * Split notes by day, newest day first. Within a day notes keep their order.
+ */
+export function groupNotesByDay(notes: IndexedNote[], field: DateField): NoteDay[] {
+	const days = new Map<string, IndexedNote[]>();
+	for (const note of notes) {
+		const day = getNoteDay(note, field);
+		if (!day) continue;
+		const dayNotes = days.get(day);
+		if (dayNotes) {
+			dayNotes.push(note);
+		} else {
+			days.set(day, [note]);
+		}
+	}
+	return Array.from(days.keys())
+		.sort((a, b) => b.localeCompare(a))
+		.map(day => ({ day, notes: days.get(day)! }));
+}
+
+// "Today", "Yesterday", or e.g. "Sat, Mar 14, 2026"
+export function formatDayLabel(day: string, now = new Date()): string {
+	const today = formatDay(now);
+	const yesterday = formatDay(new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1));
+	if (day === today) return 'Today';
+	if (day === yesterday) return 'Yesterday';
+	const date = parseDay(day);
+	return date ? date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' }) : day;
+}
+
+/**
+ * The weeks shown for a month, Monday to Sunday, including the days of the
+ * previous and next months that fill the first and last week.
+ */
+export function getCalendarWeeks(month: Date): Date[][] {
+	const first = new Date(month.getFullYear(), month.getMonth(), 1);
+	const start = new Date(first.getFullYear(), first.getMonth(), 1 - (first.getDay() + 6) % 7);
+	const weeks: Date[][] = [];
+	let date = start;
+	do {
+		const week: Date[] = [];
+		for (let i = 0; i < 7; i++) {
+			week.push(date);
+			date = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+		}
+		weeks.push(week);
+	} while (date.getMonth() === first.getMonth());
+	return weeks;
+}
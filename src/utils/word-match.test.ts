@@ -0,0 +1,41 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { matchWords } from './word-match';
+
+describe('matchWords', () => {
+	test('matches words exactly or by prefix, ignoring case', () => {
+		assert.deepEqual(matchWords('Weekly Meeting notes', 'meet')?.ranges, [[7, 11]]);
+		assert.deepEqual(matchWords('Weekly Meeting notes', 'NOTES')?.ranges, [[15, 20]]);
+	});
+
+	test('needs every word of the term', () => {
+		assert.notEqual(matchWords('plan the garden', 'garden plan'), null);
+		assert.equal(matchWords('plan the garden', 'garden budget'), null);
+	});
+
+	test('allows no typos in short words, one in medium and two in long ones', () => {
+		assert.equal(matchWords('the cat sat', 'cut'), null);
+		assert.deepEqual(matchWords('a quick recipe', 'recpie')?.ranges, [[8, 14]]);
+		assert.equal(matchWords('a quick recipe', 'rcpie'), null);
+		assert.notEqual(matchWords('the documentation', 'dokumantation'), null);
+		assert.equal(matchWords('the documentation', 'dkumantaton'), null);
+	});
+
+	test('scores exact hits above typos and counts repeated hits up to a limit', () => {
+		const exact = matchWords('garden', 'garden')!.score;
+		const typo = matchWords('gardne', 'garden')!.score;
+		assert.ok(exact > typo);
+
+		const twice = matchWords('garden garden', 'garden')!.score;
+		assert.ok(twice > exact);
+		assert.equal(matchWords('garden '.repeat(5), 'garden')!.score, matchWords('garden '.repeat(20), 'garden')!.score);
+	});
+
+	test('averages the score over the words of the term', () => {
+		assert.equal(matchWords('garden plan', 'garden plan')!.score, matchWords('garden', 'garden')!.score);
+	});
+
+	test('returns null for a term without words', () => {
+		assert.equal(matchWords('anything', '!?'), null);
+	});
+});
@@ -0,0 +1,80 @@
+import type { MatchRange } from './fuzzy-search';
+
+// How much a body hit counts towards relevance, exact or with a typo
+const WORD_WEIGHT = 1;
+const TYPO_WORD_WEIGHT = 0.5;
+// Body hits beyond this many stop adding to the score, so long notes don't drown out titles
+const MAX_COUNTED_WORD_HITS = 5;
+
+// Letters outside ASCII are lumped together, since the target has no Unicode property escapes
+const WORD_PATTERN = /[0-9A-Za-zÀ-￿]+/g;
+
+// Allowed typos for a word of this length: none for short words, then one, then two
+function maxTypos(length: number): number {
+	if (length < 4) return 0;
+	return length < 8 ? 1 : 2;
+}
+
+// Edit distance with adjacent transpositions, giving up once it exceeds `limit`
+function editDistance(a: string, b: string, limit: number): number {
+	if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+	let previous2: number[] = [];
+	let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		let rowMin = i;
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			let value = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+			if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+				value = Math.min(value, previous2[j - 2]! + 1);
+			}
+			current.push(value);
+			rowMin = Math.min(rowMin, value);
+		}
+		if (rowMin > limit) return limit + 1;
+		previous2 = previous;
+		previous = current;
+	}
+	return previous[b.length]!;
+}
+
+/**
+ * Match the words of a search term in note text, word by word: exactly, by prefix, or within a
+ * small edit distance. Every word of the term has to appear; null when one doesn't.
+ */
+export function matchWords(text: string, term: string): { score: number; ranges: MatchRange[] } | null {
+	const queryWords = term.toLowerCase().match(WORD_PATTERN);
+	if (!queryWords) return null;
+
+	const lowerText = text.toLowerCase();
+	const ranges: MatchRange[] = [];
+	let score = 0;
+
+	for (const queryWord of queryWords) {
+		const limit = maxTypos(queryWord.length);
+		let exactHits = 0;
+		let typoHits = 0;
+
+		WORD_PATTERN.lastIndex = 0;
+		let found: RegExpExecArray | null;
+		while ((found = WORD_PATTERN.exec(lowerText)) !== null) {
+			const word = found[0];
+			if (word.startsWith(queryWord)) {
+				exactHits++;
+				ranges.push([found.index, found.index + queryWord.length]);
+			} else if (limit > 0 && editDistance(queryWord, word.slice(0, queryWord.length + limit), limit) <= limit) {
+				typoHits++;
+				ranges.push([found.index, found.index + word.length]);
+			}
+		}
+
+		if (exactHits === 0 && typoHits === 0) return null;
+		score += exactHits > 0
+			? WORD_WEIGHT * Math.min(exactHits, MAX_COUNTED_WORD_HITS) / MAX_COUNTED_WORD_HITS + WORD_WEIGHT
+			: TYPO_WORD_WEIGHT * Math.min(typoHits, MAX_COUNTED_WORD_HITS) / MAX_COUNTED_WORD_HITS + TYPO_WORD_WEIGHT;
+	}
+
+	return { score: score / queryWords.length, ranges };
+}
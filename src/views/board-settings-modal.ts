@@ -0,0 +1,145 @@
+import { App, Modal, Setting } from 'obsidian';
+import type VisualDashboardPlugin from '../main';
+import type { ThemeColor } from '../types';
+
+/**
+ * Edit a named board: name, title, source and excluded folders, and theme color.
+ * The default board is configured in the plugin settings instead.
+ */
+export class BoardSettingsModal extends Modal {
+	private plugin: VisualDashboardPlugin;
+	private boardId: string;
+	private onClosed: (() => void) | null;
+
+	constructor(app: App, plugin: VisualDashboardPlugin, boardId: string, onClosed?: () => void) {
+		super(app);
+		this.plugin = plugin;
+		this.boardId = boardId;
+		this.onClosed = onClosed ?? null;
+	}
+
+	onOpen() {
+		this.setTitle('Board settings');
+		this.render();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		// Name and title edits are saved without refreshing the views on every keystroke
+		this.app.workspace.trigger('mini-notes:settings-changed');
+		this.onClosed?.();
+	}
+
+	private render() {
+		const { contentEl } = this;
+		contentEl.empty();
+		const board = this.plugin.getBoard(this.boardId);
+
+		new Setting(contentEl)
+			.setName('Name')
+			.setDesc('Shown on the tab and in the board list')
+			.addText(text => text
+				.setValue(board.name)
+				.onChange(async (value) => {
+					await this.plugin.updateBoard(this.boardId, { name: value.trim() || 'Untitled board' }, false);
+				})
+			);
+
+		new Setting(contentEl)
+			.setName('View title')
+			.setDesc('Title shown at the top of the board')
+			.addText(text => text
+				.setValue(board.viewTitle)
+				.onChange(async (value) => {
+					await this.plugin.updateBoard(this.boardId, { viewTitle: value }, false);
+				})
+			);
+
+		this.renderFolderList(
+			'Source folders',
+			'Notes are collected from all of these folders ("/" for the whole vault)',
+			board.sourceFolders,
+			true,
+			async (folders) => {
+				await this.plugin.updateBoard(this.boardId, { sourceFolders: folders.length > 0 ? folders : ['/'] });
+			}
+		);
+
+		this.renderFolderList(
+			'Excluded folders',
+			'Notes in these folders will not appear on this board',
+			board.excludedFolders,
+			false,
+			async (folders) => {
+				await this.plugin.updateBoard(this.boardId, { excludedFolders: folders });
+			}
+		);
+
+		new Setting(contentEl)
+			.setName('Theme color')
+			.setDesc('Color for borders, pins, and accents')
+			.addDropdown(dropdown => {
+				dropdown.addOption('obsidian', 'Use Obsidian theme');
+				dropdown.addOption('black', 'Black');
+				dropdown.addOption('custom', 'Custom color');
+				dropdown.setValue(board.themeColor);
+				dropdown.onChange(async (value) => {
+					await this.plugin.updateBoard(this.boardId, { themeColor: value as ThemeColor });
+					this.render();
+				});
+			});
+
+		if (board.themeColor === 'custom') {
+			new Setting(contentEl)
+				.setName('Custom theme color')
+				.addColorPicker(colorPicker => colorPicker
+					.setValue(board.customThemeColor)
+					.onChange(async (value) => {
+						await this.plugin.updateBoard(this.boardId, { customThemeColor: value });
+					})
+				);
+		}
+	}
+
+	// A removable list of folders with a dropdown to add more
+	private renderFolderList(name: string, description: string, folders: string[], includeRoot: boolean, save: (folders: string[]) => Promise<void>) {
+		const { contentEl } = this;
+		new Setting(contentEl).setName(name).setDesc(description);
+
+		const listContainer = contentEl.createDiv({ cls: 'excluded-folders-list' });
+		if (folders.length === 0) {
+			listContainer.createDiv({ text: 'None', cls: 'setting-item-description' });
+		}
+		folders.forEach((folder, index) => {
+			const itemEl = listContainer.createDiv({ cls: 'excluded-folder-item' });
+			itemEl.createSpan({ text: folder });
+
+			const removeBtn = itemEl.createEl('button', { text: '×', cls: 'excluded-folder-remove' });
+			removeBtn.addEventListener('click', () => {
+				void save(folders.filter((_, i) => i !== index)).then(() => this.render());
+			});
+		});
+
+		new Setting(contentEl)
+			.addDropdown(dropdown => {
+				// Get all folders in vault
+				const available = this.app.vault.getAllLoadedFiles()
+					.filter(file => 'children' in file && file.children !== undefined)
+					.map(folder => folder.path || '/')
+					.filter(path => (includeRoot || path !== '/') && !folders.includes(path));
+
+				dropdown.addOption('', 'Add a folder...');
+				available.forEach(folder => {
+					dropdown.addOption(folder, folder);
+				});
+
+				dropdown.setValue('');
+				dropdown.onChange(async (value) => {
+					if (value) {
+						await save([...folders, value]);
+						this.render();
+					}
+				});
+			});
+	}
+}
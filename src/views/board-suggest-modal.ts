@@ -0,0 +1,29 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import type { BoardConfig } from '../types';
+
+/**
+ * Pick one of the boards, e.g. to open it.
+ */
+export class BoardSuggestModal extends FuzzySuggestModal<BoardConfig> {
+	private boards: BoardConfig[];
+	private onChoose: (board: BoardConfig) => void;
+
+	constructor(app: App, boards: BoardConfig[], onChoose: (board: BoardConfig) => void, placeholder = 'Choose a board to open') {
+		super(app);
+		this.boards = boards;
+		this.onChoose = onChoose;
+		this.setPlaceholder(placeholder);
+	}
+
+	getItems(): BoardConfig[] {
+		return this.boards;
+	}
+
+	getItemText(board: BoardConfig): string {
+		return board.name;
+	}
+
+	onChooseItem(board: BoardConfig) {
+		this.onChoose(board);
+	}
+}
@@ -0,0 +1,133 @@
+import { Menu, TFile, setIcon } from 'obsidian';
+import type VisualDashboardPlugin from '../main';
+import { PASTEL_COLORS } from '../constants';
+import { formatTagForDisplay } from '../utils/markdown';
+import { FolderSuggestModal } from './folder-suggest-modal';
+import { TagSuggestModal } from './tag-suggest-modal';
+
+export interface BulkActionTarget {
+	// The selected notes, in display order
+	getFiles: () => TFile[];
+	clearSelection: () => void;
+}
+
+/**
+ * Floating bar with the actions that apply to every selected note. Hidden while nothing is selected.
+ */
+export class BulkActionBar {
+	private plugin: VisualDashboardPlugin;
+	private target: BulkActionTarget;
+	private el: HTMLElement;
+	private countEl: HTMLElement;
+	private pinButton: HTMLElement;
+	private mergeButton: HTMLElement;
+
+	constructor(plugin: VisualDashboardPlugin, parent: HTMLElement, target: BulkActionTarget) {
+		this.plugin = plugin;
+		this.target = target;
+		this.el = parent.createDiv({ cls: 'mini-notes-bulk-bar' });
+		this.el.toggle(false);
+		this.countEl = this.el.createSpan({ cls: 'bulk-bar-count' });
+
+		this.pinButton = this.createButton('pin', 'Pin', () => {
+			const paths = this.target.getFiles().map(file => file.path);
+			void this.plugin.setNotesPinned(paths, !paths.every(path => this.plugin.isPinned(path)))
+				.then(() => this.update(paths));
+		});
+		this.createButton('palette', 'Set color', (e) => this.showColorMenu(e));
+		this.createButton('tag', 'Add or remove tag', (e) => this.showTagMenu(e));
+		this.createButton('folder-input', 'Move to folder', () => {
+			new FolderSuggestModal(this.plugin.app, (folder) => {
+				void this.runAndClear(() => this.plugin.moveNotesToFolder(this.target.getFiles(), folder.path));
+			}).open();
+		});
+		this.createButton('archive', 'Archive', () => {
+			void this.runAndClear(() => this.plugin.archiveNotes(this.target.getFiles()));
+		});
+		this.mergeButton = this.createButton('merge', 'Merge into the first note', () => {
+			void this.runAndClear(() => this.plugin.mergeNotes(this.target.getFiles()));
+		});
+		this.createButton('trash-2', 'Delete', () => {
+			void this.runAndClear(() => this.plugin.trashNotes(this.target.getFiles()));
+		}).addClass('mod-warning');
+		this.createButton('x', 'Clear selection', () => this.target.clearSelection());
+	}
+
+	update(paths: string[]) {
+		this.el.toggle(paths.length > 0);
+		if (paths.length === 0) return;
+		this.countEl.setText(`${paths.length} selected`);
+
+		const allPinned = paths.every(path => this.plugin.isPinned(path));
+		setIcon(this.pinButton, allPinned ? 'pin-off' : 'pin');
+		this.pinButton.setAttribute('aria-label', allPinned ? 'Unpin' : 'Pin');
+
+		const mergeable = this.target.getFiles().filter(file => file.extension === 'md').length > 1;
+		this.mergeButton.toggleClass('is-disabled', !mergeable);
+	}
+
+	private createButton(icon: string, label: string, onClick: (e: MouseEvent) => void): HTMLElement {
+		const button = this.el.createDiv({ cls: 'bulk-bar-button clickable-icon' });
+		setIcon(button, icon);
+		button.setAttribute('aria-label', label);
+		button.addEventListener('click', (e: MouseEvent) => {
+			e.stopPropagation();
+			if (!button.hasClass('is-disabled')) onClick(e);
+		});
+		return button;
+	}
+
+	// Actions that move notes away from the view end the selection
+	private async runAndClear(action: () => Promise<void>) {
+		await action();
+		this.target.clearSelection();
+	}
+
+	private showColorMenu(e: MouseEvent) {
+		const paths = this.target.getFiles().map(file => file.path);
+		const menu = new Menu();
+		PASTEL_COLORS.forEach(({ name, color }) => {
+			menu.addItem(item => item
+				.setTitle(name)
+				.setChecked(paths.every(path => this.plugin.getNoteColor(path) === color))
+				.onClick(() => { void this.plugin.setNotesColor(paths, color); }));
+		});
+		menu.addSeparator();
+		menu.addItem(item => item
+			.setTitle('Remove color')
+			.setIcon('eraser')
+			.onClick(() => { void this.plugin.setNotesColor(paths, null); }));
+		menu.showAtMouseEvent(e);
+	}
+
+	private showTagMenu(e: MouseEvent) {
+		const files = this.target.getFiles();
+		const menu = new Menu();
+		menu.addItem(item => item
+			.setTitle('Add tag…')
+			.setIcon('plus')
+			.onClick(() => {
+				new TagSuggestModal(this.plugin.app, this.getVaultTags(), (tag) => {
+					void this.plugin.setNotesTag(files, tag, true);
+				}).open();
+			}));
+
+		// Tags that any of the selected notes has
+		const selectedTags = new Set<string>();
+		files.forEach(file => this.plugin.noteIndex.getNote(file.path)?.tags.forEach(tag => selectedTags.add(tag)));
+		if (selectedTags.size > 0) menu.addSeparator();
+		Array.from(selectedTags).sort().forEach(tag => {
+			menu.addItem(item => item
+				.setTitle(`Remove ${formatTagForDisplay(tag)}`)
+				.setIcon('minus')
+				.onClick(() => { void this.plugin.setNotesTag(files, tag, false); }));
+		});
+		menu.showAtMouseEvent(e);
+	}
+
+	private getVaultTags(): string[] {
+		const tags = new Set<string>();
+		this.plugin.noteIndex.getNotes().forEach(note => note.tags.forEach(tag => tags.add(tag)));
+		return Array.from(tags).sort();
+	}
+}
@@ -0,0 +1,80 @@
+import { VIRTUALIZATION_MARGIN_PX } from '../constants';
+
+export interface CardVirtualizerCallbacks {
+	mount: (card: HTMLElement) => Promise<void> | void;
+	unmount: (card: HTMLElement) => void;
+}
+
+/**
+ * Mounts card content only while a card is near the viewport of the scroll container.
+ * Cards stay in the DOM as lightweight shells so layout, drag-and-drop and ordering keep working;
+ * an unmounted shell keeps its last measured height so the scroll position doesn't jump.
+ */
+export class CardVirtualizer {
+	private callbacks: CardVirtualizerCallbacks;
+	private observer: IntersectionObserver;
+	private mounted = new Set<HTMLElement>();
+
+	constructor(scrollContainer: HTMLElement, callbacks: CardVirtualizerCallbacks) {
+		this.callbacks = callbacks;
+		this.observer = new IntersectionObserver(
+			(entries) => this.handleIntersections(entries),
+			{
+				root: scrollContainer,
+				rootMargin: `${VIRTUALIZATION_MARGIN_PX}px 0px`
+			}
+		);
+	}
+
+	observe(card: HTMLElement) {
+		this.observer.observe(card);
+	}
+
+	unobserve(card: HTMLElement) {
+		this.observer.unobserve(card);
+		this.unmount(card);
+	}
+
+	isMounted(card: HTMLElement): boolean {
+		return this.mounted.has(card);
+	}
+
+	// Unmount every card and stop observing them (before the grid is emptied)
+	reset() {
+		this.mounted.forEach(card => this.unmount(card));
+		this.observer.disconnect();
+	}
+
+	destroy() {
+		this.reset();
+	}
+
+	private handleIntersections(entries: IntersectionObserverEntry[]) {
+		for (const entry of entries) {
+			const card = entry.target as HTMLElement;
+			if (entry.isIntersecting) {
+				this.mount(card);
+			} else if (!card.hasClass('dragging')) {
+				// Never pull the content out from under an active drag
+				this.unmount(card);
+			}
+		}
+	}
+
+	private mount(card: HTMLElement) {
+		if (this.mounted.has(card)) return;
+		this.mounted.add(card);
+		card.removeClass('card-unmounted');
+		void this.callbacks.mount(card);
+	}
+
+	private unmount(card: HTMLElement) {
+		if (!this.mounted.has(card)) return;
+		this.mounted.delete(card);
+
+		// Remember the rendered height so the placeholder takes up the same space
+		card.setCssProps({ '--card-measured-height': `${card.offsetHeight}px` });
+		card.addClass('card-unmounted');
+		this.callbacks.unmount(card);
+	}
+}
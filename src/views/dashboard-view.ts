@@ -1,20 +1,78 @@
-import { ItemView, TFile, WorkspaceLeaf, setIcon, MarkdownRenderer, Platform } from 'obsidian';
+import { ItemView, TFile, WorkspaceLeaf, setIcon, MarkdownRenderer, Platform, Component, Scope, Menu, Notice, ViewStateResult, debounce } from 'obsidian';
 import type VisualDashboardPlugin from '../main';
-import { VIEW_TYPE_VISUAL_DASHBOARD } from '../types';
-import { extractTags, getPreviewText, getMarkdownForPreview, stripMarkdown, formatTagForDisplay, tagMatchesFilter, isFileInFolderOrSubfolder } from '../utils/markdown';
+import { VIEW_TYPE_VISUAL_DASHBOARD, BoardConfig, BoardFilters, FilterPreset, DEFAULT_BOARD_FILTERS, TagFilter, FolderFilter, DateFilter, SortOrder, GroupBy, BoardLayout, BoardLayoutMode, CardDensity } from '../types';
+import { getPreviewText, getMarkdownForPreview, formatTagForDisplay, extractTags } from '../utils/markdown';
 import { formatDate } from '../utils/date';
-import { FILE_FETCH_MULTIPLIER, DEBOUNCE_REFRESH_MS, MAX_PREVIEW_LENGTH, CARD_SIZE, MAX_CARD_HEIGHT } from '../constants';
+import { DEBOUNCE_REFRESH_MS, MAX_PREVIEW_LENGTH, MAX_CARD_HEIGHT, MASONRY_GAP_PX, MAX_CARD_SPAN, CARD_HEIGHT_RANGE, PASTEL_COLORS } from '../constants';
+import type { IndexedNote, NoteIndexChange } from '../services/note-index';
 import { QuickNoteBar } from './quick-note-bar';
+import { CardVirtualizer } from './card-virtualizer';
+import { MasonryLayout, MasonryOptions } from './masonry-layout';
+import { NoteSelection } from './note-selection';
+import { BulkActionBar } from './bulk-action-bar';
+import { registerHistoryHotkeys } from '../services/action-history';
+import { DEFAULT_BOARD_ID, getBoards } from '../services/boards';
+import { BoardSettingsModal } from './board-settings-modal';
+import { SearchQuerySuggest } from './search-suggest';
+import { ParsedSearchQuery, parseSearchQuery, matchesSearchQuery, findTermRanges, SearchContext } from '../utils/search-query';
+import { FuzzyNoteScorer, MatchRange } from '../utils/fuzzy-search';
+import { createNoteComparator, describeSortOrder, moveInManualOrder } from '../utils/note-sort';
+import { showSortMenu } from './sort-menu';
+import { buildKanbanColumns, getColumnChange } from '../utils/kanban';
+import { KanbanSettingsModal } from './kanban-settings-modal';
+import { formatDayLabel, getCalendarWeeks, getNoteDay, groupNotesByDay } from '../utils/timeline';
+import { GROUP_BY_OPTIONS, getGroupKey, getGroupTarget, groupNotes } from '../utils/note-groups';
+import { getTagState, isTagFilterActive, matchesTagFilter, setTagState } from '../utils/tag-filter';
+import { countNotesByFolder, isFolderFilterActive, matchesFolderFilter } from '../utils/folder-filter';
+import { applyNoteFilters, NotePredicates } from '../utils/note-filters';
+import { FolderTreePicker } from './folder-tree-picker';
+import { isPresetActive, isSameFilters } from '../services/filter-presets';
+import { FilterPresetModal } from './filter-preset-modal';
+import { DATE_FIELD_OPTIONS, DATE_PRESET_OPTIONS, describeDateFilter, formatDay, getDateRange, isDateFilterActive, matchesDateRange } from '../utils/date-filter';
+import { DateRangeModal } from './date-range-modal';
+
+// A block of cards rendered as one grid section (pinned notes, all other notes, or one group of them)
+interface CardSection {
+	key: string;
+	notes: IndexedNote[];
+	// Group sections get a titled header and can be folded away, which leaves `notes` empty
+	group?: { key: string; label: string; count: number; collapsed: boolean };
+	// Kanban columns are laid out side by side
+	column?: { key: string; label: string; count: number };
+	// Timeline days are headed by their date
+	day?: { key: string; label: string; count: number };
+	// The calendar shows how many notes fall on each day instead of cards
+	calendar?: Map<string, number>;
+}
+
+const CARD_DENSITY_OPTIONS: { value: CardDensity; label: string; icon: string }[] = [
+	{ value: 'masonry', label: 'Masonry', icon: 'layout-dashboard' },
+	{ value: 'grid', label: 'Uniform grid', icon: 'grid-2x2' },
+	{ value: 'list', label: 'Dense list', icon: 'list' }
+];
 
 export class VisualDashboardView extends ItemView {
 	private miniNotesGrid!: HTMLElement;
 	private plugin: VisualDashboardPlugin;
+	// The board this tab shows, restored through the view state
+	private boardId = DEFAULT_BOARD_ID;
 	private draggedCard: HTMLElement | null = null;
 	private currentFiles: TFile[] = [];
 	private settingsChangedHandler: () => void;
 	private refreshTimeoutId: number | null = null;
+	private pendingChangedPaths = new Set<string>();
+	private pendingFullRender = false;
+	// Increased by every render and update, so results of an outdated one are dropped
+	private renderId = 0;
 	private eventsRegistered = false;
 	private quickNoteBar: QuickNoteBar | null = null;
+	private cardVirtualizer: CardVirtualizer | null = null;
+	private masonry: MasonryLayout | null = null;
+	private selection: NoteSelection | null = null;
+	private bulkActionBar: BulkActionBar | null = null;
+	private cardComponents = new Map<HTMLElement, Component>();
+	// Cards showing their whole note, by path
+	private expandedCards = new Set<string>();
 
 	// Smooth drag and drop state
 	private dragOverTargetCard: HTMLElement | null = null;
@@ -24,8 +82,8 @@ export class VisualDashboardView extends ItemView {
 
 	// Filter state
 	private filterPinned: 'all' | 'pinned' | 'unpinned' = 'all';
-	private filterTag: string | null = null;
-	private filterFolder: string | null = null;
+	private filterTags: TagFilter = DEFAULT_BOARD_FILTERS.tags;
+	private filterFolders: FolderFilter = DEFAULT_BOARD_FILTERS.folders;
 	private filterColor: string | null = null;
 	private filterType: string | null = null;
 	private allTags: string[] = [];
@@ -38,7 +96,29 @@ export class VisualDashboardView extends ItemView {
 	private colorIcon: HTMLElement | null = null;
 	private typeDropdown: HTMLElement | null = null;
 	private typeIcon: HTMLElement | null = null;
+	private filterDate: DateFilter = DEFAULT_BOARD_FILTERS.date;
+	private dateDropdown: HTMLElement | null = null;
+	private dateIcon: HTMLElement | null = null;
 	private searchQuery: string = '';
+	private parsedSearch: ParsedSearchQuery = parseSearchQuery('');
+	// Set while fuzzy search mode is on; rebuilt on every render so scores follow note edits
+	private fuzzyScorer: FuzzyNoteScorer | null = null;
+	private searchInput: HTMLInputElement | null = null;
+	private pinToggle: HTMLElement | null = null;
+	private sortButton: HTMLElement | null = null;
+	private groupButton: HTMLElement | null = null;
+	private densitySwitch: HTMLElement | null = null;
+	private layoutButton: HTMLElement | null = null;
+	private presetBar: HTMLElement | null = null;
+	private tagChips: HTMLElement | null = null;
+	private folderTree: FolderTreePicker | null = null;
+	// The board's notes before filtering, for counting what each filter option would show
+	private boardNotes: IndexedNote[] = [];
+	// The month the calendar layout shows
+	private calendarMonth = new Date();
+	private saveFilters = debounce(() => {
+		void this.plugin.updateBoard(this.boardId, { filters: this.getFilters() }, false);
+	}, DEBOUNCE_REFRESH_MS);
 
 	// Card color dropdown state
 	private activeCardColorDropdown: HTMLElement | null = null;
@@ -56,7 +136,28 @@ export class VisualDashboardView extends ItemView {
 	}
 
 	getDisplayText(): string {
-		return 'Mini notes';
+		return this.boardId === DEFAULT_BOARD_ID ? 'Mini notes' : this.board.name;
+	}
+
+	private get board(): BoardConfig {
+		return this.plugin.getBoard(this.boardId);
+	}
+
+	getState(): Record<string, unknown> {
+		return { ...super.getState(), boardId: this.boardId };
+	}
+
+	async setState(state: unknown, result: ViewStateResult): Promise<void> {
+		const boardId = (state as { boardId?: unknown } | null)?.boardId;
+		const nextBoardId = typeof boardId === 'string' ? this.plugin.getBoard(boardId).id : DEFAULT_BOARD_ID;
+		if (nextBoardId !== this.boardId) {
+			// Save pending filter changes to the board they belong to
+			this.saveFilters.run();
+			this.boardId = nextBoardId;
+			this.loadFilters();
+			await this.refreshView();
+		}
+		await super.setState(state, result);
 	}
 
 	getIcon(): string {
@@ -73,9 +174,16 @@ export class VisualDashboardView extends ItemView {
 			container.addClass('mobile');
 		}
 
+		// Restore the board's saved filters
+		this.loadFilters();
+
 		// Apply theme color
 		this.applyThemeColor();
 
+		// Undo and redo dashboard actions
+		this.scope = new Scope(this.app.scope);
+		registerHistoryHotkeys(this.scope, this.plugin);
+
 		// Create sticky header wrapper
 		const stickyWrapper = this.contentEl.createDiv({ cls: 'dashboard-sticky-header' });
 
@@ -83,15 +191,14 @@ export class VisualDashboardView extends ItemView {
 		const header = stickyWrapper.createDiv({ cls: 'dashboard-header' });
 
 		// Title on left
-		const title = header.createEl('h1', { text: this.plugin.data.viewTitle || 'Do Your Best Today!', cls: 'dashboard-title editable-title' });
+		const title = header.createEl('h1', { text: this.board.viewTitle || 'Do Your Best Today!', cls: 'dashboard-title editable-title' });
 		title.setAttribute('contenteditable', 'true');
 		title.setAttribute('spellcheck', 'false');
 
 		// Save title on blur
 		title.addEventListener('blur', () => {
 			const newTitle = title.textContent?.trim() || 'Do Your Best Today!';
-			this.plugin.data.viewTitle = newTitle;
-			void this.plugin.savePluginData();
+			void this.plugin.setViewTitle(this.boardId, newTitle);
 		});
 
 		// Save title on Enter key
@@ -110,37 +217,57 @@ export class VisualDashboardView extends ItemView {
 		// Controls on right (search, tag filter, pin filter)
 		const controls = header.createDiv({ cls: 'header-controls' });
 
+		// Board switcher
+		const boardButton = controls.createDiv({ cls: 'filter-icon board-switcher-button' });
+		setIcon(boardButton, 'layout-dashboard');
+		boardButton.setAttribute('aria-label', 'Switch board');
+		boardButton.addEventListener('click', (e: MouseEvent) => {
+			e.stopPropagation();
+			this.showBoardMenu(e);
+		});
+
 		// Search bar in header
 		const searchInput = controls.createEl('input', {
 			cls: 'dashboard-search-input',
 			attr: {
-				placeholder: 'Search notes...',
+				placeholder: 'Search notes... (tag:#work, is:pinned)',
 				type: 'text'
 			}
 		});
+		this.searchInput = searchInput;
+
+		// Autocomplete filter keys, tags and folders while typing a query
+		new SearchQuerySuggest(this.app, searchInput, {
+			getTags: () => this.allTags,
+			getFolders: () => this.allFolders
+		});
 
 		searchInput.addEventListener('input', (e) => {
-			this.searchQuery = (e.target as HTMLInputElement).value.toLowerCase();
-			void this.renderCards();
+			this.searchQuery = (e.target as HTMLInputElement).value;
+			this.parsedSearch = parseSearchQuery(this.searchQuery);
+			this.onFiltersChanged();
 		});
 
+		// Active tag filters, shown as removable chips next to the search box
+		this.tagChips = controls.createDiv({ cls: 'mini-notes-tag-chips' });
+
 		// Folder filter - icon with dropdown
 		const folderWrapper = controls.createDiv({ cls: 'filter-wrapper' });
 		this.folderIcon = folderWrapper.createDiv({ cls: 'filter-icon folder-filter-button' });
 		setIcon(this.folderIcon, 'folder');
 		this.folderIcon.setAttribute('aria-label', 'Filter by folder');
 
-		// Create folder dropdown menu
-		this.folderDropdown = folderWrapper.createDiv({ cls: 'filter-dropdown-menu' });
-
-		// Add "All folders" option
-		const allFolderOption = this.folderDropdown.createDiv({ cls: 'filter-dropdown-item' });
-		allFolderOption.textContent = 'All folders';
-		allFolderOption.addEventListener('click', () => {
-			this.filterFolder = null;
-			this.folderIcon!.toggleClass('active', false);
-			this.folderDropdown!.toggleClass('show', false);
-			void this.renderCards();
+		// Create folder dropdown menu with a folder tree
+		this.folderDropdown = folderWrapper.createDiv({ cls: 'filter-dropdown-menu folder-tree-menu' });
+		this.folderTree = new FolderTreePicker(this.folderDropdown, {
+			getFolders: () => this.allFolders,
+			getCounts: () => countNotesByFolder(applyNoteFilters(this.boardNotes, this.getFilterPredicates(), ['folders'])),
+			getFilter: () => this.filterFolders,
+			onChange: (filter) => {
+				this.filterFolders = filter;
+				this.folderIcon!.toggleClass('active', isFolderFilterActive(filter));
+				this.onFiltersChanged();
+			}
 		});
 
 		// Toggle folder dropdown on click
@@ -150,10 +277,11 @@ export class VisualDashboardView extends ItemView {
 			this.tagDropdown?.toggleClass('show', false);
 			this.colorDropdown?.toggleClass('show', false);
 			this.typeDropdown?.toggleClass('show', false);
+			this.dateDropdown?.toggleClass('show', false);
 			const isCurrentlyShown = this.folderDropdown!.hasClass('show');
 			this.folderDropdown!.toggleClass('show', !isCurrentlyShown);
 			if (!isCurrentlyShown) {
-				this.populateFolderDropdown();
+				this.folderTree!.render();
 			}
 		});
 
@@ -167,13 +295,20 @@ export class VisualDashboardView extends ItemView {
 		this.tagDropdown = tagWrapper.createDiv({ cls: 'filter-dropdown-menu' });
 
 		// Add "All tags" option
-		const allOption = this.tagDropdown.createDiv({ cls: 'filter-dropdown-item' });
-		allOption.textContent = 'All tags';
+		const allOption = this.tagDropdown.createDiv({ cls: 'filter-dropdown-item tag-all-option' });
+		allOption.createSpan({ text: 'All tags' });
 		allOption.addEventListener('click', () => {
-			this.filterTag = null;
+			this.filterTags = { include: [], exclude: [], mode: this.filterTags.mode };
 			this.tagIcon!.toggleClass('active', false);
 			this.tagDropdown!.toggleClass('show', false);
-			void this.renderCards();
+			this.onFiltersChanged();
+		});
+
+		// Switch between notes with all of the included tags and notes with any of them
+		const modeOption = this.tagDropdown.createDiv({ cls: 'filter-dropdown-item tag-mode-toggle' });
+		modeOption.addEventListener('click', (e: MouseEvent) => {
+			e.stopPropagation();
+			this.setTagFilter({ ...this.filterTags, mode: this.filterTags.mode === 'all' ? 'any' : 'all' });
 		});
 
 		// Toggle dropdown on click
@@ -183,6 +318,7 @@ export class VisualDashboardView extends ItemView {
 			this.folderDropdown?.toggleClass('show', false);
 			this.colorDropdown?.toggleClass('show', false);
 			this.typeDropdown?.toggleClass('show', false);
+			this.dateDropdown?.toggleClass('show', false);
 			const isCurrentlyShown = this.tagDropdown!.hasClass('show');
 			this.tagDropdown!.toggleClass('show', !isCurrentlyShown);
 			if (!isCurrentlyShown) {
@@ -200,38 +336,28 @@ export class VisualDashboardView extends ItemView {
 		this.colorDropdown = colorWrapper.createDiv({ cls: 'filter-dropdown-menu color-dropdown' });
 
 		// Add "All colors" option
-		const allColorOption = this.colorDropdown.createDiv({ cls: 'filter-dropdown-item' });
-		allColorOption.textContent = 'All colors';
+		const allColorOption = this.colorDropdown.createDiv({ cls: 'filter-dropdown-item', attr: { 'data-color': '' } });
+		allColorOption.createSpan({ text: 'All colors' });
 		allColorOption.addEventListener('click', () => {
 			this.filterColor = null;
 			this.colorIcon!.toggleClass('active', false);
 			this.colorDropdown!.toggleClass('show', false);
-			void this.renderCards();
+			this.onFiltersChanged();
 		});
 
 		// Add "No color" option
-		const noColorOption = this.colorDropdown.createDiv({ cls: 'filter-dropdown-item' });
-		noColorOption.textContent = 'No color';
+		const noColorOption = this.colorDropdown.createDiv({ cls: 'filter-dropdown-item', attr: { 'data-color': 'none' } });
+		noColorOption.createSpan({ text: 'No color' });
 		noColorOption.addEventListener('click', () => {
 			this.filterColor = 'none';
 			this.colorIcon!.toggleClass('active', true);
 			this.colorDropdown!.toggleClass('show', false);
-			void this.renderCards();
+			this.onFiltersChanged();
 		});
 
 		// Add color options
-		const colorOptions = [
-			{ name: 'Pink', color: 'var(--pastel-pink)' },
-			{ name: 'Peach', color: 'var(--pastel-peach)' },
-			{ name: 'Yellow', color: 'var(--pastel-yellow)' },
-			{ name: 'Green', color: 'var(--pastel-green)' },
-			{ name: 'Blue', color: 'var(--pastel-blue)' },
-			{ name: 'Purple', color: 'var(--pastel-purple)' },
-			{ name: 'Magenta', color: 'var(--pastel-magenta)' }
-		];
-
-		colorOptions.forEach(({ name, color }) => {
-			const item = this.colorDropdown!.createDiv({ cls: 'filter-dropdown-item color-item' });
+		PASTEL_COLORS.forEach(({ name, color }) => {
+			const item = this.colorDropdown!.createDiv({ cls: 'filter-dropdown-item color-item', attr: { 'data-color': color } });
 			const colorCircle = item.createDiv({ cls: 'color-filter-circle' });
 			colorCircle.style.backgroundColor = color;
 			item.createSpan({ text: name });
@@ -239,7 +365,7 @@ export class VisualDashboardView extends ItemView {
 				this.filterColor = color;
 				this.colorIcon!.toggleClass('active', true);
 				this.colorDropdown!.toggleClass('show', false);
-				void this.renderCards();
+				this.onFiltersChanged();
 			});
 		});
 
@@ -250,7 +376,12 @@ export class VisualDashboardView extends ItemView {
 			this.folderDropdown?.toggleClass('show', false);
 			this.tagDropdown?.toggleClass('show', false);
 			this.typeDropdown?.toggleClass('show', false);
-			this.colorDropdown!.toggleClass('show', !this.colorDropdown!.hasClass('show'));
+			this.dateDropdown?.toggleClass('show', false);
+			const isCurrentlyShown = this.colorDropdown!.hasClass('show');
+			this.colorDropdown!.toggleClass('show', !isCurrentlyShown);
+			if (!isCurrentlyShown) {
+				this.updateColorCounts();
+			}
 		});
 
 		// Type filter - icon with dropdown
@@ -264,12 +395,12 @@ export class VisualDashboardView extends ItemView {
 
 		// Add "All types" option
 		const allTypeOption = this.typeDropdown.createDiv({ cls: 'filter-dropdown-item' });
-		allTypeOption.textContent = 'All types';
+		allTypeOption.createSpan({ text: 'All types' });
 		allTypeOption.addEventListener('click', () => {
 			this.filterType = null;
 			this.typeIcon!.toggleClass('active', false);
 			this.typeDropdown!.toggleClass('show', false);
-			void this.renderCards();
+			this.onFiltersChanged();
 		});
 
 		// Type options will be populated dynamically
@@ -279,6 +410,7 @@ export class VisualDashboardView extends ItemView {
 			this.folderDropdown?.toggleClass('show', false);
 			this.tagDropdown?.toggleClass('show', false);
 			this.colorDropdown?.toggleClass('show', false);
+			this.dateDropdown?.toggleClass('show', false);
 			const isCurrentlyShown = this.typeDropdown!.hasClass('show');
 			this.typeDropdown!.toggleClass('show', !isCurrentlyShown);
 			if (!isCurrentlyShown) {
@@ -286,16 +418,42 @@ export class VisualDashboardView extends ItemView {
 			}
 		});
 
+		// Date filter - icon with dropdown
+		const dateWrapper = controls.createDiv({ cls: 'filter-wrapper' });
+		this.dateIcon = dateWrapper.createDiv({ cls: 'filter-icon date-filter-button' });
+		setIcon(this.dateIcon, 'calendar');
+		this.dateIcon.setAttribute('aria-label', 'Filter by date');
+
+		// Filled in each time it opens, with counts for the presets
+		this.dateDropdown = dateWrapper.createDiv({ cls: 'filter-dropdown-menu date-filter-menu' });
+		this.dateDropdown.addEventListener('click', (e: MouseEvent) => e.stopPropagation());
+
+		this.dateIcon.addEventListener('click', (e: MouseEvent) => {
+			e.stopPropagation();
+			// Close other dropdowns
+			this.folderDropdown?.toggleClass('show', false);
+			this.tagDropdown?.toggleClass('show', false);
+			this.colorDropdown?.toggleClass('show', false);
+			this.typeDropdown?.toggleClass('show', false);
+			const isCurrentlyShown = this.dateDropdown!.hasClass('show');
+			this.dateDropdown!.toggleClass('show', !isCurrentlyShown);
+			if (!isCurrentlyShown) {
+				this.renderDateDropdown();
+			}
+		});
+
 		// Close all dropdowns when clicking outside
 		this.registerDomEvent(document, 'click', () => {
 			this.tagDropdown!.toggleClass('show', false);
 			this.folderDropdown?.toggleClass('show', false);
 			this.colorDropdown?.toggleClass('show', false);
 			this.typeDropdown?.toggleClass('show', false);
+			this.dateDropdown?.toggleClass('show', false);
 		});
 
 		// Pin toggle icon
 		const pinToggle = controls.createDiv({ cls: 'filter-icon' });
+		this.pinToggle = pinToggle;
 		setIcon(pinToggle, 'pin');
 		pinToggle.setAttribute('aria-label', 'Show pinned only');
 		pinToggle.addEventListener('click', () => {
@@ -306,12 +464,77 @@ export class VisualDashboardView extends ItemView {
 				this.filterPinned = 'all';
 				pinToggle.removeClass('active');
 			}
-			void this.renderCards();
+			this.onFiltersChanged();
+		});
+
+		// Sort order of this board
+		this.sortButton = controls.createDiv({ cls: 'filter-icon' });
+		setIcon(this.sortButton, 'arrow-up-down');
+		this.sortButton.addEventListener('click', (e: MouseEvent) => {
+			showSortMenu(e, this.board.sort, (sort) => {
+				void this.setSortOrder(sort);
+			});
+		});
+
+		// Masonry, kanban, timeline or calendar layout
+		this.layoutButton = controls.createDiv({ cls: 'filter-icon' });
+		this.layoutButton.addEventListener('click', (e: MouseEvent) => {
+			this.showLayoutMenu(e);
+		});
+
+		// How much of each note the cards show
+		const densitySwitch = controls.createDiv({ cls: 'density-switch' });
+		this.densitySwitch = densitySwitch;
+		CARD_DENSITY_OPTIONS.forEach(option => {
+			const button = densitySwitch.createDiv({ cls: 'density-option' });
+			button.setAttribute('data-density', option.value);
+			button.setAttribute('aria-label', option.label);
+			setIcon(button, option.icon);
+			button.addEventListener('click', () => {
+				void this.setDensity(option.value);
+			});
 		});
 
+		// Group cards into sections
+		this.groupButton = controls.createDiv({ cls: 'filter-icon' });
+		setIcon(this.groupButton, 'layout-list');
+		this.groupButton.addEventListener('click', (e: MouseEvent) => {
+			this.showGroupMenu(e);
+		});
+
+		// Saved filter presets, as a row of chips under the header
+		this.presetBar = stickyWrapper.createDiv({ cls: 'mini-notes-preset-bar' });
+
+		// Reflect the restored filters in the controls
+		this.syncFilterControls();
+
 		// Create mini notes grid container
 		this.miniNotesGrid = this.contentEl.createDiv({ cls: 'mini-notes-grid' });
 
+		// Only cards near the viewport get their content rendered
+		this.cardVirtualizer = new CardVirtualizer(this.contentEl, {
+			mount: (card) => this.mountCardContent(card),
+			unmount: (card) => this.unmountCardContent(card)
+		});
+		this.masonry = new MasonryLayout(this.getMasonryOptions());
+
+		// Shift/Ctrl-click or lasso cards to act on several at once
+		this.selection = new NoteSelection({
+			container: this.miniNotesGrid,
+			itemSelector: '.dashboard-card',
+			getOrder: () => this.currentFiles.map(file => file.path),
+			onChange: (paths) => this.bulkActionBar?.update(paths)
+		});
+		this.bulkActionBar = new BulkActionBar(this.plugin, this.contentEl, {
+			getFiles: () => this.currentFiles.filter(file => this.selection?.has(file.path)),
+			clearSelection: () => this.selection?.clear()
+		});
+		this.scope.register([], 'Escape', () => {
+			if (!this.selection || this.selection.size === 0) return true;
+			this.selection.clear();
+			return false;
+		});
+
 		// Add quick note bar at the bottom for both desktop and mobile
 		// Mobile version will be styled differently with CSS
 		this.quickNoteBar = new QuickNoteBar(this.plugin);
@@ -339,15 +562,19 @@ export class VisualDashboardView extends ItemView {
 			this.app.workspace.on('mini-notes:settings-changed', this.settingsChangedHandler)
 		);
 
-		// Listen for file changes to auto-refresh
-		this.registerEvent(
-			this.app.vault.on('modify', () => this.debouncedRefresh())
-		);
+		// Listen for note index changes and update only the affected cards
 		this.registerEvent(
-			this.app.vault.on('create', () => this.debouncedRefresh())
+			this.plugin.noteIndex.on('changed', (change: NoteIndexChange) => {
+				this.pendingChangedPaths.add(change.path);
+				if (change.oldPath) this.pendingChangedPaths.add(change.oldPath);
+				this.debouncedRefresh();
+			})
 		);
 		this.registerEvent(
-			this.app.vault.on('delete', () => this.debouncedRefresh())
+			this.plugin.noteIndex.on('rebuilt', () => {
+				this.pendingFullRender = true;
+				this.debouncedRefresh();
+			})
 		);
 
 		// Close card color dropdowns when clicking outside
@@ -363,35 +590,247 @@ export class VisualDashboardView extends ItemView {
 		// Update view title
 		const titleElement = this.contentEl.querySelector('.dashboard-title') as HTMLElement;
 		if (titleElement) {
-			titleElement.textContent = this.plugin.data.viewTitle || 'Do Your Best Today!';
+			titleElement.textContent = this.board.viewTitle || 'Do Your Best Today!';
 		}
 
+		// Fall back to the default board if this one was deleted
+		if (this.board.id !== this.boardId) {
+			this.boardId = this.board.id;
+			this.loadFilters();
+			this.app.workspace.requestSaveLayout();
+		}
+		this.syncFilterControls();
+
 		// Re-render cards to reflect setting changes
 		await this.renderCards();
 	}
 
-	private populateTagDropdown() {
+	private getFilters(): BoardFilters {
+		return {
+			pinned: this.filterPinned,
+			tags: this.filterTags,
+			folders: this.filterFolders,
+			date: this.filterDate,
+			color: this.filterColor,
+			type: this.filterType,
+			search: this.searchQuery
+		};
+	}
+
+	private loadFilters() {
+		const { filters } = this.board;
+		this.filterPinned = filters.pinned;
+		this.filterTags = filters.tags;
+		this.filterFolders = filters.folders;
+		this.filterDate = filters.date;
+		this.filterColor = filters.color;
+		this.filterType = filters.type;
+		this.searchQuery = filters.search;
+		this.parsedSearch = parseSearchQuery(filters.search);
+	}
+
+	// Mark the filter icons of the active filters and fill in the search box
+	private syncFilterControls() {
+		if (this.searchInput) this.searchInput.value = this.searchQuery;
+		this.pinToggle?.toggleClass('active', this.filterPinned !== 'all');
+		this.folderIcon?.toggleClass('active', isFolderFilterActive(this.filterFolders));
+		this.tagIcon?.toggleClass('active', isTagFilterActive(this.filterTags));
+		this.colorIcon?.toggleClass('active', this.filterColor !== null);
+		this.typeIcon?.toggleClass('active', this.filterType !== null);
+		this.syncDateIcon();
+		this.syncSortButton();
+		this.syncGroupButton();
+		this.syncLayoutButtons();
+		this.renderTagChips();
+		this.renderPresetBar();
+	}
+
+	private syncSortButton() {
+		const { sort } = this.board;
+		this.sortButton?.toggleClass('active', sort.field !== 'manual');
+		this.sortButton?.setAttribute('aria-label', `Sort: ${describeSortOrder(sort)}`);
+	}
+
+	private async setSortOrder(sort: SortOrder) {
+		await this.plugin.updateBoard(this.boardId, { sort }, false);
+		this.syncSortButton();
+		this.renderPresetBar();
+		await this.renderCards();
+	}
+
+	// Remember the filters on the board and show the result
+	private onFiltersChanged() {
+		this.saveFilters();
+		this.renderTagChips();
+		this.renderPresetBar();
+		void this.renderCards();
+	}
+
+	private setTagFilter(filter: TagFilter) {
+		this.filterTags = filter;
+		this.tagIcon?.toggleClass('active', isTagFilterActive(filter));
 		this.renderTagDropdownItems();
+		this.onFiltersChanged();
 	}
 
-	private populateFolderDropdown() {
-		if (!this.folderDropdown || !this.folderIcon) return;
+	// Included tags first, then excluded ones; the match mode shows once several tags are included
+	private renderTagChips() {
+		const chips = this.tagChips;
+		if (!chips) return;
+		chips.empty();
+
+		const { include, exclude, mode } = this.filterTags;
+		if (include.length > 1) {
+			const modeChip = chips.createDiv({ cls: 'mini-notes-tag-chip tag-chip-mode', text: mode === 'all' ? 'All of' : 'Any of' });
+			modeChip.setAttribute('aria-label', 'Switch between all and any of the tags');
+			modeChip.addEventListener('click', () => {
+				this.setTagFilter({ ...this.filterTags, mode: mode === 'all' ? 'any' : 'all' });
+			});
+		}
 
-		// Remove existing folder items (keep "All folders" option)
-		const existingFolders = this.folderDropdown.querySelectorAll('.filter-dropdown-item:not(:first-child)');
-		existingFolders.forEach(el => el.remove());
+		const addChip = (tag: string, excluded: boolean) => {
+			const chip = chips.createDiv({ cls: 'mini-notes-tag-chip' });
+			chip.toggleClass('is-excluded', excluded);
+			chip.createSpan({ text: (excluded ? 'not ' : '') + formatTagForDisplay(tag) });
+			const remove = chip.createSpan({ cls: 'tag-chip-remove', text: '×' });
+			remove.setAttribute('aria-label', 'Remove tag filter');
+			remove.addEventListener('click', () => {
+				this.setTagFilter(setTagState(this.filterTags, tag, null));
+			});
+		};
+		include.forEach(tag => addChip(tag, false));
+		exclude.forEach(tag => addChip(tag, true));
 
-		this.allFolders.forEach(folder => {
-			const item = this.folderDropdown!.createDiv({ cls: 'filter-dropdown-item folder-item' });
-			item.textContent = folder;
-			item.addEventListener('click', (e: MouseEvent) => {
-				e.stopPropagation();
-				this.filterFolder = folder;
-				this.folderIcon!.toggleClass('active', true);
-				this.folderDropdown!.toggleClass('show', false);
-				void this.renderCards();
+		chips.toggleClass('is-empty', chips.childElementCount === 0);
+	}
+
+	// Switch to a preset's filters, and to its sort order if it has one
+	async applyFilterPreset(preset: FilterPreset) {
+		const { filters } = preset;
+		this.filterPinned = filters.pinned;
+		this.filterTags = filters.tags;
+		this.filterFolders = filters.folders;
+		this.filterDate = filters.date;
+		this.filterColor = filters.color;
+		this.filterType = filters.type;
+		this.searchQuery = filters.search;
+		this.parsedSearch = parseSearchQuery(filters.search);
+
+		if (preset.sort) {
+			await this.plugin.updateBoard(this.boardId, { sort: preset.sort }, false);
+		}
+		this.syncFilterControls();
+		this.onFiltersChanged();
+	}
+
+	// One chip per preset, plus a chip to save the current filters when they aren't saved yet
+	private renderPresetBar() {
+		const bar = this.presetBar;
+		if (!bar) return;
+		bar.empty();
+
+		const filters = this.getFilters();
+		const presets = this.plugin.data.filterPresets;
+		const activePreset = presets.find(preset => isPresetActive(preset, filters, this.board.sort));
+
+		presets.forEach(preset => {
+			const chip = bar.createDiv({ cls: 'mini-notes-preset-chip', text: preset.name });
+			chip.toggleClass('active', preset === activePreset);
+			chip.addEventListener('click', () => {
+				void this.applyFilterPreset(preset);
+			});
+			chip.addEventListener('contextmenu', (e: MouseEvent) => {
+				e.preventDefault();
+				this.showPresetMenu(e, preset);
+			});
+		});
+
+		if (!activePreset && !isSameFilters(filters, DEFAULT_BOARD_FILTERS)) {
+			const saveChip = bar.createDiv({ cls: 'mini-notes-preset-chip mini-notes-preset-save' });
+			setIcon(saveChip.createSpan({ cls: 'mini-notes-preset-icon' }), 'bookmark-plus');
+			saveChip.createSpan({ text: 'Save filters' });
+			saveChip.addEventListener('click', () => {
+				new FilterPresetModal(this.app, '', null, async (name, sort) => {
+					await this.plugin.saveFilterPreset(name, this.getFilters(), sort);
+				}).open();
+			});
+		}
+
+		bar.toggleClass('is-empty', bar.childElementCount === 0);
+	}
+
+	private showPresetMenu(e: MouseEvent, preset: FilterPreset) {
+		const menu = new Menu();
+
+		menu.addItem(item => {
+			item.setTitle('Edit preset')
+				.setIcon('pencil')
+				.onClick(() => {
+					new FilterPresetModal(this.app, preset.name, preset.sort, async (name, sort) => {
+						await this.plugin.updateFilterPreset(preset.id, { name, sort });
+					}).open();
+				});
+		});
+
+		menu.addItem(item => {
+			item.setTitle('Replace with current filters')
+				.setIcon('refresh-cw')
+				.onClick(async () => {
+					await this.plugin.updateFilterPreset(preset.id, { filters: this.getFilters() });
+				});
+		});
+
+		menu.addItem(item => {
+			item.setTitle('Delete preset')
+				.setIcon('trash')
+				.onClick(async () => {
+					await this.plugin.deleteFilterPreset(preset.id);
+				});
+		});
+
+		menu.showAtMouseEvent(e);
+	}
+
+	private showBoardMenu(e: MouseEvent) {
+		const menu = new Menu();
+
+		getBoards(this.plugin.data).forEach(board => {
+			menu.addItem(item => {
+				item.setTitle(board.name)
+					.setChecked(board.id === this.boardId)
+					.onClick(() => {
+						void this.plugin.activateView(board.id);
+					});
 			});
 		});
+
+		menu.addSeparator();
+
+		if (this.boardId !== DEFAULT_BOARD_ID) {
+			menu.addItem(item => {
+				item.setTitle('Board settings')
+					.setIcon('settings')
+					.onClick(() => {
+						new BoardSettingsModal(this.app, this.plugin, this.boardId).open();
+					});
+			});
+		}
+
+		menu.addItem(item => {
+			item.setTitle('New board')
+				.setIcon('plus')
+				.onClick(async () => {
+					const board = await this.plugin.createBoard('New board');
+					await this.plugin.activateView(board.id);
+					new BoardSettingsModal(this.app, this.plugin, board.id).open();
+				});
+		});
+
+		menu.showAtMouseEvent(e);
+	}
+
+	private populateTagDropdown() {
+		this.renderTagDropdownItems();
 	}
 
 	private populateTypeDropdown() {
@@ -401,6 +840,11 @@ export class VisualDashboardView extends ItemView {
 		const existingTypes = this.typeDropdown.querySelectorAll('.filter-dropdown-item:not(:first-child)');
 		existingTypes.forEach(el => el.remove());
 
+		// Count against every filter except the type filter itself
+		const base = applyNoteFilters(this.boardNotes, this.getFilterPredicates(), ['type']);
+		const allTypeOption = this.typeDropdown.querySelector<HTMLElement>('.filter-dropdown-item');
+		if (allTypeOption) this.setOptionCount(allTypeOption, base.length, this.filterType === null);
+
 		// Get unique extensions from allowed extensions
 		const allowedExts = this.plugin.data.allowedExtensions.length > 0
 			? this.plugin.data.allowedExtensions
@@ -408,33 +852,144 @@ export class VisualDashboardView extends ItemView {
 
 		allowedExts.forEach(ext => {
 			const item = this.typeDropdown!.createDiv({ cls: 'filter-dropdown-item type-item' });
-			item.textContent = `.${ext}`;
+			item.createSpan({ text: `.${ext}` });
+			this.setOptionCount(item, base.filter(note => note.file.extension.toLowerCase() === ext).length, this.filterType === ext);
 			item.addEventListener('click', (e: MouseEvent) => {
 				e.stopPropagation();
 				this.filterType = ext;
 				this.typeIcon!.toggleClass('active', true);
 				this.typeDropdown!.toggleClass('show', false);
-				void this.renderCards();
+				this.onFiltersChanged();
+			});
+		});
+	}
+
+	// Counts for the color options, against every filter except the color filter itself
+	private updateColorCounts() {
+		if (!this.colorDropdown) return;
+		const base = applyNoteFilters(this.boardNotes, this.getFilterPredicates(), ['color']);
+		this.colorDropdown.querySelectorAll<HTMLElement>('.filter-dropdown-item').forEach(item => {
+			const color = item.getAttribute('data-color') ?? '';
+			const count = color === ''
+				? base.length
+				: base.filter(note => color === 'none' ? !note.color : note.color === color).length;
+			this.setOptionCount(item, count, (this.filterColor ?? '') === color);
+		});
+	}
+
+	// Date options: which date to look at, then the presets with counts and a custom range
+	private renderDateDropdown() {
+		const dropdown = this.dateDropdown;
+		if (!dropdown) return;
+		dropdown.empty();
+
+		const fieldRow = dropdown.createDiv({ cls: 'date-field-options' });
+		DATE_FIELD_OPTIONS.forEach(option => {
+			const fieldOption = fieldRow.createDiv({ cls: 'date-field-option', text: option.label });
+			fieldOption.toggleClass('is-selected', this.filterDate.field === option.value);
+			fieldOption.addEventListener('click', () => {
+				this.setDateFilter({ ...this.filterDate, field: option.value });
+			});
+		});
+
+		// Counted against every filter except the date filter itself
+		const base = applyNoteFilters(this.boardNotes, this.getFilterPredicates(), ['date']);
+		const field = this.filterDate.field;
+
+		const anyOption = dropdown.createDiv({ cls: 'filter-dropdown-item' });
+		anyOption.createSpan({ text: 'Any date' });
+		this.setOptionCount(anyOption, base.length, !isDateFilterActive(this.filterDate));
+		anyOption.toggleClass('is-selected', !isDateFilterActive(this.filterDate));
+		anyOption.addEventListener('click', () => {
+			dropdown.toggleClass('show', false);
+			this.setDateFilter({ ...this.filterDate, preset: null, from: null, to: null });
+		});
+
+		DATE_PRESET_OPTIONS.forEach(option => {
+			const filter: DateFilter = { field, preset: option.value, from: null, to: null };
+			const range = getDateRange(filter);
+			const selected = this.filterDate.preset === option.value;
+			const item = dropdown.createDiv({ cls: 'filter-dropdown-item' });
+			item.createSpan({ text: option.label });
+			this.setOptionCount(item, range ? base.filter(note => matchesDateRange(note, field, range)).length : 0, selected);
+			item.toggleClass('is-selected', selected);
+			item.addEventListener('click', () => {
+				dropdown.toggleClass('show', false);
+				this.setDateFilter(filter);
 			});
 		});
+
+		const isCustom = this.filterDate.preset === 'custom';
+		const customOption = dropdown.createDiv({ cls: 'filter-dropdown-item' });
+		customOption.createSpan({ text: isCustom ? describeDateFilter(this.filterDate) : 'Custom range…' });
+		customOption.toggleClass('is-selected', isCustom);
+		customOption.addEventListener('click', () => {
+			dropdown.toggleClass('show', false);
+			new DateRangeModal(this.app, this.filterDate, (filter) => this.setDateFilter(filter)).open();
+		});
+	}
+
+	private setDateFilter(filter: DateFilter) {
+		this.filterDate = filter;
+		this.syncDateIcon();
+		if (this.dateDropdown?.hasClass('show')) {
+			this.renderDateDropdown();
+		}
+		this.onFiltersChanged();
+	}
+
+	private syncDateIcon() {
+		const active = isDateFilterActive(this.filterDate);
+		this.dateIcon?.toggleClass('active', active);
+		this.dateIcon?.setAttribute('aria-label', active ? `Filter by date: ${describeDateFilter(this.filterDate)}` : 'Filter by date');
+	}
+
+	// Show how many notes an option would leave; options that would leave none are dimmed
+	private setOptionCount(item: HTMLElement, count: number, selected: boolean) {
+		let countEl = item.querySelector<HTMLElement>('.filter-count');
+		if (!countEl) {
+			countEl = item.createSpan({ cls: 'filter-count' });
+		}
+		countEl.setText(String(count));
+		item.toggleClass('is-empty', count === 0 && !selected);
 	}
 
 	private renderTagDropdownItems() {
-		if (!this.tagDropdown || !this.tagIcon) return;
+		// Counts are only worth computing while the dropdown is open
+		if (!this.tagDropdown || !this.tagIcon || !this.tagDropdown.hasClass('show')) return;
 
-		// Remove existing tag items (keep "All tags" option)
-		const existingTags = this.tagDropdown.querySelectorAll('.filter-dropdown-item:not(:first-child)');
+		// Each tag counts the notes left if it were included, under the other filters
+		const base = applyNoteFilters(this.boardNotes, this.getFilterPredicates(), ['tags']);
+		const allOption = this.tagDropdown.querySelector<HTMLElement>('.tag-all-option');
+		if (allOption) this.setOptionCount(allOption, base.length, !isTagFilterActive(this.filterTags));
+
+		const modeOption = this.tagDropdown.querySelector<HTMLElement>('.tag-mode-toggle');
+		modeOption?.setText(this.filterTags.mode === 'all' ? 'Match all included tags' : 'Match any included tag');
+
+		// Remove existing tag items (keep the fixed options at the top)
+		const existingTags = this.tagDropdown.querySelectorAll('.tag-pill');
 		existingTags.forEach(el => el.remove());
 
+		// Click a tag to include it; the minus button excludes it instead
 		this.allTags.forEach(tag => {
+			const state = getTagState(this.filterTags, tag);
 			const item = this.tagDropdown!.createDiv({ cls: 'filter-dropdown-item tag-pill' });
-			item.textContent = formatTagForDisplay(tag);
+			item.toggleClass('is-included', state === 'include');
+			item.toggleClass('is-excluded', state === 'exclude');
+			item.createSpan({ text: formatTagForDisplay(tag) });
+			const included = setTagState(this.filterTags, tag, 'include');
+			this.setOptionCount(item, base.filter(note => matchesTagFilter(note.tags, included)).length, state !== null);
 			item.addEventListener('click', (e: MouseEvent) => {
 				e.stopPropagation();
-				this.filterTag = tag;
-				this.tagIcon!.toggleClass('active', true);
-				this.tagDropdown!.toggleClass('show', false);
-				void this.renderCards();
+				this.setTagFilter(setTagState(this.filterTags, tag, state === 'include' ? null : 'include'));
+			});
+
+			const excludeBtn = item.createSpan({ cls: 'tag-exclude-btn' });
+			setIcon(excludeBtn, 'circle-minus');
+			excludeBtn.setAttribute('aria-label', state === 'exclude' ? 'Stop excluding' : 'Exclude tag');
+			excludeBtn.addEventListener('click', (e: MouseEvent) => {
+				e.stopPropagation();
+				this.setTagFilter(setTagState(this.filterTags, tag, state === 'exclude' ? null : 'exclude'));
 			});
 		});
 	}
@@ -445,8 +1000,16 @@ export class VisualDashboardView extends ItemView {
 		}
 
 		this.refreshTimeoutId = window.setTimeout(() => {
-			void this.renderCards();
 			this.refreshTimeoutId = null;
+			const changedPaths = Array.from(this.pendingChangedPaths);
+			this.pendingChangedPaths.clear();
+
+			if (this.pendingFullRender) {
+				this.pendingFullRender = false;
+				void this.renderCards();
+			} else {
+				void this.updateCards(changedPaths);
+			}
 		}, DEBOUNCE_REFRESH_MS);
 	}
 
@@ -454,12 +1017,13 @@ export class VisualDashboardView extends ItemView {
 		const container = this.contentEl;
 		let themeColor: string;
 
-		switch (this.plugin.data.themeColor) {
+		const board = this.board;
+		switch (board.themeColor) {
 			case 'black':
 				themeColor = '#000000';
 				break;
 			case 'custom':
-				themeColor = this.plugin.data.customThemeColor;
+				themeColor = board.customThemeColor;
 				break;
 			case 'obsidian':
 			default:
@@ -472,168 +1036,172 @@ export class VisualDashboardView extends ItemView {
 		container.style.setProperty('--masonry-theme-color', themeColor);
 	}
 
-	async renderCards() {
-		try {
-			this.miniNotesGrid.empty();
+	// One predicate per active filter
+	private getFilterPredicates(): NotePredicates {
+		const predicates: NotePredicates = {};
 
-			// Get all files matching allowed extensions
-			const allowedExts = this.plugin.data.allowedExtensions.length > 0
-				? this.plugin.data.allowedExtensions
-				: ['md']; // Default to .md if no extensions configured
+		if (this.parsedSearch.root) {
+			const scorer = this.fuzzyScorer;
+			const context: SearchContext = {
+				isPinned: (path) => this.plugin.isPinned(path),
+				matchText: scorer ? (note, value) => scorer.matchesTerm(note, value) : undefined
+			};
+			predicates.search = note => matchesSearchQuery(note, this.parsedSearch, context);
+		}
 
-			let files = this.app.vault.getFiles().filter((file: TFile) => {
-				const ext = file.extension.toLowerCase();
-				return allowedExts.includes(ext);
-			});
+		// Support nested tags: #parent should match #parent, #parent/child, etc.
+		if (isTagFilterActive(this.filterTags)) {
+			const filter = this.filterTags;
+			predicates.tags = note => matchesTagFilter(note.tags, filter);
+		}
 
-			// Filter out Excalidraw files (they have .md extension but are not regular markdown)
-			files = files.filter((file: TFile) => {
-				const path = file.path.toLowerCase();
-				// Check for .excalidraw extension or .excalidraw.md pattern
-				return !path.endsWith('.excalidraw.md') && !path.endsWith('.excalidraw');
-			});
+		// Folders include their subfolders
+		if (isFolderFilterActive(this.filterFolders)) {
+			const filter = this.filterFolders;
+			predicates.folders = note => matchesFolderFilter(note.folder, filter);
+		}
 
-			// Filter by source folder if specified ("/" = all notes)
-			const sourceFolder = this.plugin.data.sourceFolder.trim().replace(/\/+$/, '');
-			if (sourceFolder && sourceFolder !== '/') {
-				files = files.filter((file: TFile) => file.path.startsWith(sourceFolder + '/'));
-			}
+		const dateRange = getDateRange(this.filterDate);
+		if (dateRange) {
+			const field = this.filterDate.field;
+			predicates.date = note => matchesDateRange(note, field, dateRange);
+		}
 
-			// Filter out config folder files to avoid reading plugin/config files
-			files = files.filter((file: TFile) => !file.path.startsWith(this.app.vault.configDir + '/'));
+		if (this.filterType) {
+			const type = this.filterType;
+			predicates.type = note => note.file.extension.toLowerCase() === type;
+		}
 
-			// Filter out excluded folders
-			if (this.plugin.data.excludedFolders.length > 0) {
-				files = files.filter((file: TFile) => {
-					return !this.plugin.data.excludedFolders.some(excludedFolder => {
-						const normalized = excludedFolder.trim().replace(/\/+$/, '');
-						return file.path.startsWith(normalized + '/');
-					});
-				});
-			}
+		if (this.filterColor) {
+			const color = this.filterColor;
+			predicates.color = note => color === 'none' ? !note.color : note.color === color;
+		}
 
-			// Collect tags from ALL files (before slicing) to show complete tag list
-			const tagSet = new Set<string>();
-			const folderSet = new Set<string>();
-			for (const file of files) {
-				try {
-					const content = await this.app.vault.cachedRead(file);
-					const tags = extractTags(content);
-					tags.forEach(tag => tagSet.add(tag));
-					// Collect folder paths
-					const folder = file.parent?.path;
-					if (folder) {
-						folderSet.add(folder);
-					}
-				} catch (error) {
-					console.warn(`Failed to read file ${file.path} for tags:`, error);
-				}
-			}
-			this.allTags = Array.from(tagSet).sort();
-			this.allFolders = Array.from(folderSet).sort();
-
-			// Update tag dropdown with new tags
-			this.renderTagDropdownItems();
-
-			// Now sort and limit files for display
-			files = files
-				.sort((a: TFile, b: TFile) => b.stat.mtime - a.stat.mtime)
-				.slice(0, this.plugin.data.maxNotes * FILE_FETCH_MULTIPLIER); // Get more initially for filtering
-
-			// Pre-load content for filtering (only for the limited set we'll display)
-			const fileContents = new Map<string, string>();
-			for (const file of files) {
-				try {
-					const content = await this.app.vault.cachedRead(file);
-					fileContents.set(file.path, content);
-				} catch (error) {
-					console.warn(`Failed to read file ${file.path}:`, error);
-					fileContents.set(file.path, '');
-				}
-			}
+		if (this.filterPinned !== 'all') {
+			const pinned = this.filterPinned === 'pinned';
+			predicates.pinned = note => this.plugin.isPinned(note.file.path) === pinned;
+		}
 
-			// Filter out Excalidraw files by content (catches files not following .excalidraw.md naming)
-			files = files.filter((f: TFile) => {
-				const content = fileContents.get(f.path) || '';
-				// Check for excalidraw-plugin in frontmatter or Excalidraw JSON markers
-				return !content.includes('excalidraw-plugin:') && !content.includes('# Excalidraw Data');
-			});
+		return predicates;
+	}
 
-			// Apply search filter
-			if (this.searchQuery) {
-				files = files.filter((f: TFile) => {
-					const content = fileContents.get(f.path) || '';
-					const searchableText = `${f.basename} ${stripMarkdown(content)}`.toLowerCase();
-					return searchableText.includes(this.searchQuery);
-				});
-			}
+	// Filter and sort the indexed notes into the sections the grid displays
+	private async getDisplaySections(): Promise<CardSection[]> {
+		await this.plugin.noteIndex.whenReady();
+		const board = this.board;
+		let notes = this.plugin.noteIndex.getNotesInFolders(board.sourceFolders, board.excludedFolders);
+
+		// Collect tags and folders from ALL notes (before filtering) to show complete lists
+		const tagSet = new Set<string>();
+		const folderSet = new Set<string>();
+		for (const note of notes) {
+			note.tags.forEach(tag => tagSet.add(tag));
+			folderSet.add(note.folder);
+		}
+		this.allTags = Array.from(tagSet).sort();
+		this.allFolders = Array.from(folderSet).sort();
 
-			if (this.filterTag) {
-				files = files.filter((f: TFile) => {
-					const content = fileContents.get(f.path) || '';
-					const tags = extractTags(content);
-					// Support nested tags: #parent should match #parent, #parent/child, etc.
-					return tags.some(tag => tagMatchesFilter(tag, this.filterTag!));
-				});
-			}
+		// Apply search query and filters; the pinned filter is applied per section below
+		this.fuzzyScorer = this.plugin.data.searchMode === 'fuzzy' ? new FuzzyNoteScorer(this.parsedSearch.highlights) : null;
+		this.boardNotes = notes;
+		notes = applyNoteFilters(notes, this.getFilterPredicates(), ['pinned']);
 
-			// Apply folder filter (includes subfolders)
-			if (this.filterFolder) {
-				files = files.filter((f: TFile) => {
-					const fileFolderPath = f.parent?.path || '';
-					// Include files in the folder and all subfolders
-					return isFileInFolderOrSubfolder(fileFolderPath, this.filterFolder!);
-				});
-			}
+		// Update tag dropdown with new tags and counts
+		this.renderTagDropdownItems();
 
-			// Apply type filter
-			if (this.filterType) {
-				files = files.filter((f: TFile) => {
-					return f.extension.toLowerCase() === this.filterType;
-				});
+		// Separate and sort notes by pin status; fuzzy search ranks by relevance first
+		const scorer = this.fuzzyScorer?.hasTerms() ? this.fuzzyScorer : null;
+		const compareNotes = createNoteComparator(board.sort, this.plugin.getSortContext());
+		const sortByOrder = (a: IndexedNote, b: IndexedNote) => {
+			if (scorer) {
+				const relevance = scorer.score(b).score - scorer.score(a).score;
+				if (relevance !== 0) return relevance;
 			}
+			return compareNotes(a, b);
+		};
 
-			// Apply color filter
-			if (this.filterColor) {
-				files = files.filter((f: TFile) => {
-					const savedColor = this.plugin.data.noteColors[f.path];
-					if (this.filterColor === 'none') {
-						return !savedColor;
-					}
-					return savedColor === this.filterColor;
-				});
-			}
+		const pinnedNotes = notes.filter(n => this.plugin.isPinned(n.file.path)).sort(sortByOrder);
+		const unpinnedNotes = notes.filter(n => !this.plugin.isPinned(n.file.path)).sort(sortByOrder);
 
-			// Limit after filtering
-			files = files.slice(0, this.plugin.data.maxNotes);
+		// Apply pinned filter
+		let displayPinned = pinnedNotes;
+		let displayUnpinned = unpinnedNotes;
+		if (this.filterPinned === 'pinned') {
+			displayUnpinned = [];
+		} else if (this.filterPinned === 'unpinned') {
+			displayPinned = [];
+		}
 
-			// Separate and sort files by pin status
-			const sortByOrder = (a: TFile, b: TFile) => {
-				const aOrder = this.plugin.getOrderIndex(a.path);
-				const bOrder = this.plugin.getOrderIndex(b.path);
+		const { mode, kanban, dateField, groupBy, collapsedGroups } = board.layout;
+		if (mode === 'calendar') {
+			const calendar = new Map<string, number>();
+			for (const note of [...displayPinned, ...displayUnpinned]) {
+				const day = getNoteDay(note, dateField);
+				if (day) calendar.set(day, (calendar.get(day) ?? 0) + 1);
+			}
+			return [{ key: 'calendar', notes: [], calendar }];
+		}
+		if (mode === 'timeline') {
+			// One section per day, newest first, with pinned notes first within their day
+			return groupNotesByDay([...displayPinned, ...displayUnpinned], dateField).map(({ day, notes }) => ({
+				key: `day:${day}`,
+				notes,
+				day: { key: day, label: formatDayLabel(day), count: notes.length }
+			}));
+		}
+		if (mode === 'kanban') {
+			// Columns hold every shown note, pinned ones first
+			const { metadataCache } = this.app;
+			const getProperty = (note: IndexedNote): unknown => metadataCache.getFileCache(note.file)?.frontmatter?.[kanban.property];
+			return buildKanbanColumns([...displayPinned, ...displayUnpinned], kanban, getProperty).map(column => ({
+				key: `column:${column.key}`,
+				notes: column.notes,
+				column: { key: column.key, label: column.label, count: column.notes.length }
+			}));
+		}
 
-				if (aOrder > -1 && bOrder > -1) return aOrder - bOrder;
-				if (aOrder > -1) return -1;
-				if (bOrder > -1) return 1;
-				return b.stat.mtime - a.stat.mtime;
-			};
+		const sections: CardSection[] = [{ key: 'pinned', notes: displayPinned }];
+		if (groupBy === 'none') {
+			sections.push({ key: 'notes', notes: displayUnpinned });
+		} else {
+			// Pinned notes stay on top; the rest are split into groups
+			groupNotes(displayUnpinned, groupBy).forEach(group => {
+				const collapsed = collapsedGroups.includes(group.key);
+				sections.push({
+					key: `group:${group.key}`,
+					notes: collapsed ? [] : group.notes,
+					group: { key: group.key, label: group.label, count: group.notes.length, collapsed }
+				});
+			});
+		}
+		return sections.filter(section => section.notes.length > 0 || section.group);
+	}
 
-			const pinnedFiles = files.filter(f => this.plugin.isPinned(f.path)).sort(sortByOrder);
-			const unpinnedFiles = files.filter(f => !this.plugin.isPinned(f.path)).sort(sortByOrder);
+	async renderCards() {
+		try {
+			// Wait for the sections before clearing, and drop them if a newer render or update started meanwhile
+			const renderId = ++this.renderId;
+			const sections = await this.getDisplaySections();
+			if (renderId !== this.renderId) return;
 
-			// Apply pinned filter
-			let displayPinned = pinnedFiles;
-			let displayUnpinned = unpinnedFiles;
-			if (this.filterPinned === 'pinned') {
-				displayUnpinned = [];
-			} else if (this.filterPinned === 'unpinned') {
-				displayPinned = [];
-			}
+			this.resetCards();
+			this.miniNotesGrid.empty();
+			const { mode } = this.board.layout;
+			this.miniNotesGrid.toggleClass('is-kanban', mode === 'kanban');
+			this.miniNotesGrid.toggleClass('is-timeline', mode === 'timeline');
+			this.miniNotesGrid.toggleClass('is-calendar', mode === 'calendar');
+			const { density } = this.board.layout;
+			this.miniNotesGrid.toggleClass('density-grid', density === 'grid');
+			this.miniNotesGrid.toggleClass('density-list', density === 'list');
+			// Kanban columns and list rows stack their cards; the other layouts place them in masonry columns
+			const useMasonry = (mode === 'masonry' || mode === 'timeline') && density !== 'list';
+			this.masonry?.setOptions(this.getMasonryOptions());
 
 			// Store the combined order for drag-and-drop
-			this.currentFiles = [...displayPinned, ...displayUnpinned];
+			this.currentFiles = sections.flatMap(section => section.notes.map(note => note.file));
+			this.selection?.retain(this.currentFiles.map(file => file.path));
 
-			if (displayPinned.length === 0 && displayUnpinned.length === 0) {
+			if (sections.length === 0) {
 				const emptyState = this.miniNotesGrid.createDiv({ cls: 'dashboard-empty-state' });
 				emptyState.createEl('h3', { text: 'No matching notes' });
 				emptyState.createEl('p', { text: 'Try adjusting your filters' });
@@ -641,39 +1209,31 @@ export class VisualDashboardView extends ItemView {
 			}
 
 			let globalIndex = 0;
-
-			// Check if we need sections (both pinned and unpinned exist)
-			const needsSections = displayPinned.length > 0 && displayUnpinned.length > 0;
-
-			if (needsSections) {
-				// Render pinned section
-				if (displayPinned.length > 0) {
-					const pinnedGrid = this.miniNotesGrid.createDiv({ cls: 'mini-notes-grid-section' });
-					for (const file of displayPinned) {
-						const card = await this.createCard(file, globalIndex++);
-						if (card) pinnedGrid.appendChild(card);
-					}
+			sections.forEach((section, sectionIndex) => {
+				if (section.calendar) {
+					this.renderCalendar(section.calendar);
+					return;
 				}
 
-				// Separator line between sections
-				this.miniNotesGrid.createDiv({ cls: 'section-separator' });
-
-				// Render all notes section
-				if (displayUnpinned.length > 0) {
-					const notesGrid = this.miniNotesGrid.createDiv({ cls: 'mini-notes-grid-section' });
-					for (const file of displayUnpinned) {
-						const card = await this.createCard(file, globalIndex++);
-						if (card) notesGrid.appendChild(card);
-					}
+				let parentEl = this.miniNotesGrid;
+				if (section.column) {
+					parentEl = this.renderKanbanColumn(section.key, section.column);
+				} else if (section.day) {
+					this.renderTimelineDay(section.key, section.day);
+				} else if (section.group) {
+					this.renderGroupHeader(section.key, section.group);
+				} else if (sectionIndex > 0) {
+					// Separator line between sections; group headers separate themselves
+					this.miniNotesGrid.createDiv({ cls: 'section-separator' });
 				}
-			} else {
-				// Single section without header
-				const singleGrid = this.miniNotesGrid.createDiv({ cls: 'mini-notes-grid-section' });
-				for (const file of [...displayPinned, ...displayUnpinned]) {
-					const card = await this.createCard(file, globalIndex++);
-					if (card) singleGrid.appendChild(card);
+
+				const sectionGrid = parentEl.createDiv({ cls: 'mini-notes-grid-section' });
+				sectionGrid.setAttribute('data-section', section.key);
+				for (const note of section.notes) {
+					sectionGrid.appendChild(this.createCard(note, globalIndex++));
 				}
-			}
+				if (useMasonry) this.enableMasonry(sectionGrid);
+			});
 		} catch (error) {
 			console.error('Error rendering cards:', error);
 			const errorMsg = this.miniNotesGrid.createDiv({ cls: 'dashboard-error' });
@@ -688,120 +1248,595 @@ export class VisualDashboardView extends ItemView {
 		}
 	}
 
-	async createCard(file: TFile, index: number): Promise<HTMLElement | null> {
-		const card = document.createElement('div');
-		card.addClass('dashboard-card');
-		card.setAttribute('data-path', file.path);
-		card.setAttribute('data-index', index.toString());
-		card.setAttribute('draggable', 'true');
 
+	/**
+	 * Bring the grid in line with the index without rebuilding it: re-render the cards for
+	 * the changed paths, insert and remove cards, and move cards whose position changed.
+	 * Untouched cards keep their DOM (and open dropdowns), so the scroll position is preserved.
+	 */
+	async updateCards(changedPaths: Iterable<string>) {
 		try {
-			// Get content and preview
-			const content = await this.app.vault.cachedRead(file);
-			const cleanContent = stripMarkdown(content);
-			const previewLength = Math.min(cleanContent.length, MAX_PREVIEW_LENGTH);
-			const previewText = getPreviewText(content, previewLength);
-			// Keep markdown formatting for rendering (tables, code blocks, etc.)
-			const markdownPreview = getMarkdownForPreview(content, previewLength);
-
-			// Dynamic sizing based on content length - more granular
-			const contentLen = cleanContent.length;
-			if (contentLen > CARD_SIZE.XL) {
-				card.addClass('card-xl');
-			} else if (contentLen > CARD_SIZE.LARGE) {
-				card.addClass('card-large');
-			} else if (contentLen > CARD_SIZE.MEDIUM) {
-				card.addClass('card-medium');
-			} else if (contentLen > CARD_SIZE.SMALL) {
-				card.addClass('card-small');
-			} else {
-				card.addClass('card-xs');
+			const changed = new Set(changedPaths);
+			const renderId = ++this.renderId;
+			const sections = await this.getDisplaySections();
+			if (renderId !== this.renderId) {
+				// Superseded; a newer update may not cover these paths, so refresh them again
+				changed.forEach(path => this.pendingChangedPaths.add(path));
+				this.debouncedRefresh();
+				return;
 			}
 
-			// Check if pinned
-			const isPinned = this.plugin.isPinned(file.path);
-			if (isPinned) {
-				card.addClass('card-pinned');
+			const sectionEls = Array.from(this.miniNotesGrid.querySelectorAll<HTMLElement>('.mini-notes-grid-section'));
+			const sameLayout = sections.length === sectionEls.length
+				&& sections.every((section, i) => sectionEls[i]?.getAttribute('data-section') === section.key);
+			if (!sameLayout) {
+				// Sections appeared or disappeared - fall back to a full render
+				await this.renderCards();
+				return;
 			}
 
-			// Apply saved color if exists
-			const savedColor = this.plugin.data.noteColors[file.path];
-			if (savedColor) {
-				card.style.backgroundColor = savedColor;
+			this.currentFiles = sections.flatMap(section => section.notes.map(note => note.file));
+			this.selection?.retain(this.currentFiles.map(file => file.path));
+
+			const cardsByPath = new Map<string, HTMLElement>();
+			this.miniNotesGrid.querySelectorAll<HTMLElement>('.dashboard-card').forEach(card => {
+				cardsByPath.set(card.getAttribute('data-path') ?? '', card);
+			});
+
+			let globalIndex = 0;
+			sections.forEach((section, sectionIndex) => {
+				const sectionEl = sectionEls[sectionIndex]!;
+				let previous: HTMLElement | null = null;
+
+				if (section.group) {
+					this.updateGroupHeader(section.key, section.group);
+				} else if (section.column) {
+					sectionEl.parentElement?.querySelector('.kanban-column-count')?.setText(String(section.column.count));
+				} else if (section.day) {
+					sectionEl.previousElementSibling?.querySelector('.timeline-day-count')?.setText(String(section.day.count));
+				}
+
+				for (const note of section.notes) {
+					const path = note.file.path;
+					let card = cardsByPath.get(path);
+					cardsByPath.delete(path);
+
+					if (card && changed.has(path)) {
+						card = this.replaceCard(card, note, globalIndex);
+					} else if (!card) {
+						card = this.createCard(note, globalIndex);
+					}
+
+					// Only touch the DOM when the card is not already in place
+					const expected: Element | null = previous ? previous.nextElementSibling : sectionEl.firstElementChild;
+					if (expected !== card) {
+						sectionEl.insertBefore(card, expected);
+					}
+					card.setAttribute('data-index', (globalIndex++).toString());
+					previous = card;
+				}
+			});
+
+			// Whatever is left no longer matches
+			cardsByPath.forEach(card => this.removeCard(card));
+		} catch (error) {
+			console.error('Error updating cards:', error);
+			await this.renderCards();
+		}
+	}
+
+	private getMasonryOptions(): MasonryOptions {
+		return {
+			columnCount: this.plugin.data.masonryColumns,
+			minColumnWidth: this.plugin.data.minCardWidth,
+			gap: MASONRY_GAP_PX
+		};
+	}
+
+	// Place the section's cards in masonry columns; dragging over the gaps between cards targets the card the pointer is above
+	private enableMasonry(sectionGrid: HTMLElement) {
+		sectionGrid.addClass('is-masonry');
+		this.masonry?.observe(sectionGrid);
+
+		sectionGrid.addEventListener('dragover', (e: DragEvent) => {
+			if (e.target !== sectionGrid || !this.draggedCard) return;
+			const card = this.masonry?.getCardAt(sectionGrid, e.clientX, e.clientY);
+			if (card) this.handleDragOver(e, card);
+		});
+		sectionGrid.addEventListener('drop', (e: DragEvent) => {
+			if (e.target !== sectionGrid || !this.dragOverTargetCard) return;
+			this.handleDrop(e, this.dragOverTargetCard);
+		});
+	}
+
+	// Title, count and fold toggle of a group section; cards can also be dropped onto it
+	private renderGroupHeader(sectionKey: string, group: NonNullable<CardSection['group']>) {
+		const header = this.miniNotesGrid.createDiv({ cls: 'mini-notes-group-header' });
+		header.setAttribute('data-section', sectionKey);
+		header.createSpan({ cls: 'group-header-toggle' });
+		header.createSpan({ cls: 'group-header-title', text: group.label });
+		header.createSpan({ cls: 'group-header-count' });
+		this.updateGroupHeader(sectionKey, group);
+
+		header.addEventListener('click', () => {
+			void this.toggleGroup(group.key);
+		});
+		header.addEventListener('dragover', (e: DragEvent) => {
+			if (!this.draggedCard) return;
+			e.preventDefault();
+			header.addClass('drag-over');
+		});
+		header.addEventListener('dragleave', () => header.removeClass('drag-over'));
+		header.addEventListener('drop', (e: DragEvent) => {
+			e.preventDefault();
+			header.removeClass('drag-over');
+			const path = this.draggedCard?.getAttribute('data-path');
+			if (path) void this.moveNoteToGroup(path, group.key);
+		});
+	}
+
+	private updateGroupHeader(sectionKey: string, group: NonNullable<CardSection['group']>) {
+		const header = Array.from(this.miniNotesGrid.querySelectorAll<HTMLElement>('.mini-notes-group-header'))
+			.find(el => el.getAttribute('data-section') === sectionKey);
+		if (!header) return;
+		header.toggleClass('is-collapsed', group.collapsed);
+		header.setAttribute('aria-label', group.collapsed ? 'Expand group' : 'Collapse group');
+		const toggle = header.querySelector<HTMLElement>('.group-header-toggle');
+		if (toggle) setIcon(toggle, group.collapsed ? 'chevron-right' : 'chevron-down');
+		header.querySelector('.group-header-count')?.setText(String(group.count));
+	}
+
+	// A kanban column with its title and count; cards can be dropped anywhere in it
+	private renderKanbanColumn(sectionKey: string, column: NonNullable<CardSection['column']>): HTMLElement {
+		const columnEl = this.miniNotesGrid.createDiv({ cls: 'kanban-column' });
+		columnEl.toggleClass('is-unsorted', column.key === '');
+		const header = columnEl.createDiv({ cls: 'kanban-column-header' });
+		header.createSpan({ cls: 'kanban-column-title', text: column.label });
+		header.createSpan({ cls: 'kanban-column-count', text: String(column.count) });
+
+		columnEl.addEventListener('dragover', (e: DragEvent) => {
+			if (!this.draggedCard) return;
+			e.preventDefault();
+			columnEl.addClass('drag-over');
+		});
+		columnEl.addEventListener('dragleave', (e: DragEvent) => {
+			if (!columnEl.contains(e.relatedTarget as Node | null)) columnEl.removeClass('drag-over');
+		});
+		columnEl.addEventListener('drop', (e: DragEvent) => {
+			columnEl.removeClass('drag-over');
+			// Drops onto a card are handled (and reordered) by the card itself
+			if ((e.target as HTMLElement).closest('.dashboard-card')) return;
+			e.preventDefault();
+			const card = this.draggedCard;
+			const path = card?.getAttribute('data-path');
+			if (card && path) void this.moveNoteToColumn(path, this.getCardSection(card), sectionKey);
+		});
+		return columnEl;
+	}
+
+	private getCardSection(card: HTMLElement): string {
+		return card.closest('.mini-notes-grid-section')?.getAttribute('data-section') ?? '';
+	}
+
+	// Update the note so it belongs in the target kanban column: set the property, or swap the column tag
+	private async moveNoteToColumn(path: string, fromSection: string, toSection: string) {
+		const note = this.plugin.noteIndex.getNote(path);
+		if (!note || fromSection === toSection) return;
+		if (note.file.extension !== 'md') {
+			new Notice('Only Markdown notes can be moved between columns.');
+			return;
+		}
+
+		const { kanban } = this.board.layout;
+		const change = getColumnChange(note, kanban, fromSection.slice('column:'.length), toSection.slice('column:'.length));
+		if (change?.kind === 'property') {
+			await this.plugin.setNoteProperty(note.file, kanban.property, change.value);
+		} else if (change?.kind === 'tag') {
+			await this.plugin.retagNote(note.file, change.from, change.to);
+		}
+	}
+
+	// A day on the timeline; clicking it shows that day's notes in the masonry layout
+	private renderTimelineDay(sectionKey: string, day: NonNullable<CardSection['day']>) {
+		const header = this.miniNotesGrid.createDiv({ cls: 'timeline-day-header' });
+		header.setAttribute('data-section', sectionKey);
+		header.setAttribute('aria-label', 'Show only this day');
+		header.createSpan({ cls: 'timeline-day-dot' });
+		header.createSpan({ cls: 'timeline-day-title', text: day.label });
+		header.createSpan({ cls: 'timeline-day-count', text: String(day.count) });
+		header.addEventListener('click', () => {
+			void this.showDay(day.key);
+		});
+	}
+
+	// A month grid, weeks starting on Monday, with the number of notes on each day
+	private renderCalendar(counts: Map<string, number>) {
+		const calendarEl = this.miniNotesGrid.createDiv({ cls: 'mini-notes-calendar' });
+		const month = this.calendarMonth;
+
+		const nav = calendarEl.createDiv({ cls: 'calendar-nav' });
+		const previous = nav.createDiv({ cls: 'clickable-icon', attr: { 'aria-label': 'Previous month' } });
+		setIcon(previous, 'chevron-left');
+		nav.createSpan({ cls: 'calendar-title', text: month.toLocaleDateString('en-US', { month: 'long', year: 'numeric' }) });
+		const next = nav.createDiv({ cls: 'clickable-icon', attr: { 'aria-label': 'Next month' } });
+		setIcon(next, 'chevron-right');
+		const today = nav.createEl('button', { cls: 'calendar-today', text: 'Today' });
+		previous.addEventListener('click', () => this.showCalendarMonth(-1));
+		next.addEventListener('click', () => this.showCalendarMonth(1));
+		today.addEventListener('click', () => this.showCalendarMonth(0));
+
+		const grid = calendarEl.createDiv({ cls: 'calendar-grid' });
+		['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'].forEach(weekday => {
+			grid.createDiv({ cls: 'calendar-weekday', text: weekday });
+		});
+
+		const todayKey = formatDay(new Date());
+		for (const week of getCalendarWeeks(month)) {
+			for (const date of week) {
+				const day = formatDay(date);
+				const count = counts.get(day) ?? 0;
+				const cell = grid.createDiv({ cls: 'calendar-day' });
+				cell.toggleClass('is-outside', date.getMonth() !== month.getMonth());
+				cell.toggleClass('is-today', day === todayKey);
+				cell.toggleClass('has-notes', count > 0);
+				cell.createSpan({ cls: 'calendar-day-number', text: String(date.getDate()) });
+				if (count > 0) {
+					cell.createSpan({ cls: 'calendar-day-count', text: String(count) });
+					cell.setAttribute('aria-label', count === 1 ? '1 note' : `${count} notes`);
+					cell.addEventListener('click', () => {
+						void this.showDay(day);
+					});
+				}
 			}
+		}
+	}
 
-			// Apply max height limit
-			card.style.maxHeight = `${MAX_CARD_HEIGHT}px`;
-			// Required to prevent card content from exceeding max height - dynamic styling needed per card
-			// eslint-disable-next-line obsidianmd/no-static-styles-assignment
-			card.style.overflow = 'hidden';
-
-			// Pin button (shows on hover)
-			const pinBtn = card.createDiv({ cls: 'card-pin-btn' + (isPinned ? ' pinned' : '') });
-			setIcon(pinBtn, 'pin');
-			pinBtn.setAttribute('aria-label', isPinned ? 'Unpin note' : 'Pin note');
-			pinBtn.addEventListener('click', (e: MouseEvent) => {
-				e.stopPropagation();
-				void this.plugin.togglePin(file.path).then(async (nowPinned) => {
-					pinBtn.classList.toggle('pinned', nowPinned);
-					card.classList.toggle('card-pinned', nowPinned);
-					await this.renderCards();
+	// Step the calendar by months, or back to the current month
+	private showCalendarMonth(offset: number) {
+		const month = this.calendarMonth;
+		this.calendarMonth = offset === 0 ? new Date() : new Date(month.getFullYear(), month.getMonth() + offset, 1);
+		void this.renderCards();
+	}
+
+	// Filter the masonry layout to the notes of one day
+	private async showDay(day: string) {
+		const { layout } = this.board;
+		this.filterDate = { field: layout.dateField, preset: 'custom', from: day, to: day };
+		this.syncDateIcon();
+		await this.plugin.updateBoard(this.boardId, { layout: { ...layout, mode: 'masonry' } }, false);
+		this.syncLayoutButtons();
+		this.onFiltersChanged();
+	}
+
+	private async setLayoutMode(mode: BoardLayoutMode) {
+		await this.plugin.updateBoard(this.boardId, { layout: { ...this.board.layout, mode } }, false);
+		this.syncLayoutButtons();
+		await this.renderCards();
+	}
+
+	private showLayoutMenu(e: MouseEvent) {
+		const { layout } = this.board;
+		const menu = new Menu();
+		menu.addItem((item) => {
+			item.setTitle('Masonry')
+				.setIcon('layout-grid')
+				.setChecked(layout.mode === 'masonry')
+				.onClick(() => {
+					void this.setLayoutMode('masonry');
 				});
+		});
+		menu.addItem((item) => {
+			item.setTitle('Kanban board')
+				.setIcon('kanban')
+				.setChecked(layout.mode === 'kanban')
+				.onClick(() => {
+					void this.setLayoutMode('kanban');
+				});
+		});
+		menu.addItem((item) => {
+			item.setTitle('Timeline')
+				.setIcon('history')
+				.setChecked(layout.mode === 'timeline')
+				.onClick(() => {
+					void this.setLayoutMode('timeline');
+				});
+		});
+		menu.addItem((item) => {
+			item.setTitle('Calendar')
+				.setIcon('calendar-days')
+				.setChecked(layout.mode === 'calendar')
+				.onClick(() => {
+					void this.setLayoutMode('calendar');
+				});
+		});
+		menu.addSeparator();
+		// Where the timeline and calendar take dates from
+		const dateFields: { value: BoardLayout['dateField']; label: string }[] = [
+			{ value: 'name', label: 'Dates from note names' },
+			{ value: 'created', label: 'Dates from created time' }
+		];
+		dateFields.forEach(option => {
+			menu.addItem((item) => {
+				item.setTitle(option.label)
+					.setChecked(layout.dateField === option.value)
+					.onClick(() => {
+						void this.setLayoutDateField(option.value);
+					});
+			});
+		});
+		menu.addSeparator();
+		menu.addItem((item) => {
+			item.setTitle('Set up kanban columns…')
+				.setIcon('settings')
+				.onClick(() => {
+					new KanbanSettingsModal(this.app, layout.kanban, async (kanban) => {
+						await this.plugin.updateBoard(this.boardId, { layout: { ...this.board.layout, mode: 'kanban', kanban } }, false);
+						this.syncLayoutButtons();
+						await this.renderCards();
+					}).open();
+				});
+		});
+		menu.showAtMouseEvent(e);
+	}
+
+	private async setLayoutDateField(dateField: BoardLayout['dateField']) {
+		await this.plugin.updateBoard(this.boardId, { layout: { ...this.board.layout, dateField } }, false);
+		await this.renderCards();
+	}
+
+	// The layout icon shows the current layout; grouping only applies to the masonry layout
+	private syncLayoutButtons() {
+		const { mode } = this.board.layout;
+		const layouts: Record<BoardLayoutMode, { icon: string; label: string }> = {
+			masonry: { icon: 'layout-grid', label: 'masonry' },
+			kanban: { icon: 'kanban', label: 'kanban board' },
+			timeline: { icon: 'history', label: 'timeline' },
+			calendar: { icon: 'calendar-days', label: 'calendar' }
+		};
+		if (this.layoutButton) {
+			setIcon(this.layoutButton, layouts[mode].icon);
+			this.layoutButton.setAttribute('aria-label', `Layout: ${layouts[mode].label}`);
+		}
+		this.groupButton?.toggle(mode === 'masonry');
+		this.syncDensitySwitch();
+	}
+
+	private async setDensity(density: CardDensity) {
+		await this.plugin.updateBoard(this.boardId, { layout: { ...this.board.layout, density } }, false);
+		this.syncDensitySwitch();
+		await this.renderCards();
+	}
+
+	// The calendar shows no cards, so it has no density
+	private syncDensitySwitch() {
+		const { mode, density } = this.board.layout;
+		this.densitySwitch?.toggle(mode !== 'calendar');
+		this.densitySwitch?.querySelectorAll<HTMLElement>('.density-option').forEach(button => {
+			button.toggleClass('is-active', button.getAttribute('data-density') === density);
+		});
+	}
+
+	private async toggleGroup(groupKey: string) {
+		const { layout } = this.board;
+		const collapsedGroups = layout.collapsedGroups.includes(groupKey)
+			? layout.collapsedGroups.filter(key => key !== groupKey)
+			: [...layout.collapsedGroups, groupKey];
+		await this.plugin.updateBoard(this.boardId, { layout: { ...layout, collapsedGroups } }, false);
+		await this.updateCards([]);
+	}
+
+	private async setGroupBy(groupBy: GroupBy) {
+		await this.plugin.updateBoard(this.boardId, { layout: { ...this.board.layout, groupBy } }, false);
+		this.syncGroupButton();
+		await this.renderCards();
+	}
+
+	private syncGroupButton() {
+		const { groupBy } = this.board.layout;
+		const label = GROUP_BY_OPTIONS.find(option => option.value === groupBy)?.label ?? '';
+		this.groupButton?.toggleClass('active', groupBy !== 'none');
+		this.groupButton?.setAttribute('aria-label', groupBy === 'none' ? 'Group cards' : `Group by: ${label}`);
+	}
+
+	private showGroupMenu(e: MouseEvent) {
+		const menu = new Menu();
+		GROUP_BY_OPTIONS.forEach(option => {
+			menu.addItem((item) => {
+				item.setTitle(option.value === 'none' ? option.label : `Group by ${option.label.toLowerCase()}`)
+					.setChecked(this.board.layout.groupBy === option.value)
+					.onClick(() => {
+						void this.setGroupBy(option.value);
+					});
 			});
+		});
+		menu.showAtMouseEvent(e);
+	}
+
+	/**
+	 * Make a note belong to a group: re-tag it, move it to the folder or recolor it.
+	 * Notes can't be regrouped by file type or creation date.
+	 */
+	private async moveNoteToGroup(path: string, groupKey: string) {
+		const note = this.plugin.noteIndex.getNote(path);
+		const { groupBy } = this.board.layout;
+		if (!note || groupBy === 'none' || getGroupKey(note, groupBy) === groupKey) return;
+
+		const target = getGroupTarget(groupKey);
+		switch (target.kind) {
+			case 'tag':
+				if (note.file.extension !== 'md') {
+					new Notice('Only Markdown notes can be tagged.');
+					return;
+				}
+				if (target.tag) {
+					await this.plugin.retagNote(note.file, note.tags[0] ?? null, target.tag);
+					// Notes go under their first tag, so check the drop really made it the first one
+					const [firstTag] = extractTags(await this.app.vault.read(note.file));
+					if (firstTag?.toLowerCase() !== target.tag.toLowerCase()) {
+						new Notice(`${note.file.basename} is still listed under its first tag, which isn't ${formatTagForDisplay(target.tag)}.`);
+					}
+				} else {
+					// Notes are grouped by their first tag, so "No tags" takes all of them away
+					await this.plugin.removeNoteTags(note.file, note.tags);
+				}
+				break;
+			case 'folder':
+				await this.plugin.moveNoteToFolder(note.file, target.folder);
+				break;
+			case 'color':
+				await this.plugin.setNoteColor(path, target.color);
+				break;
+			case 'fixed':
+				new Notice('Cards can\'t be moved between file types or creation dates.');
+				break;
+		}
+	}
+
+	// Swap a card for a freshly built one, keeping its height to avoid a layout jump
+	private replaceCard(card: HTMLElement, note: IndexedNote, index: number): HTMLElement {
+		const fresh = this.createCard(note, index);
+		fresh.setCssProps({ '--card-measured-height': `${card.offsetHeight}px` });
+		this.cardVirtualizer?.unobserve(card);
+		card.replaceWith(fresh);
+		return fresh;
+	}
+
+	private removeCard(card: HTMLElement) {
+		this.cardVirtualizer?.unobserve(card);
+		card.remove();
+	}
+
+	// Create the card shell; its content is mounted by the virtualizer once it nears the viewport
+	createCard(note: IndexedNote, index: number): HTMLElement {
+		const file = note.file;
+		const card = document.createElement('div');
+		card.addClass('dashboard-card', 'card-unmounted', note.sizeClass);
+		card.setAttribute('data-path', file.path);
+		card.setAttribute('data-index', index.toString());
+		card.setAttribute('draggable', 'true');
+
+		// Check if pinned
+		if (this.plugin.isPinned(file.path)) {
+			card.addClass('card-pinned');
+		}
+
+		// Apply saved color if exists
+		if (note.color) {
+			card.style.backgroundColor = note.color;
+		}
+
+		// Resized cards span more columns or have their own height limit; expanded cards have none
+		const size = this.plugin.getCardSize(file.path);
+		if (size && size.columns > 1) {
+			card.setAttribute('data-columns', String(size.columns));
+		}
+		if (this.expandedCards.has(file.path)) {
+			card.addClass('card-expanded');
+		} else {
+			card.style.maxHeight = `${size?.maxHeight ?? MAX_CARD_HEIGHT}px`;
+		}
+		// Required to prevent card content from exceeding max height - dynamic styling needed per card
+		// eslint-disable-next-line obsidianmd/no-static-styles-assignment
+		card.style.overflow = 'hidden';
+
+		// Click handler to open the note
+		card.addEventListener('click', (e: MouseEvent) => {
+			// Don't open if clicking pin button or during drag
+			if ((e.target as HTMLElement).closest('.card-pin-btn')) return;
+			if (this.selection?.handleClick(e, file.path)) return;
+			const leaf = this.app.workspace.getLeaf('tab');
+			void leaf.openFile(file);
+		});
+
+		// Drag and drop handlers
+		card.addEventListener('dragstart', (e: DragEvent) => this.handleDragStart(e, card));
+		card.addEventListener('dragend', (e: DragEvent) => this.handleDragEnd(e, card));
+		card.addEventListener('dragover', (e: DragEvent) => this.handleDragOver(e, card));
+		card.addEventListener('drop', (e: DragEvent) => void this.handleDrop(e, card));
+
+		this.selection?.syncItem(card);
+		this.cardVirtualizer?.observe(card);
+		return card;
+	}
+
+	// Render buttons, preview and footer into a card shell
+	private async mountCardContent(card: HTMLElement) {
+		const path = card.getAttribute('data-path');
+		const note = path ? this.plugin.noteIndex.getNote(path) : undefined;
+		if (!note) return;
+
+		const file = note.file;
+
+		// Dense list rows only show the title, tags and date
+		if (this.board.layout.density === 'list') {
+			this.mountListRow(card, note);
+			return;
+		}
+
+		// Each card owns the components created by the markdown renderer so they can be unloaded with it
+		const component = new Component();
+		this.addChild(component);
+		this.cardComponents.set(card, component);
+
+		try {
+			// Get preview from the indexed content; expanded cards show the whole note
+			const expanded = this.expandedCards.has(file.path);
+			const previewLength = expanded ? note.body.length : Math.min(note.text.length, MAX_PREVIEW_LENGTH);
+			const previewText = getPreviewText(note.body, previewLength);
+			// Keep markdown formatting for rendering (tables, code blocks, etc.)
+			const markdownPreview = getMarkdownForPreview(note.body, previewLength);
+
+			this.createPinButton(card, file);
 
 			// Color button (shows on hover) next to pin
 			const colorBtn = card.createDiv({ cls: 'card-color-btn' });
 			setIcon(colorBtn, 'palette');
 			colorBtn.setAttribute('aria-label', 'Change note color');
 
-			// Create color palette dropdown using CSS variables
-			const pastelColors = [
-				'var(--pastel-pink)',     // Pink
-				'var(--pastel-peach)',    // Peach
-				'var(--pastel-yellow)',   // Yellow
-				'var(--pastel-green)',    // Green
-				'var(--pastel-blue)',     // Blue
-				'var(--pastel-purple)',   // Purple
-				'var(--pastel-magenta)',  // Magenta
-				'var(--pastel-gray)'      // Gray (remove color)
-			];
-
+			// Color palette dropdown using CSS variables; the gray circle at the end removes the color
 			const colorDropdown = card.createDiv({ cls: 'card-color-dropdown' });
 
-			pastelColors.forEach((color, index) => {
+			[...PASTEL_COLORS.map(option => option.color), null].forEach(color => {
 				const colorCircle = colorDropdown.createDiv({ cls: 'color-circle' });
-				colorCircle.style.backgroundColor = color;
+				colorCircle.style.backgroundColor = color ?? 'var(--pastel-gray)';
 
-				// Last color is for removing
-				if (index === pastelColors.length - 1) {
+				if (color) {
+					colorCircle.setAttribute('aria-label', 'Apply color');
+				} else {
 					colorCircle.addClass('color-circle-clear');
 					colorCircle.setAttribute('aria-label', 'Remove color');
-				} else {
-					colorCircle.setAttribute('aria-label', 'Apply color');
 				}
 
 				colorCircle.addEventListener('click', (e: MouseEvent) => {
 					e.stopPropagation();
 
 					void (async () => {
-						if (index === pastelColors.length - 1) {
+						if (!color) {
 							// Remove color - required to reset dynamically applied background color
 							// eslint-disable-next-line obsidianmd/no-static-styles-assignment
 							card.style.backgroundColor = '';
-							delete this.plugin.data.noteColors[file.path];
+							await this.plugin.setNoteColor(file.path, null);
 						} else {
 							// Apply color using CSS variable
 							card.style.backgroundColor = color;
 							// Store the CSS variable name so it adapts to theme changes
-							this.plugin.data.noteColors[file.path] = color;
+							await this.plugin.setNoteColor(file.path, color);
 						}
 
-						await this.plugin.savePluginData();
 						this.closeAllCardColorDropdowns();
 					})();
 				});
 			});
 
+			// Expand button (shows on hover) next to color
+			const expandBtn = card.createDiv({ cls: 'card-expand-btn' });
+			setIcon(expandBtn, expanded ? 'minimize-2' : 'maximize-2');
+			expandBtn.setAttribute('aria-label', expanded ? 'Collapse note' : 'Show whole note');
+			expandBtn.addEventListener('click', (e: MouseEvent) => {
+				e.stopPropagation();
+				this.toggleCardExpanded(card, note);
+			});
+
 			// Toggle dropdown on click - close others first
 			colorBtn.addEventListener('click', (e: MouseEvent) => {
 				e.stopPropagation();
@@ -816,11 +1851,7 @@ export class VisualDashboardView extends ItemView {
 
 			// Title with search highlighting
 			const title = cardHeader.createEl('h3', { cls: 'card-title' });
-			if (this.searchQuery && file.basename.toLowerCase().includes(this.searchQuery)) {
-				this.highlightText(title, file.basename, this.searchQuery);
-			} else {
-				title.textContent = file.basename;
-			}
+			this.highlightText(title, file.basename, this.getSearchRanges(note).title);
 			title.setAttribute('title', file.basename);
 
 			// Card content (preview) - render with Obsidian's markdown renderer
@@ -841,10 +1872,10 @@ export class VisualDashboardView extends ItemView {
 				const previewContainer = cardContent.createDiv({ cls: 'card-preview' });
 
 				// Apply search highlighting if there's a search query
-				if (this.searchQuery) {
+				if (this.parsedSearch.highlights.length > 0) {
 					// Render as text with highlighting for search results
-					const strippedContent = stripMarkdown(content).substring(0, MAX_PREVIEW_LENGTH);
-					this.highlightText(previewContainer, strippedContent, this.searchQuery);
+					const strippedContent = expanded ? note.text : note.text.substring(0, MAX_PREVIEW_LENGTH);
+					this.highlightText(previewContainer, strippedContent, this.getSearchRanges(note).text);
 					previewContainer.addClass('search-highlighted');
 				} else {
 					// Render markdown natively with Obsidian's renderer (preserves tables, code, etc.)
@@ -853,8 +1884,10 @@ export class VisualDashboardView extends ItemView {
 						markdownPreview,
 						previewContainer,
 						file.path,
-						this
+						component
 					);
+					// The card may have been scrolled away while the preview was rendering
+					if (this.cardComponents.get(card) !== component) return;
 				}
 			} else {
 				cardContent.createEl('p', {
@@ -867,41 +1900,143 @@ export class VisualDashboardView extends ItemView {
 			const cardFooter = card.createDiv({ cls: 'card-footer' });
 
 			// Tags on left
-			const tagsContainer = cardFooter.createDiv({ cls: 'card-tags' });
-			const tags = extractTags(content);
-			if (tags.length > 0) {
-				tags.slice(0, 3).forEach(tag => {
-					tagsContainer.createSpan({ cls: 'card-tag', text: formatTagForDisplay(tag) });
-				});
-				if (tags.length > 3) {
-					tagsContainer.createSpan({ cls: 'card-tag-more', text: `+${tags.length - 3}` });
-				}
-			}
+			this.renderCardTags(cardFooter.createDiv({ cls: 'card-tags' }), note.tags);
 
 			// Date on right
 			const dateSpan = cardFooter.createSpan({ cls: 'card-date' });
 			dateSpan.createSpan({ text: formatDate(file.stat.mtime) });
 
-			// Click handler to open the note
-			card.addEventListener('click', (e: MouseEvent) => {
-				// Don't open if clicking pin button or during drag
-				if ((e.target as HTMLElement).closest('.card-pin-btn')) return;
-				const leaf = this.app.workspace.getLeaf('tab');
-				void leaf.openFile(file);
+			this.createResizeHandle(card, file);
+		} catch (error) {
+			console.warn(`Failed to render card content for ${file.path}:`, error);
+		}
+	}
+
+	// One line of a dense list: pin button, title, tags and date
+	private mountListRow(card: HTMLElement, note: IndexedNote) {
+		const file = note.file;
+		this.createPinButton(card, file);
+
+		const title = card.createSpan({ cls: 'card-title' });
+		this.highlightText(title, file.basename, this.getSearchRanges(note).title);
+		title.setAttribute('title', file.basename);
+		this.renderCardTags(card.createSpan({ cls: 'card-tags' }), note.tags);
+		card.createSpan({ cls: 'card-date', text: formatDate(file.stat.mtime) });
+	}
+
+	private toggleCardExpanded(card: HTMLElement, note: IndexedNote) {
+		const path = note.file.path;
+		if (!this.expandedCards.delete(path)) {
+			this.expandedCards.add(path);
+		}
+		this.replaceCard(card, note, Number(card.getAttribute('data-index')));
+	}
+
+	/**
+	 * Corner handle for resizing a card: dragging sideways snaps its width to 1-3 masonry columns,
+	 * dragging up or down sets its height limit. Double-clicking gives the card its default size back.
+	 */
+	private createResizeHandle(card: HTMLElement, file: TFile) {
+		const handle = card.createDiv({ cls: 'card-resize-handle' });
+		handle.setAttribute('aria-label', 'Drag to resize, double-click to reset');
+		handle.addEventListener('click', (e: MouseEvent) => e.stopPropagation());
+		handle.addEventListener('dblclick', (e: MouseEvent) => {
+			e.stopPropagation();
+			void this.plugin.setCardSize(file.path, null);
+		});
+
+		handle.addEventListener('pointerdown', (e: PointerEvent) => {
+			// Keep the card from opening or starting a drag-and-drop
+			e.preventDefault();
+			e.stopPropagation();
+			const section = card.parentElement;
+			const column = section ? this.masonry?.getColumnWidth(section) ?? null : null;
+			const start = { x: e.clientX, y: e.clientY, width: card.offsetWidth, height: card.offsetHeight };
+			const startSize = this.plugin.getCardSize(file.path);
+			let columns = startSize?.columns ?? 1;
+			let maxHeight = startSize?.maxHeight ?? null;
+
+			card.setAttribute('draggable', 'false');
+			card.addClass('is-resizing');
+			handle.setPointerCapture(e.pointerId);
+
+			// Preview the new size while dragging
+			const onMove = (moveEvent: PointerEvent) => {
+				if (column && section) {
+					const width = start.width + moveEvent.clientX - start.x;
+					const span = Math.round((width + column.gap) / (column.width + column.gap));
+					columns = Math.min(Math.max(span, 1), MAX_CARD_SPAN);
+					card.setAttribute('data-columns', String(columns));
+					this.masonry?.requestLayout(section);
+				}
+				const deltaY = moveEvent.clientY - start.y;
+				if (Math.abs(deltaY) >= 4) {
+					maxHeight = Math.min(Math.max(Math.round(start.height + deltaY), CARD_HEIGHT_RANGE.MIN), CARD_HEIGHT_RANGE.MAX);
+					card.removeClass('card-expanded');
+					card.style.maxHeight = `${maxHeight}px`;
+				}
+			};
+			const onUp = () => {
+				handle.removeEventListener('pointermove', onMove);
+				handle.removeEventListener('pointerup', onUp);
+				handle.removeEventListener('pointercancel', onUp);
+				card.setAttribute('draggable', 'true');
+				card.removeClass('is-resizing');
+				// A new height replaces the expanded state
+				if (maxHeight !== (startSize?.maxHeight ?? null)) this.expandedCards.delete(file.path);
+				void this.plugin.setCardSize(file.path, columns > 1 || maxHeight !== null ? { columns, maxHeight } : null);
+			};
+			handle.addEventListener('pointermove', onMove);
+			handle.addEventListener('pointerup', onUp);
+			handle.addEventListener('pointercancel', onUp);
+		});
+	}
+
+	// Pin button (shows on hover)
+	private createPinButton(card: HTMLElement, file: TFile) {
+		const isPinned = this.plugin.isPinned(file.path);
+		const pinBtn = card.createDiv({ cls: 'card-pin-btn' + (isPinned ? ' pinned' : '') });
+		setIcon(pinBtn, 'pin');
+		pinBtn.setAttribute('aria-label', isPinned ? 'Unpin note' : 'Pin note');
+		pinBtn.addEventListener('click', (e: MouseEvent) => {
+			e.stopPropagation();
+			void this.plugin.togglePin(file.path).then(async (nowPinned) => {
+				pinBtn.classList.toggle('pinned', nowPinned);
+				card.classList.toggle('card-pinned', nowPinned);
+				// Move the card between the pinned and unpinned sections
+				await this.updateCards([file.path]);
 			});
+		});
+	}
 
-			// Drag and drop handlers
-			card.addEventListener('dragstart', (e: DragEvent) => this.handleDragStart(e, card));
-			card.addEventListener('dragend', (e: DragEvent) => this.handleDragEnd(e, card));
-			card.addEventListener('dragover', (e: DragEvent) => this.handleDragOver(e, card));
-			card.addEventListener('drop', (e: DragEvent) => void this.handleDrop(e, card));
-		} catch (error) {
-			console.warn(`Skipping card for ${file.path} due to error:`, error);
-			// Return null to skip this card entirely
-			return null;
+	// The first three tags, then a count of the rest
+	private renderCardTags(container: HTMLElement, tags: string[]) {
+		tags.slice(0, 3).forEach(tag => {
+			container.createSpan({ cls: 'card-tag', text: formatTagForDisplay(tag) });
+		});
+		if (tags.length > 3) {
+			container.createSpan({ cls: 'card-tag-more', text: `+${tags.length - 3}` });
 		}
+	}
 
-		return card;
+	private unmountCardContent(card: HTMLElement) {
+		const component = this.cardComponents.get(card);
+		if (component) {
+			this.removeChild(component);
+			this.cardComponents.delete(card);
+		}
+		if (this.activeCardColorDropdown && card.contains(this.activeCardColorDropdown)) {
+			this.activeCardColorDropdown = null;
+		}
+		card.empty();
+	}
+
+	// Unmount all cards before the grid is emptied
+	private resetCards() {
+		this.cardVirtualizer?.reset();
+		this.masonry?.reset();
+		this.cardComponents.forEach(component => this.removeChild(component));
+		this.cardComponents.clear();
 	}
 
 	// Card color dropdown management
@@ -991,40 +2126,72 @@ export class VisualDashboardView extends ItemView {
 
 		if (!draggedPath || !targetPath) return;
 
-		// Get current order
-		const currentOrder = this.currentFiles.map(f => f.path);
+		// Only notes shown on the board can be reordered against each other
+		const shownOrder = this.currentFiles.map(f => f.path);
+		if (!shownOrder.includes(draggedPath) || !shownOrder.includes(targetPath)) return;
+
+		// Dropping onto a card of another group or column moves the note there; its position in the
+		// order stays, since the order across sections isn't what the board shows
+		const targetSection = this.getCardSection(targetCard);
+		const draggedSection = this.getCardSection(this.draggedCard);
+		if (targetSection !== draggedSection) {
+			if (targetSection.startsWith('group:')) {
+				void this.moveNoteToGroup(draggedPath, targetSection.slice('group:'.length));
+			} else if (targetSection.startsWith('column:')) {
+				void this.moveNoteToColumn(draggedPath, draggedSection, targetSection);
+			}
+			return;
+		}
 
-		// Find indices
-		const draggedIndex = currentOrder.indexOf(draggedPath);
-		const targetIndex = currentOrder.indexOf(targetPath);
+		// Move the note next to its target in the full order, so hidden notes keep their places
+		const newOrder = moveInManualOrder(this.plugin.getOrderedPaths(), shownOrder, draggedPath, targetPath);
 
-		if (draggedIndex === -1 || targetIndex === -1) return;
+		// Reordering by hand switches the board to manual order, starting from what is shown
+		if (this.board.sort.field !== 'manual') {
+			void this.plugin.updateBoard(this.boardId, { sort: { field: 'manual', direction: 'asc' } }, false)
+				.then(() => this.syncSortButton());
+		}
 
-		// Reorder
-		currentOrder.splice(draggedIndex, 1);
-		currentOrder.splice(targetIndex, 0, draggedPath);
+		// Save new order and move the cards into place
+		void this.plugin.updateOrder(newOrder).then(() => this.updateCards([]));
+	}
 
-		// Save new order and re-render
-		void this.plugin.updateOrder(currentOrder).then(() => this.renderCards());
+	// Match ranges in the note's title and text, from the fuzzy scorer or the exact search terms
+	private getSearchRanges(note: IndexedNote): { title: MatchRange[]; text: MatchRange[] } {
+		if (this.fuzzyScorer) {
+			const match = this.fuzzyScorer.score(note);
+			return { title: match.titleRanges, text: match.textRanges };
+		}
+		const terms = this.parsedSearch.highlights;
+		return { title: findTermRanges(note.file.basename, terms), text: findTermRanges(note.text, terms) };
 	}
 
-	// Helper method to highlight search text
-	private highlightText(container: HTMLElement, text: string, query: string) {
-		const lowerText = text.toLowerCase();
-		const lowerQuery = query.toLowerCase();
+	// Helper method to wrap the given ranges of the text in highlight marks
+	private highlightText(container: HTMLElement, text: string, ranges: MatchRange[]) {
+		// Sort, clip to the (possibly truncated) text, and merge overlapping ranges
+		const sorted = ranges
+			.filter(([start, end]) => start < text.length && end > start)
+			.sort((a, b) => a[0] - b[0]);
+
 		let lastIndex = 0;
-		let matchIndex = lowerText.indexOf(lowerQuery);
+		let i = 0;
+		while (i < sorted.length) {
+			const start = Math.max(sorted[i]![0], lastIndex);
+			let end = Math.min(sorted[i]![1], text.length);
+			i++;
+			while (i < sorted.length && sorted[i]![0] <= end) {
+				end = Math.min(Math.max(end, sorted[i]![1]), text.length);
+				i++;
+			}
+			if (end <= start) continue;
 
-		while (matchIndex !== -1) {
 			// Add text before match
-			if (matchIndex > lastIndex) {
-				container.appendText(text.substring(lastIndex, matchIndex));
+			if (start > lastIndex) {
+				container.appendText(text.substring(lastIndex, start));
 			}
 			// Add highlighted match
-			const matchText = text.substring(matchIndex, matchIndex + query.length);
-			container.createEl('mark', { text: matchText, cls: 'search-highlight' });
-			lastIndex = matchIndex + query.length;
-			matchIndex = lowerText.indexOf(lowerQuery, lastIndex);
+			container.createEl('mark', { text: text.substring(start, end), cls: 'search-highlight' });
+			lastIndex = end;
 		}
 		// Add remaining text
 		if (lastIndex < text.length) {
@@ -1040,6 +2207,14 @@ export class VisualDashboardView extends ItemView {
 	}
 
 	async onClose() {
+		this.saveFilters.run();
+		this.cardVirtualizer?.destroy();
+		this.cardVirtualizer = null;
+		this.masonry?.destroy();
+		this.masonry = null;
+		this.selection = null;
+		this.bulkActionBar = null;
+
 		// Cancel any pending animation frame
 		if (this.dragFrameId !== null) {
 			window.cancelAnimationFrame(this.dragFrameId);
@@ -0,0 +1,85 @@
+import { App, Modal, Setting } from 'obsidian';
+import type { DateField, DateFilter } from '../types';
+import { DATE_FIELD_OPTIONS, parseDay } from '../utils/date-filter';
+
+/**
+ * Pick a custom date range for the date filter. Either end can be left open.
+ */
+export class DateRangeModal extends Modal {
+	private field: DateField;
+	private from: string;
+	private to: string;
+	private onSubmit: (filter: DateFilter) => void;
+
+	constructor(app: App, filter: DateFilter, onSubmit: (filter: DateFilter) => void) {
+		super(app);
+		this.field = filter.field;
+		this.from = filter.preset === 'custom' ? filter.from ?? '' : '';
+		this.to = filter.preset === 'custom' ? filter.to ?? '' : '';
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		this.setTitle('Custom date range');
+
+		new Setting(contentEl)
+			.setName('Date')
+			.addDropdown(dropdown => {
+				DATE_FIELD_OPTIONS.forEach(option => {
+					dropdown.addOption(option.value, option.label);
+				});
+				dropdown.setValue(this.field);
+				dropdown.onChange(value => {
+					this.field = value as DateField;
+				});
+			});
+
+		new Setting(contentEl)
+			.setName('From')
+			.setDesc('Leave empty for no start')
+			.addText(text => {
+				text.inputEl.type = 'date';
+				text.setValue(this.from).onChange(value => {
+					this.from = value;
+				});
+			});
+
+		new Setting(contentEl)
+			.setName('To')
+			.setDesc('Included; leave empty for no end')
+			.addText(text => {
+				text.inputEl.type = 'date';
+				text.setValue(this.to).onChange(value => {
+					this.to = value;
+				});
+			});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close())
+			)
+			.addButton(button => button
+				.setButtonText('Apply')
+				.setCta()
+				.onClick(() => this.submit())
+			);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private submit() {
+		let from = parseDay(this.from) ? this.from : null;
+		let to = parseDay(this.to) ? this.to : null;
+		if (!from && !to) return;
+		// Accept the ends in either order
+		if (from && to && from > to) {
+			[from, to] = [to, from];
+		}
+		this.close();
+		this.onSubmit({ field: this.field, preset: 'custom', from, to });
+	}
+}
@@ -0,0 +1,110 @@
+import { App, FuzzySuggestModal, Modal, Setting } from 'obsidian';
+import type { FilterPreset, SortOrder } from '../types';
+import { SORT_ORDER_OPTIONS, isSameSortOrder } from '../utils/note-sort';
+
+/**
+ * Name a filter preset and choose whether it also sets a sort order.
+ */
+export class FilterPresetModal extends Modal {
+	private name: string;
+	private sort: SortOrder | null;
+	private onSubmit: (name: string, sort: SortOrder | null) => Promise<void>;
+
+	constructor(app: App, name: string, sort: SortOrder | null, onSubmit: (name: string, sort: SortOrder | null) => Promise<void>) {
+		super(app);
+		this.name = name;
+		this.sort = sort;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		this.setTitle('Save filter preset');
+		contentEl.createEl('p', { text: 'Saves the current search and filters so you can switch back to them in one click.' });
+
+		new Setting(contentEl)
+			.setName('Name')
+			.addText(text => {
+				text.setPlaceholder('Work notes')
+					.setValue(this.name)
+					.onChange(value => {
+						this.name = value;
+					});
+				text.inputEl.addEventListener('keydown', (e: KeyboardEvent) => {
+					if (e.key === 'Enter') {
+						e.preventDefault();
+						void this.submit();
+					}
+				});
+				window.setTimeout(() => text.inputEl.focus(), 0);
+			});
+
+		new Setting(contentEl)
+			.setName('Sort order')
+			.setDesc('Applied together with the filters')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'Keep the current order');
+				SORT_ORDER_OPTIONS.forEach((option, index) => {
+					dropdown.addOption(String(index), option.label);
+				});
+
+				const sort = this.sort;
+				const selected = sort ? SORT_ORDER_OPTIONS.findIndex(option => isSameSortOrder(option.order, sort)) : -1;
+				dropdown.setValue(selected === -1 ? '' : String(selected));
+				dropdown.onChange(value => {
+					this.sort = value === '' ? null : SORT_ORDER_OPTIONS[Number(value)]?.order ?? null;
+				});
+			});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close())
+			)
+			.addButton(button => button
+				.setButtonText('Save')
+				.setCta()
+				.onClick(() => {
+					void this.submit();
+				})
+			);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private async submit() {
+		const name = this.name.trim();
+		if (!name) return;
+		this.close();
+		await this.onSubmit(name, this.sort);
+	}
+}
+
+/**
+ * Pick one of the saved filter presets to apply.
+ */
+export class FilterPresetSuggestModal extends FuzzySuggestModal<FilterPreset> {
+	private presets: FilterPreset[];
+	private onChoose: (preset: FilterPreset) => void;
+
+	constructor(app: App, presets: FilterPreset[], onChoose: (preset: FilterPreset) => void) {
+		super(app);
+		this.presets = presets;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Choose a filter preset');
+	}
+
+	getItems(): FilterPreset[] {
+		return this.presets;
+	}
+
+	getItemText(preset: FilterPreset): string {
+		return preset.name;
+	}
+
+	onChooseItem(preset: FilterPreset) {
+		this.onChoose(preset);
+	}
+}
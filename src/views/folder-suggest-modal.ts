@@ -0,0 +1,26 @@
+import { App, FuzzySuggestModal, TFolder } from 'obsidian';
+
+/**
+ * Pick a folder of the vault, e.g. to move notes into.
+ */
+export class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+	private onChoose: (folder: TFolder) => void;
+
+	constructor(app: App, onChoose: (folder: TFolder) => void) {
+		super(app);
+		this.onChoose = onChoose;
+		this.setPlaceholder('Choose a folder');
+	}
+
+	getItems(): TFolder[] {
+		return this.app.vault.getAllLoadedFiles().filter((file): file is TFolder => file instanceof TFolder);
+	}
+
+	getItemText(folder: TFolder): string {
+		return folder.isRoot() ? '/' : folder.path;
+	}
+
+	onChooseItem(folder: TFolder) {
+		this.onChoose(folder);
+	}
+}
@@ -0,0 +1,111 @@
+import { setIcon } from 'obsidian';
+import type { FolderFilter } from '../types';
+import { buildFolderTree, FolderTreeNode, getFolderState, isFolderFilterActive, setFolderState } from '../utils/folder-filter';
+
+export interface FolderTreePickerOptions {
+	getFolders: () => string[];
+	// Notes directly inside each folder, under the view's other filters
+	getCounts: () => Map<string, number>;
+	getFilter: () => FolderFilter;
+	onChange: (filter: FolderFilter) => void;
+}
+
+/**
+ * Collapsible folder tree for filtering: click a folder to show it (several can be picked),
+ * or hide it for now with the eye button. Each folder shows how many notes it would add.
+ */
+export class FolderTreePicker {
+	private containerEl: HTMLElement;
+	private options: FolderTreePickerOptions;
+	private expanded = new Set<string>();
+
+	constructor(containerEl: HTMLElement, options: FolderTreePickerOptions) {
+		this.containerEl = containerEl;
+		this.options = options;
+	}
+
+	render() {
+		const { containerEl } = this;
+		containerEl.empty();
+		containerEl.addClass('folder-tree');
+
+		const filter = this.options.getFilter();
+		// Keep picked folders visible
+		[...filter.include, ...filter.exclude].forEach(folder => this.expandAncestors(folder));
+
+		const counts = this.options.getCounts();
+		let total = 0;
+		counts.forEach(count => total += count);
+
+		const allItem = containerEl.createDiv({ cls: 'filter-dropdown-item folder-tree-all' });
+		allItem.createSpan({ cls: 'folder-tree-name', text: 'All folders' });
+		allItem.createSpan({ cls: 'folder-tree-count', text: String(total) });
+		allItem.toggleClass('is-selected', !isFolderFilterActive(filter));
+		allItem.addEventListener('click', (e: MouseEvent) => {
+			e.stopPropagation();
+			this.options.onChange({ include: [], exclude: [] });
+			this.render();
+		});
+
+		const tree = buildFolderTree(this.options.getFolders(), counts);
+		tree.forEach(node => this.renderNode(containerEl, node, 0, filter));
+	}
+
+	private renderNode(parentEl: HTMLElement, node: FolderTreeNode, depth: number, filter: FolderFilter) {
+		const state = getFolderState(filter, node.path);
+		const row = parentEl.createDiv({ cls: 'filter-dropdown-item folder-tree-row' });
+		row.setCssProps({ '--folder-depth': String(depth) });
+		row.toggleClass('is-included', state === 'include');
+		row.toggleClass('is-excluded', state === 'exclude');
+		row.toggleClass('is-empty', node.count === 0);
+
+		const toggle = row.createSpan({ cls: 'folder-tree-toggle' });
+		if (node.children.length > 0) {
+			const isExpanded = this.expanded.has(node.path);
+			setIcon(toggle, isExpanded ? 'chevron-down' : 'chevron-right');
+			toggle.addEventListener('click', (e: MouseEvent) => {
+				e.stopPropagation();
+				if (isExpanded) {
+					this.expanded.delete(node.path);
+				} else {
+					this.expanded.add(node.path);
+				}
+				this.render();
+			});
+		}
+
+		row.createSpan({ cls: 'folder-tree-name', text: node.path === '/' ? 'Vault root' : node.name });
+		row.createSpan({ cls: 'folder-tree-count', text: String(node.count) });
+
+		const excludeBtn = row.createSpan({ cls: 'folder-tree-exclude' });
+		setIcon(excludeBtn, state === 'exclude' ? 'eye' : 'eye-off');
+		excludeBtn.setAttribute('aria-label', state === 'exclude' ? 'Show this folder again' : 'Hide this folder for now');
+		excludeBtn.addEventListener('click', (e: MouseEvent) => {
+			e.stopPropagation();
+			this.change(setFolderState(this.options.getFilter(), node.path, state === 'exclude' ? null : 'exclude'));
+		});
+
+		row.addEventListener('click', (e: MouseEvent) => {
+			e.stopPropagation();
+			this.change(setFolderState(this.options.getFilter(), node.path, state === 'include' ? null : 'include'));
+		});
+
+		if (node.children.length > 0 && this.expanded.has(node.path)) {
+			node.children.forEach(child => this.renderNode(parentEl, child, depth + 1, filter));
+		}
+	}
+
+	private change(filter: FolderFilter) {
+		this.options.onChange(filter);
+		this.render();
+	}
+
+	private expandAncestors(folder: string) {
+		let separator = folder.lastIndexOf('/');
+		while (separator > 0) {
+			folder = folder.slice(0, separator);
+			this.expanded.add(folder);
+			separator = folder.lastIndexOf('/');
+		}
+	}
+}
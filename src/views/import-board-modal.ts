@@ -0,0 +1,96 @@
+import { App, FuzzySuggestModal, Modal, Setting, TFile } from 'obsidian';
+import type { ImportPreview } from '../services/board-transfer';
+
+/**
+ * Pick a JSON file in the vault to import a board from.
+ */
+export class BoardFileSuggestModal extends FuzzySuggestModal<TFile> {
+	private onChoose: (file: TFile) => void;
+
+	constructor(app: App, onChoose: (file: TFile) => void) {
+		super(app);
+		this.onChoose = onChoose;
+		this.setPlaceholder('Choose a board export to import');
+	}
+
+	getItems(): TFile[] {
+		return this.app.vault.getFiles()
+			.filter(file => file.extension === 'json' && !file.path.startsWith(this.app.vault.configDir + '/'))
+			.sort((a, b) => b.stat.mtime - a.stat.mtime);
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile) {
+		this.onChoose(file);
+	}
+}
+
+/**
+ * Shows what importing a board will change, and which parts conflict with the current state.
+ */
+export class ImportBoardModal extends Modal {
+	private preview: ImportPreview;
+	private onConfirm: () => Promise<void>;
+
+	constructor(app: App, preview: ImportPreview, onConfirm: () => Promise<void>) {
+		super(app);
+		this.preview = preview;
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		const { board, targetName, createsBoard, matched, missing, conflicts } = this.preview;
+		this.setTitle('Import board');
+
+		contentEl.createEl('p', {
+			text: createsBoard
+				? `Creates the board "${targetName}" with the imported settings.`
+				: `Replaces the settings of the board "${targetName}".`
+		});
+
+		const pinCount = board.pinnedNotes.length;
+		const colorCount = Object.keys(board.noteColors).length;
+		contentEl.createEl('p', {
+			text: `${pinCount} pin${pinCount !== 1 ? 's' : ''}, ${colorCount} color${colorCount !== 1 ? 's' : ''} and the order of ${board.noteOrder.length} note${board.noteOrder.length !== 1 ? 's' : ''}. ${matched} of the notes were found in this vault.`
+		});
+
+		if (conflicts.length > 0) {
+			contentEl.createEl('h4', { text: `Conflicts with the current board (${conflicts.length})` });
+			const list = contentEl.createEl('ul', { cls: 'mini-notes-modal-list' });
+			conflicts.forEach(({ path, description }) => {
+				list.createEl('li', { text: path ? `${path}: ${description}` : description });
+			});
+		}
+
+		if (missing.length > 0) {
+			contentEl.createEl('h4', { text: `Not found, will be skipped (${missing.length})` });
+			const list = contentEl.createEl('ul', { cls: 'mini-notes-modal-list' });
+			missing.forEach(path => {
+				list.createEl('li', { text: path });
+			});
+		}
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close())
+			)
+			.addButton(button => button
+				.setButtonText('Import')
+				.setCta()
+				.onClick(async () => {
+					button.setDisabled(true);
+					await this.onConfirm();
+					this.close();
+				})
+			);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,89 @@
+import { App, Modal, Setting } from 'obsidian';
+import type { KanbanConfig } from '../types';
+
+/**
+ * Choose where the kanban columns of a board come from.
+ */
+export class KanbanSettingsModal extends Modal {
+	private config: KanbanConfig;
+	private onSubmit: (config: KanbanConfig) => Promise<void>;
+
+	constructor(app: App, config: KanbanConfig, onSubmit: (config: KanbanConfig) => Promise<void>) {
+		super(app);
+		this.config = { ...config, columns: [...config.columns] };
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		this.setTitle('Kanban columns');
+		this.render();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private render() {
+		const { contentEl, config } = this;
+		contentEl.empty();
+
+		new Setting(contentEl)
+			.setName('Columns from')
+			.addDropdown(dropdown => dropdown
+				.addOption('property', 'A frontmatter property')
+				.addOption('tags', 'A list of tags')
+				.setValue(config.source)
+				.onChange(value => {
+					config.source = value === 'tags' ? 'tags' : 'property';
+					this.render();
+				})
+			);
+
+		if (config.source === 'property') {
+			new Setting(contentEl)
+				.setName('Property')
+				.setDesc('Each value becomes a column; dragging a card to another column sets the property')
+				.addText(text => text
+					.setPlaceholder('Status')
+					.setValue(config.property)
+					.onChange(value => {
+						config.property = value.trim();
+					})
+				);
+		}
+
+		new Setting(contentEl)
+			.setName(config.source === 'property' ? 'Column order' : 'Tags')
+			.setDesc(config.source === 'property'
+				? 'Comma-separated values that always get a column, in this order, e.g. todo, doing, done. Other values are added after them.'
+				: 'Comma-separated tags, one column each, e.g. #todo, #doing, #done. Dragging a card to another column swaps the tag.')
+			.addText(text => text
+				.setPlaceholder(config.source === 'property' ? 'Todo, doing, done' : '#todo, #doing, #done')
+				.setValue(config.columns.join(', '))
+				.onChange(value => {
+					config.columns = value.split(',').map(column => column.trim()).filter(column => column !== '');
+				})
+			);
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close())
+			)
+			.addButton(button => button
+				.setButtonText('Save')
+				.setCta()
+				.onClick(() => {
+					void this.submit();
+				})
+			);
+	}
+
+	private async submit() {
+		const { config } = this;
+		if (config.source === 'property' && !config.property) return;
+		if (config.source === 'tags' && config.columns.length === 0) return;
+		this.close();
+		await this.onSubmit(config);
+	}
+}
@@ -0,0 +1,197 @@
+export interface MasonryOptions {
+	// Fixed number of columns, or 0 to fit as many as `minColumnWidth` allows
+	columnCount: number;
+	minColumnWidth: number;
+	gap: number;
+}
+
+// Where a card was placed, relative to its section
+interface Placement {
+	card: HTMLElement;
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+/**
+ * Lays out the cards of each observed section left to right, each into the currently shortest
+ * column, so the visual order follows the DOM order. Cards with a `data-columns` attribute span
+ * that many columns. Cards are positioned absolutely through CSS variables; sections re-layout
+ * when their width, their cards' heights or their children change.
+ */
+export class MasonryLayout {
+	private options: MasonryOptions;
+	private resizeObserver: ResizeObserver;
+	private mutationObserver: MutationObserver;
+	private sections = new Set<HTMLElement>();
+	private sectionWidths = new Map<HTMLElement, number>();
+	private columnWidths = new Map<HTMLElement, number>();
+	private placements = new Map<HTMLElement, Placement[]>();
+	// Cards that have a position, so only moves are animated and new cards appear in place
+	private placedCards = new WeakSet<HTMLElement>();
+	private dirty = new Set<HTMLElement>();
+	private frameId: number | null = null;
+
+	constructor(options: MasonryOptions) {
+		this.options = options;
+		this.resizeObserver = new ResizeObserver((entries) => this.handleResize(entries));
+		this.mutationObserver = new MutationObserver((records) => this.handleMutations(records));
+	}
+
+	setOptions(options: MasonryOptions) {
+		const changed = options.columnCount !== this.options.columnCount
+			|| options.minColumnWidth !== this.options.minColumnWidth
+			|| options.gap !== this.options.gap;
+		this.options = options;
+		if (changed) this.sections.forEach(section => this.requestLayout(section));
+	}
+
+	observe(section: HTMLElement) {
+		this.sections.add(section);
+		this.resizeObserver.observe(section);
+		this.mutationObserver.observe(section, { childList: true });
+		this.getCards(section).forEach(card => this.resizeObserver.observe(card));
+		this.layout(section);
+	}
+
+	// Forget every section (before the grid is emptied)
+	reset() {
+		if (this.frameId !== null) {
+			window.cancelAnimationFrame(this.frameId);
+			this.frameId = null;
+		}
+		this.resizeObserver.disconnect();
+		this.mutationObserver.disconnect();
+		this.sections.clear();
+		this.sectionWidths.clear();
+		this.columnWidths.clear();
+		this.placements.clear();
+		this.dirty.clear();
+	}
+
+	destroy() {
+		this.reset();
+	}
+
+	// Width of one column of a laid out section, and the gap after it
+	getColumnWidth(section: HTMLElement): { width: number; gap: number } | null {
+		const width = this.columnWidths.get(section);
+		return width === undefined ? null : { width, gap: this.options.gap };
+	}
+
+	/**
+	 * The card a pointer at the given client position points at: the first card in the column
+	 * under the pointer that ends below it, or the last card of that column.
+	 */
+	getCardAt(section: HTMLElement, clientX: number, clientY: number): HTMLElement | null {
+		const placements = this.placements.get(section);
+		if (!placements || placements.length === 0) return null;
+		const rect = section.getBoundingClientRect();
+		const x = clientX - rect.left;
+		const y = clientY - rect.top;
+
+		const inColumn = placements.filter(placement => x >= placement.x && x < placement.x + placement.width);
+		const candidates = inColumn.length > 0 ? inColumn : placements;
+		return (candidates.find(placement => y < placement.y + placement.height) ?? candidates[candidates.length - 1])!.card;
+	}
+
+	private getCards(section: HTMLElement): HTMLElement[] {
+		return Array.from(section.children).filter((el): el is HTMLElement => el instanceof HTMLElement && el.hasClass('dashboard-card'));
+	}
+
+	private handleResize(entries: ResizeObserverEntry[]) {
+		for (const entry of entries) {
+			const target = entry.target as HTMLElement;
+			if (this.sections.has(target)) {
+				// Sections grow with their cards; only a new width changes the columns
+				if (this.sectionWidths.get(target) !== target.clientWidth) this.requestLayout(target);
+			} else if (target.parentElement && this.sections.has(target.parentElement)) {
+				this.requestLayout(target.parentElement);
+			}
+		}
+	}
+
+	private handleMutations(records: MutationRecord[]) {
+		for (const record of records) {
+			record.addedNodes.forEach(node => {
+				if (node instanceof HTMLElement) this.resizeObserver.observe(node);
+			});
+			record.removedNodes.forEach(node => {
+				if (node instanceof HTMLElement) this.resizeObserver.unobserve(node);
+			});
+			if (record.target instanceof HTMLElement) this.requestLayout(record.target);
+		}
+	}
+
+	// Lay out a section again in the next frame, e.g. after a card's `data-columns` changed
+	requestLayout(section: HTMLElement) {
+		this.dirty.add(section);
+		if (this.frameId !== null) return;
+		this.frameId = window.requestAnimationFrame(() => {
+			this.frameId = null;
+			const sections = Array.from(this.dirty);
+			this.dirty.clear();
+			sections.forEach(dirtySection => {
+				if (this.sections.has(dirtySection) && dirtySection.isConnected) this.layout(dirtySection);
+			});
+		});
+	}
+
+	private layout(section: HTMLElement) {
+		const { gap, columnCount, minColumnWidth } = this.options;
+		const width = section.clientWidth;
+		this.sectionWidths.set(section, width);
+		const columns = columnCount > 0
+			? columnCount
+			: Math.max(1, Math.floor((width + gap) / (minColumnWidth + gap)));
+		const columnWidth = Math.max(0, (width - gap * (columns - 1)) / columns);
+		this.columnWidths.set(section, columnWidth);
+
+		// Set the widths first so the heights read below are final
+		const cards = this.getCards(section);
+		const spans = cards.map(card => Math.min(Math.max(Number(card.getAttribute('data-columns')) || 1, 1), columns));
+		cards.forEach((card, i) => {
+			card.setCssProps({ '--masonry-width': `${spans[i]! * columnWidth + (spans[i]! - 1) * gap}px` });
+		});
+		const heights = cards.map(card => card.offsetHeight);
+
+		const columnHeights = new Array<number>(columns).fill(0);
+		const placements: Placement[] = [];
+		cards.forEach((card, i) => {
+			// The columns whose highest bottom is lowest; the leftmost ones on ties
+			const span = spans[i]!;
+			let column = 0;
+			let top = Infinity;
+			for (let c = 0; c + span <= columns; c++) {
+				const bottom = Math.max(...columnHeights.slice(c, c + span));
+				if (bottom < top) {
+					top = bottom;
+					column = c;
+				}
+			}
+			const placement: Placement = {
+				card,
+				x: column * (columnWidth + gap),
+				y: top,
+				width: span * columnWidth + (span - 1) * gap,
+				height: heights[i]!
+			};
+			placements.push(placement);
+			columnHeights.fill(top + placement.height + gap, column, column + span);
+
+			const isNew = !this.placedCards.has(card);
+			card.toggleClass('masonry-instant', isNew);
+			card.setCssProps({ '--masonry-x': `${placement.x}px`, '--masonry-y': `${placement.y}px` });
+			this.placedCards.add(card);
+		});
+
+		this.placements.set(section, placements);
+		section.setCssProps({ '--masonry-height': `${Math.max(0, Math.max(...columnHeights) - gap)}px` });
+
+		// Let moved cards animate again once the new ones are in place
+		window.requestAnimationFrame(() => {
+			cards.forEach(card => card.removeClass('masonry-instant'));
+		});
+	}
+}
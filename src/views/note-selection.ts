@@ -0,0 +1,140 @@
+import { Keymap } from 'obsidian';
+
+export interface NoteSelectionOptions {
+	// Holds the selectable items; dragging on its empty space draws a lasso
+	container: HTMLElement;
+	// Matches the items, which carry their note's path in `data-path`
+	itemSelector: string;
+	// Paths in display order, for Shift-click ranges
+	getOrder: () => string[];
+	onChange: (paths: string[]) => void;
+}
+
+// Pointer travel in pixels before a press on empty space becomes a lasso
+const LASSO_THRESHOLD_PX = 4;
+
+/**
+ * Selected notes of a view: Ctrl/Cmd-click toggles an item, Shift-click selects the range from
+ * the last clicked item, and dragging on empty space selects every item the lasso touches
+ * (adding to the selection while Shift or Ctrl/Cmd is held). Selected items get `is-selected`.
+ */
+export class NoteSelection {
+	private options: NoteSelectionOptions;
+	private selected = new Set<string>();
+	// Where Shift-click ranges start
+	private anchor: string | null = null;
+
+	constructor(options: NoteSelectionOptions) {
+		this.options = options;
+		options.container.addEventListener('mousedown', (e: MouseEvent) => this.startLasso(e));
+	}
+
+	get size(): number {
+		return this.selected.size;
+	}
+
+	getPaths(): string[] {
+		return this.options.getOrder().filter(path => this.selected.has(path));
+	}
+
+	has(path: string): boolean {
+		return this.selected.has(path);
+	}
+
+	/**
+	 * Select with a modifier click. Returns false for plain clicks, which the caller handles itself.
+	 */
+	handleClick(e: MouseEvent, path: string): boolean {
+		if (e.shiftKey && this.anchor) {
+			const order = this.options.getOrder();
+			const from = order.indexOf(this.anchor);
+			const to = order.indexOf(path);
+			if (from > -1 && to > -1) {
+				order.slice(Math.min(from, to), Math.max(from, to) + 1).forEach(item => this.selected.add(item));
+				this.update();
+				return true;
+			}
+		}
+		if (e.shiftKey || Keymap.isModEvent(e)) {
+			if (!this.selected.delete(path)) {
+				this.selected.add(path);
+			}
+			this.anchor = path;
+			this.update();
+			return true;
+		}
+		return false;
+	}
+
+	clear() {
+		if (this.selected.size === 0) return;
+		this.selected.clear();
+		this.anchor = null;
+		this.update();
+	}
+
+	// Forget selected notes that are no longer shown
+	retain(paths: Iterable<string>) {
+		const shown = new Set(paths);
+		const before = this.selected.size;
+		this.selected.forEach(path => {
+			if (!shown.has(path)) this.selected.delete(path);
+		});
+		if (this.selected.size !== before) this.update();
+	}
+
+	// Mark an item that was just created
+	syncItem(item: HTMLElement) {
+		item.toggleClass('is-selected', this.selected.has(item.getAttribute('data-path') ?? ''));
+	}
+
+	private update() {
+		this.options.container.querySelectorAll<HTMLElement>(this.options.itemSelector).forEach(item => this.syncItem(item));
+		this.options.onChange(this.getPaths());
+	}
+
+	private startLasso(e: MouseEvent) {
+		const target = e.target as HTMLElement;
+		if (e.button !== 0 || target.closest(this.options.itemSelector) || target.closest('input, textarea, button, [contenteditable="true"]')) return;
+
+		const doc = this.options.container.ownerDocument;
+		const additive = e.shiftKey || Keymap.isModEvent(e);
+		const initial = additive ? new Set(this.selected) : new Set<string>();
+		const start = { x: e.clientX, y: e.clientY };
+		let lasso: HTMLElement | null = null;
+
+		const onMove = (moveEvent: MouseEvent) => {
+			const left = Math.min(start.x, moveEvent.clientX);
+			const top = Math.min(start.y, moveEvent.clientY);
+			const width = Math.abs(moveEvent.clientX - start.x);
+			const height = Math.abs(moveEvent.clientY - start.y);
+			if (!lasso) {
+				if (width < LASSO_THRESHOLD_PX && height < LASSO_THRESHOLD_PX) return;
+				lasso = doc.body.createDiv({ cls: 'mini-notes-lasso' });
+			}
+			moveEvent.preventDefault();
+			lasso.setCssProps({ left: `${left}px`, top: `${top}px`, width: `${width}px`, height: `${height}px` });
+
+			this.selected = new Set(initial);
+			this.options.container.querySelectorAll<HTMLElement>(this.options.itemSelector).forEach(item => {
+				const rect = item.getBoundingClientRect();
+				const touches = rect.right > left && rect.left < left + width && rect.bottom > top && rect.top < top + height;
+				const path = item.getAttribute('data-path');
+				if (touches && path) this.selected.add(path);
+			});
+			this.update();
+		};
+		const onUp = () => {
+			doc.removeEventListener('mousemove', onMove);
+			doc.removeEventListener('mouseup', onUp);
+			if (lasso) {
+				lasso.remove();
+			} else if (!additive) {
+				// A plain click on empty space clears the selection
+				this.clear();
+			}
+		};
+		doc.addEventListener('mousemove', onMove);
+		doc.addEventListener('mouseup', onUp);
+	}
+}
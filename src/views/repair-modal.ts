@@ -0,0 +1,61 @@
+import { App, Modal, Setting } from 'obsidian';
+import type { RepairReport } from '../services/data-repair';
+
+/**
+ * Shows the orphaned paths found in plugin data and what cleaning up will do with each one.
+ */
+export class RepairDataModal extends Modal {
+	private report: RepairReport;
+	private onConfirm: () => Promise<void>;
+
+	constructor(app: App, report: RepairReport, onConfirm: () => Promise<void>) {
+		super(app);
+		this.report = report;
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		const { orphans, rematched, removed } = this.report;
+		this.setTitle('Clean up mini notes data');
+
+		contentEl.createEl('p', {
+			text: `Found ${orphans.length} stored path${orphans.length !== 1 ? 's' : ''} that no longer point at a file.`
+		});
+
+		if (rematched.length > 0) {
+			contentEl.createEl('h4', { text: `Re-matched to moved files (${rematched.length})` });
+			const list = contentEl.createEl('ul', { cls: 'mini-notes-modal-list' });
+			rematched.forEach(({ oldPath, newPath }) => {
+				list.createEl('li', { text: `${oldPath} → ${newPath}` });
+			});
+		}
+
+		if (removed.length > 0) {
+			contentEl.createEl('h4', { text: `To be removed (${removed.length})` });
+			const list = contentEl.createEl('ul', { cls: 'mini-notes-modal-list' });
+			removed.forEach(path => {
+				list.createEl('li', { text: path });
+			});
+		}
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close())
+			)
+			.addButton(button => button
+				.setButtonText('Clean up')
+				.setCta()
+				.onClick(async () => {
+					button.setDisabled(true);
+					await this.onConfirm();
+					this.close();
+				})
+			);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
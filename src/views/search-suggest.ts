@@ -0,0 +1,112 @@
+import { AbstractInputSuggest, App } from 'obsidian';
+import { PASTEL_COLORS } from '../constants';
+import { SEARCH_FILTER_KEYS, SEARCH_IS_VALUES } from '../utils/search-query';
+
+export interface SearchSuggestSource {
+	getTags: () => string[];
+	getFolders: () => string[];
+}
+
+interface SearchSuggestion {
+	// Replaces the word being typed
+	text: string;
+	// Shown next to the suggestion, e.g. "tag"
+	hint: string;
+}
+
+const MAX_SUGGESTIONS = 20;
+
+/**
+ * Autocompletes filter keys, tags, folders, colors and states in a search box,
+ * based on the word under the cursor.
+ */
+export class SearchQuerySuggest extends AbstractInputSuggest<SearchSuggestion> {
+	private inputEl: HTMLInputElement;
+	private source: SearchSuggestSource;
+
+	constructor(app: App, inputEl: HTMLInputElement, source: SearchSuggestSource) {
+		super(app, inputEl);
+		this.inputEl = inputEl;
+		this.source = source;
+	}
+
+	protected getSuggestions(): SearchSuggestion[] {
+		const { word } = this.getCurrentWord();
+		const negation = word.startsWith('-') ? '-' : '';
+		const bare = word.slice(negation.length);
+		const separator = bare.indexOf(':');
+
+		let suggestions: SearchSuggestion[];
+		if (bare.startsWith('#')) {
+			suggestions = this.matchValues('tag', this.source.getTags(), bare, negation + 'tag:');
+		} else if (separator === -1) {
+			if (!bare) return [];
+			suggestions = SEARCH_FILTER_KEYS
+				.filter(key => key.startsWith(bare.toLowerCase()) && key !== bare.toLowerCase())
+				.map(key => ({ text: `${negation}${key}:`, hint: 'filter' }));
+		} else {
+			const key = bare.slice(0, separator).toLowerCase();
+			const value = bare.slice(separator + 1);
+			const prefix = `${negation}${key}:`;
+			switch (key) {
+				case 'tag':
+					suggestions = this.matchValues(key, this.source.getTags(), value, prefix);
+					break;
+				case 'folder':
+					suggestions = this.matchValues(key, this.source.getFolders().filter(folder => folder !== '/'), value, prefix);
+					break;
+				case 'color':
+					suggestions = this.matchValues(key, [...PASTEL_COLORS.map(option => option.name.toLowerCase()), 'none'], value, prefix);
+					break;
+				case 'is':
+					suggestions = this.matchValues(key, [...SEARCH_IS_VALUES], value, prefix);
+					break;
+				default:
+					suggestions = [];
+			}
+		}
+		return suggestions.slice(0, MAX_SUGGESTIONS);
+	}
+
+	renderSuggestion(suggestion: SearchSuggestion, el: HTMLElement) {
+		el.addClass('mini-notes-search-suggestion');
+		el.createSpan({ text: suggestion.text });
+		el.createSpan({ text: suggestion.hint, cls: 'mini-notes-search-suggestion-hint' });
+	}
+
+	selectSuggestion(suggestion: SearchSuggestion) {
+		const { start, end } = this.getCurrentWord();
+		const value = this.inputEl.value;
+		// Finished values get a trailing space; a bare filter key keeps the cursor after the colon
+		const insert = suggestion.text.endsWith(':') ? suggestion.text : suggestion.text + ' ';
+		this.setValue(value.slice(0, start) + insert + value.slice(end).replace(/^\s+/, ''));
+
+		const cursor = start + insert.length;
+		this.inputEl.setSelectionRange(cursor, cursor);
+		// Let the view pick up the new query
+		this.inputEl.dispatchEvent(new Event('input'));
+
+		if (!suggestion.text.endsWith(':')) {
+			this.close();
+		}
+	}
+
+	// Values containing spaces are quoted so they stay one word
+	private matchValues(hint: string, values: string[], typed: string, prefix: string): SearchSuggestion[] {
+		const needle = typed.replace(/^"/, '').toLowerCase();
+		return values
+			.filter(value => value.toLowerCase().includes(needle) && value.toLowerCase() !== needle)
+			.map(value => ({ text: prefix + (/\s/.test(value) ? `"${value}"` : value), hint }));
+	}
+
+	// The word the cursor is in, with its position in the input
+	private getCurrentWord(): { word: string; start: number; end: number } {
+		const value = this.inputEl.value;
+		const cursor = this.inputEl.selectionStart ?? value.length;
+		const before = value.slice(0, cursor);
+		const start = Math.max(before.lastIndexOf(' '), before.lastIndexOf('(')) + 1;
+		const afterMatch = value.slice(cursor).match(/^[^\s)]*/);
+		const end = cursor + (afterMatch ? afterMatch[0].length : 0);
+		return { word: value.slice(start, end), start, end };
+	}
+}
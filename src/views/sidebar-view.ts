@@ -1,28 +1,66 @@
-import { ItemView, TFile, WorkspaceLeaf, setIcon, MarkdownRenderer, Menu } from 'obsidian';
+import { ItemView, WorkspaceLeaf, setIcon, MarkdownRenderer, Menu, Component, Scope } from 'obsidian';
 import type VisualDashboardPlugin from '../main';
-import { VIEW_TYPE_SIDEBAR } from '../types';
-import { extractTags, stripMarkdown, getMarkdownForPreview, formatTagForDisplay, tagMatchesFilter, isFileInFolderOrSubfolder } from '../utils/markdown';
+import { VIEW_TYPE_SIDEBAR, FilterPreset, DEFAULT_BOARD_FILTERS, BoardFilters, TagFilter, FolderFilter, DateFilter } from '../types';
+import { getMarkdownForPreview, formatTagForDisplay } from '../utils/markdown';
 import { formatDate } from '../utils/date';
-import { DEBOUNCE_REFRESH_MS } from '../constants';
+import { DEBOUNCE_REFRESH_MS, PASTEL_COLORS } from '../constants';
 import { QuickNoteBar } from './quick-note-bar';
+import { NoteSelection } from './note-selection';
+import { BulkActionBar } from './bulk-action-bar';
+import type { IndexedNote, NoteIndexChange } from '../services/note-index';
+import { registerHistoryHotkeys } from '../services/action-history';
+import { SearchQuerySuggest } from './search-suggest';
+import { ParsedSearchQuery, parseSearchQuery, matchesSearchQuery, findTermRanges, SearchContext } from '../utils/search-query';
+import { FuzzyNoteScorer, MatchRange } from '../utils/fuzzy-search';
+import { createNoteComparator, describeSortOrder } from '../utils/note-sort';
+import { showSortMenu } from './sort-menu';
+import { cycleTagState, getTagState, isTagFilterActive, matchesTagFilter, setTagState } from '../utils/tag-filter';
+import { countNotesByFolder, isFolderFilterActive, matchesFolderFilter } from '../utils/folder-filter';
+import { applyNoteFilters, NotePredicates } from '../utils/note-filters';
+import { FolderTreePicker } from './folder-tree-picker';
+import { isPresetActive, isSameFilters } from '../services/filter-presets';
+import { FilterPresetModal } from './filter-preset-modal';
+import { DATE_FIELD_OPTIONS, DATE_PRESET_OPTIONS, describeDateFilter, getDateRange, isDateFilterActive, matchesDateRange } from '../utils/date-filter';
+import { DateRangeModal } from './date-range-modal';
 
 export class SidebarView extends ItemView {
     private notesListContainer!: HTMLElement;
     private plugin: VisualDashboardPlugin;
-    private currentFiles: TFile[] = [];
+    private currentNotes: IndexedNote[] = [];
+    // The notes in the list, after filtering
+    private shownNotes: IndexedNote[] = [];
+    private selection: NoteSelection | null = null;
+    private bulkActionBar: BulkActionBar | null = null;
     private settingsChangedHandler: () => void;
     private refreshTimeoutId: number | null = null;
+    private pendingChangedPaths = new Set<string>();
+    private pendingFullRender = false;
+    // Increased by every render, so an outdated one stops adding items
+    private renderId = 0;
+    private itemComponents = new Map<HTMLElement, Component>();
     private eventsRegistered = false;
     private quickNoteBar: QuickNoteBar | null = null;
+    private searchInput: HTMLInputElement | null = null;
+    private pinBtn: HTMLElement | null = null;
+    private folderBtn: HTMLElement | null = null;
+    private tagBtn: HTMLElement | null = null;
+    private colorBtn: HTMLElement | null = null;
+    private dateBtn: HTMLElement | null = null;
+    private sortBtn: HTMLElement | null = null;
+    private tagChips: HTMLElement | null = null;
 
     // Filter state
     private filterPinned: 'all' | 'pinned' | 'unpinned' = 'all';
-    private filterTag: string | null = null;
-    private filterFolder: string | null = null;
+    private filterTags: TagFilter = DEFAULT_BOARD_FILTERS.tags;
+    private filterFolders: FolderFilter = DEFAULT_BOARD_FILTERS.folders;
     private filterColor: string | null = null;
+    private filterDate: DateFilter = DEFAULT_BOARD_FILTERS.date;
     private allTags: string[] = [];
     private allFolders: string[] = [];
-    private searchQuery: string = '';
+    private searchQuery = '';
+    private parsedSearch: ParsedSearchQuery = parseSearchQuery('');
+    // Set while fuzzy search mode is on; rebuilt on every filter pass so scores follow note edits
+    private fuzzyScorer: FuzzyNoteScorer | null = null;
 
     constructor(leaf: WorkspaceLeaf, plugin: VisualDashboardPlugin) {
         super(leaf);
@@ -49,21 +87,36 @@ export class SidebarView extends ItemView {
         container.empty();
         container.addClass('mini-notes-sidebar-container');
 
+        // Undo and redo dashboard actions
+        this.scope = new Scope(this.app.scope);
+        registerHistoryHotkeys(this.scope, this.plugin);
+
         // Search bar
         const searchContainer = container.createDiv({ cls: 'sidebar-search-container' });
         const searchInput = searchContainer.createEl('input', {
             cls: 'sidebar-search-input',
             attr: {
-                placeholder: 'Search notes...',
+                placeholder: 'Search notes... (tag:#work, is:pinned)',
                 type: 'text'
             }
         });
+        this.searchInput = searchInput;
+
+        // Autocomplete filter keys, tags and folders while typing a query
+        new SearchQuerySuggest(this.app, searchInput, {
+            getTags: () => this.allTags,
+            getFolders: () => this.allFolders
+        });
 
         searchInput.addEventListener('input', (e) => {
-            this.searchQuery = (e.target as HTMLInputElement).value.toLowerCase();
+            this.searchQuery = (e.target as HTMLInputElement).value;
+            this.parsedSearch = parseSearchQuery(this.searchQuery);
             void this.renderNotesList();
         });
 
+        // Active tag filters, shown as removable chips under the search box
+        this.tagChips = searchContainer.createDiv({ cls: 'mini-notes-tag-chips is-empty' });
+
         // Controls
         const controls = container.createDiv({ cls: 'sidebar-controls' });
 
@@ -72,6 +125,7 @@ export class SidebarView extends ItemView {
 
         // Pin filter
         const pinBtn = filterGroup.createDiv({ cls: 'filter-icon' });
+        this.pinBtn = pinBtn;
         setIcon(pinBtn, 'pin');
         pinBtn.setAttribute('aria-label', 'Filter pinned');
         pinBtn.addEventListener('click', () => {
@@ -87,74 +141,89 @@ export class SidebarView extends ItemView {
             void this.renderNotesList();
         });
 
-        // Folder filter
-        const folderBtn = filterGroup.createDiv({ cls: 'filter-icon' });
+        // Folder filter - a folder tree in a dropdown
+        const folderWrapper = filterGroup.createDiv({ cls: 'filter-wrapper' });
+        const folderBtn = folderWrapper.createDiv({ cls: 'filter-icon' });
+        this.folderBtn = folderBtn;
         setIcon(folderBtn, 'folder');
         folderBtn.setAttribute('aria-label', 'Filter by folder');
-        folderBtn.addEventListener('click', (e: MouseEvent) => {
-            const menu = new Menu();
-
-            // Add "All folders" option
-            menu.addItem((item) => {
-                item.setTitle('All folders')
-                    .setChecked(this.filterFolder === null)
-                    .onClick(() => {
-                        this.filterFolder = null;
-                        folderBtn.removeClass('active');
-                        void this.renderNotesList();
-                    });
-            });
-
-            // Add separator
-            menu.addSeparator();
 
-            // Add folders
-            this.allFolders.forEach(folder => {
-                menu.addItem((item) => {
-                    item.setTitle(folder)
-                        .setChecked(this.filterFolder === folder)
-                        .onClick(() => {
-                            this.filterFolder = folder;
-                            folderBtn.addClass('active');
-                            void this.renderNotesList();
-                        });
-                });
-            });
+        const folderDropdown = folderWrapper.createDiv({ cls: 'filter-dropdown-menu folder-tree-menu' });
+        const folderTree = new FolderTreePicker(folderDropdown, {
+            getFolders: () => this.allFolders,
+            getCounts: () => countNotesByFolder(applyNoteFilters(this.currentNotes, this.getFilterPredicates(), ['folders'])),
+            getFilter: () => this.filterFolders,
+            onChange: (filter) => {
+                this.filterFolders = filter;
+                folderBtn.toggleClass('active', isFolderFilterActive(filter));
+                void this.renderNotesList();
+            }
+        });
+        folderBtn.addEventListener('click', (e: MouseEvent) => {
+            e.stopPropagation();
+            const isCurrentlyShown = folderDropdown.hasClass('show');
+            folderDropdown.toggleClass('show', !isCurrentlyShown);
+            if (!isCurrentlyShown) {
+                folderTree.render();
+            }
+        });
 
-            menu.showAtMouseEvent(e);
+        // Close the folder dropdown when clicking outside
+        this.registerDomEvent(document, 'click', () => {
+            folderDropdown.toggleClass('show', false);
         });
 
         // Tag filter
         const tagBtn = filterGroup.createDiv({ cls: 'filter-icon' });
+        this.tagBtn = tagBtn;
         setIcon(tagBtn, 'tag');
         tagBtn.setAttribute('aria-label', 'Filter by tag');
         tagBtn.addEventListener('click', (e: MouseEvent) => {
             const menu = new Menu();
+            // Each tag counts the notes left if it were included, under the other filters
+            const base = applyNoteFilters(this.currentNotes, this.getFilterPredicates(), ['tags']);
 
             // Add "All tags" option
             menu.addItem((item) => {
-                item.setTitle('All tags')
-                    .setChecked(this.filterTag === null)
+                item.setTitle(`All tags (${base.length})`)
+                    .setChecked(!isTagFilterActive(this.filterTags))
                     .onClick(() => {
-                        this.filterTag = null;
-                        tagBtn.removeClass('active');
-                        void this.renderNotesList();
+                        this.setTagFilter({ include: [], exclude: [], mode: this.filterTags.mode });
+                    });
+            });
+
+            // Add match mode options
+            menu.addItem((item) => {
+                item.setTitle('Match all included tags')
+                    .setChecked(this.filterTags.mode === 'all')
+                    .onClick(() => {
+                        this.setTagFilter({ ...this.filterTags, mode: 'all' });
+                    });
+            });
+            menu.addItem((item) => {
+                item.setTitle('Match any included tag')
+                    .setChecked(this.filterTags.mode === 'any')
+                    .onClick(() => {
+                        this.setTagFilter({ ...this.filterTags, mode: 'any' });
                     });
             });
 
             // Add separator
             menu.addSeparator();
 
-            // Add tags
+            // Add tags; each click steps through include, exclude and off
             this.allTags.forEach(tag => {
+                const state = getTagState(this.filterTags, tag);
+                const included = setTagState(this.filterTags, tag, 'include');
+                const count = base.filter(note => matchesTagFilter(note.tags, included)).length;
                 menu.addItem((item) => {
-                    item.setTitle(tag)
-                        .setChecked(this.filterTag === tag)
+                    item.setTitle(state === 'exclude' ? `Not ${tag}` : `${tag} (${count})`)
+                        .setChecked(state === 'include')
+                        .setDisabled(count === 0 && state === null)
                         .onClick(() => {
-                            this.filterTag = tag;
-                            tagBtn.addClass('active');
-                            void this.renderNotesList();
+                            this.setTagFilter(cycleTagState(this.filterTags, tag));
                         });
+                    if (state === 'exclude') item.setIcon('circle-minus');
                 });
             });
 
@@ -163,14 +232,17 @@ export class SidebarView extends ItemView {
 
         // Color filter
         const colorBtn = filterGroup.createDiv({ cls: 'filter-icon' });
+        this.colorBtn = colorBtn;
         setIcon(colorBtn, 'palette');
         colorBtn.setAttribute('aria-label', 'Filter by color');
         colorBtn.addEventListener('click', (e: MouseEvent) => {
             const menu = new Menu();
+            const base = applyNoteFilters(this.currentNotes, this.getFilterPredicates(), ['color']);
+            const noColorCount = base.filter(note => !note.color).length;
 
             // Add "All colors" option
             menu.addItem((item) => {
-                item.setTitle('All colors')
+                item.setTitle(`All colors (${base.length})`)
                     .setChecked(this.filterColor === null)
                     .onClick(() => {
                         this.filterColor = null;
@@ -181,8 +253,9 @@ export class SidebarView extends ItemView {
 
             // Add "No color" option
             menu.addItem((item) => {
-                item.setTitle('No color')
+                item.setTitle(`No color (${noColorCount})`)
                     .setChecked(this.filterColor === 'none')
+                    .setDisabled(noColorCount === 0 && this.filterColor !== 'none')
                     .onClick(() => {
                         this.filterColor = 'none';
                         colorBtn.addClass('active');
@@ -194,21 +267,13 @@ export class SidebarView extends ItemView {
             menu.addSeparator();
 
             // Add color options
-            const colorOptions = [
-                { name: 'Pink', color: 'var(--pastel-pink)' },
-                { name: 'Peach', color: 'var(--pastel-peach)' },
-                { name: 'Yellow', color: 'var(--pastel-yellow)' },
-                { name: 'Green', color: 'var(--pastel-green)' },
-                { name: 'Blue', color: 'var(--pastel-blue)' },
-                { name: 'Purple', color: 'var(--pastel-purple)' },
-                { name: 'Magenta', color: 'var(--pastel-magenta)' }
-            ];
-
-            colorOptions.forEach(({ name, color }) => {
+            PASTEL_COLORS.forEach(({ name, color }) => {
+                const count = base.filter(note => note.color === color).length;
                 menu.addItem((item) => {
-                    item.setTitle(name)
+                    item.setTitle(`${name} (${count})`)
                         .setIcon('palette')
                         .setChecked(this.filterColor === color)
+                        .setDisabled(count === 0 && this.filterColor !== color)
                         .onClick(() => {
                             this.filterColor = color;
                             colorBtn.addClass('active');
@@ -220,6 +285,37 @@ export class SidebarView extends ItemView {
             menu.showAtMouseEvent(e);
         });
 
+        // Date filter
+        const dateBtn = filterGroup.createDiv({ cls: 'filter-icon' });
+        this.dateBtn = dateBtn;
+        setIcon(dateBtn, 'calendar');
+        dateBtn.setAttribute('aria-label', 'Filter by date');
+        dateBtn.addEventListener('click', (e: MouseEvent) => {
+            this.showDateMenu(e);
+        });
+
+        // Sort order, remembered for the sidebar
+        const sortBtn = filterGroup.createDiv({ cls: 'filter-icon' });
+        this.sortBtn = sortBtn;
+        setIcon(sortBtn, 'arrow-up-down');
+        this.syncSortButton();
+        sortBtn.addEventListener('click', (e: MouseEvent) => {
+            showSortMenu(e, this.plugin.data.sidebarSort, (order) => {
+                void this.plugin.setSidebarSort(order).then(() => {
+                    this.syncSortButton();
+                    return this.refreshView();
+                });
+            });
+        });
+
+        // Filter presets
+        const presetBtn = filterGroup.createDiv({ cls: 'filter-icon' });
+        setIcon(presetBtn, 'bookmark');
+        presetBtn.setAttribute('aria-label', 'Filter presets');
+        presetBtn.addEventListener('click', (e: MouseEvent) => {
+            this.showPresetMenu(e);
+        });
+
         // Full view button
         const fullViewBtn = filterGroup.createDiv({ cls: 'filter-icon' });
         setIcon(fullViewBtn, 'layout-dashboard');
@@ -231,6 +327,23 @@ export class SidebarView extends ItemView {
         // Notes list container
         this.notesListContainer = container.createDiv({ cls: 'sidebar-notes-list' });
 
+        // Shift/Ctrl-click or lasso notes to act on several at once
+        this.selection = new NoteSelection({
+            container: this.notesListContainer,
+            itemSelector: '.sidebar-note-item',
+            getOrder: () => this.shownNotes.map(note => note.file.path),
+            onChange: (paths) => this.bulkActionBar?.update(paths)
+        });
+        this.bulkActionBar = new BulkActionBar(this.plugin, container, {
+            getFiles: () => this.shownNotes.filter(note => this.selection?.has(note.file.path)).map(note => note.file),
+            clearSelection: () => this.selection?.clear()
+        });
+        this.scope.register([], 'Escape', () => {
+            if (!this.selection || this.selection.size === 0) return true;
+            this.selection.clear();
+            return false;
+        });
+
         // Add quick note bar at bottom
         this.quickNoteBar = new QuickNoteBar(this.plugin);
         const quickNoteContainer = container.createDiv({ cls: 'sidebar-quick-note-container' });
@@ -244,34 +357,17 @@ export class SidebarView extends ItemView {
         // Register events
         if (!this.eventsRegistered) {
             this.registerEvent(
-                this.app.vault.on('modify', (file) => {
-                    if (file instanceof TFile) {
-                        void this.scheduleRefresh();
-                    }
+                this.plugin.noteIndex.on('changed', (change: NoteIndexChange) => {
+                    this.pendingChangedPaths.add(change.path);
+                    if (change.oldPath) this.pendingChangedPaths.add(change.oldPath);
+                    void this.scheduleRefresh();
                 })
             );
 
             this.registerEvent(
-                this.app.vault.on('delete', (file) => {
-                    if (file instanceof TFile) {
-                        void this.scheduleRefresh();
-                    }
-                })
-            );
-
-            this.registerEvent(
-                this.app.vault.on('create', (file) => {
-                    if (file instanceof TFile) {
-                        void this.scheduleRefresh();
-                    }
-                })
-            );
-
-            this.registerEvent(
-                this.app.vault.on('rename', (file) => {
-                    if (file instanceof TFile) {
-                        void this.scheduleRefresh();
-                    }
+                this.plugin.noteIndex.on('rebuilt', () => {
+                    this.pendingFullRender = true;
+                    void this.scheduleRefresh();
                 })
             );
 
@@ -286,183 +382,136 @@ export class SidebarView extends ItemView {
 
     async loadNotes() {
         try {
-            const sourceFolder = this.plugin.data.sourceFolder;
             const maxNotes = this.plugin.data.maxNotes || 150;
 
-            // Get all files matching allowed extensions
-            const allowedExts = this.plugin.data.allowedExtensions.length > 0
-                ? this.plugin.data.allowedExtensions
-                : ['md']; // Default to .md if no extensions configured
-
-            let files: TFile[] = this.app.vault.getFiles().filter((file: TFile) => {
-                const ext = file.extension.toLowerCase();
-                return allowedExts.includes(ext);
-            });
-
-            // Filter out Excalidraw files (they have .md extension but are not regular markdown)
-            files = files.filter((file: TFile) => {
-                const path = file.path.toLowerCase();
-                // Check for .excalidraw extension or .excalidraw.md pattern
-                return !path.endsWith('.excalidraw.md') && !path.endsWith('.excalidraw');
-            });
-
-            // Filter by source folder
-            if (sourceFolder !== '/') {
-                const normalizedFolder = sourceFolder.endsWith('/') ? sourceFolder.slice(0, -1) : sourceFolder;
-                files = files.filter(file => {
-                    const filePath = file.path;
-                    return filePath.startsWith(normalizedFolder + '/') || filePath === normalizedFolder;
-                });
-            }
-
-            // Filter by excluded folders
-            if (this.plugin.data.excludedFolders && this.plugin.data.excludedFolders.length > 0) {
-                files = files.filter(file => {
-                    const filePath = file.path;
-                    return !this.plugin.data.excludedFolders.some(excludedFolder => {
-                        const normalizedExcluded = excludedFolder.endsWith('/') ? excludedFolder.slice(0, -1) : excludedFolder;
-                        return filePath.startsWith(normalizedExcluded + '/') || filePath === normalizedExcluded;
-                    });
-                });
-            }
+            await this.plugin.noteIndex.whenReady();
+            let notes = this.plugin.noteIndex.getNotesInFolders(
+                [this.plugin.data.sourceFolder],
+                this.plugin.data.excludedFolders
+            );
 
             // Collect all tags and folders
-            this.allTags = [];
-            this.allFolders = [];
+            const tagSet = new Set<string>();
             const folderSet = new Set<string>();
-            for (const file of files) {
-                const content = await this.app.vault.cachedRead(file);
-                const tags = extractTags(content);
-                tags.forEach(tag => {
-                    if (!this.allTags.includes(tag)) {
-                        this.allTags.push(tag);
-                    }
-                });
-                // Collect folder path
-                const folder = file.parent?.path;
-                if (folder) {
-                    folderSet.add(folder);
-                }
+            for (const note of notes) {
+                note.tags.forEach(tag => tagSet.add(tag));
+                folderSet.add(note.folder);
             }
-            this.allTags.sort();
+            this.allTags = Array.from(tagSet).sort();
             this.allFolders = Array.from(folderSet).sort();
 
-            // Sort by modification time (newest first)
-            files.sort((a, b) => b.stat.mtime - a.stat.mtime);
-
-            // Apply custom order if exists
-            const orderedPaths = this.plugin.data.noteOrder;
-            if (orderedPaths && orderedPaths.length > 0) {
-                files.sort((a, b) => {
-                    const aIndex = orderedPaths.indexOf(a.path);
-                    const bIndex = orderedPaths.indexOf(b.path);
-
-                    // If both have order, use that
-                    if (aIndex !== -1 && bIndex !== -1) return aIndex - bIndex;
-                    // If only one has order, prioritize it
-                    if (aIndex !== -1) return -1;
-                    if (bIndex !== -1) return 1;
-                    // Otherwise maintain mtime order
-                    return b.stat.mtime - a.stat.mtime;
-                });
-            }
-
-            // Move pinned notes to the top
-            const pinnedPaths = this.plugin.data.pinnedNotes || [];
-            files.sort((a, b) => {
-                const aIsPinned = pinnedPaths.includes(a.path);
-                const bIsPinned = pinnedPaths.includes(b.path);
+            // Sort by the chosen order, then move pinned notes to the top
+            const compareNotes = createNoteComparator(this.plugin.data.sidebarSort, this.plugin.getSortContext());
+            notes.sort((a, b) => {
+                const aIsPinned = this.plugin.isPinned(a.file.path);
+                const bIsPinned = this.plugin.isPinned(b.file.path);
                 if (aIsPinned && !bIsPinned) return -1;
                 if (!aIsPinned && bIsPinned) return 1;
-                return 0;
+                return compareNotes(a, b);
             });
 
-            // Limit number of files
-            if (files.length > maxNotes) {
-                files = files.slice(0, maxNotes);
+            // Limit number of notes
+            if (notes.length > maxNotes) {
+                notes = notes.slice(0, maxNotes);
             }
 
-            this.currentFiles = files;
+            this.currentNotes = notes;
         } catch (error) {
             console.error('Error loading notes:', error);
-            this.currentFiles = [];
+            this.currentNotes = [];
         }
     }
 
-    async renderNotesList() {
-        this.notesListContainer.empty();
+    // One predicate per active filter
+    private getFilterPredicates(): NotePredicates {
+        const predicates: NotePredicates = {};
 
-        try {
-            // Filter files based on current filters
-            let filteredFiles = [...this.currentFiles];
-
-            // Apply pin filter
-            if (this.filterPinned === 'pinned') {
-                filteredFiles = filteredFiles.filter(file => this.plugin.isPinned(file.path));
-            } else if (this.filterPinned === 'unpinned') {
-                filteredFiles = filteredFiles.filter(file => !this.plugin.isPinned(file.path));
-            }
+        if (this.filterPinned !== 'all') {
+            const pinned = this.filterPinned === 'pinned';
+            predicates.pinned = note => this.plugin.isPinned(note.file.path) === pinned;
+        }
 
-            // Apply tag filter (supports nested tags)
-            if (this.filterTag) {
-                const tagFilteredFiles: TFile[] = [];
-                for (const file of filteredFiles) {
-                    const content = await this.app.vault.cachedRead(file);
-                    const tags = extractTags(content);
-                    // Support nested tags: #parent should match #parent, #parent/child, etc.
-                    if (tags.some(tag => tagMatchesFilter(tag, this.filterTag!))) {
-                        tagFilteredFiles.push(file);
-                    }
-                }
-                filteredFiles = tagFilteredFiles;
-            }
+        // Supports nested tags: #parent matches #parent/child
+        if (isTagFilterActive(this.filterTags)) {
+            const filter = this.filterTags;
+            predicates.tags = note => matchesTagFilter(note.tags, filter);
+        }
 
-            // Apply folder filter (includes subfolders)
-            if (this.filterFolder) {
-                filteredFiles = filteredFiles.filter(file => {
-                    const fileFolderPath = file.parent?.path || '';
-                    // Include files in the folder and all subfolders
-                    return isFileInFolderOrSubfolder(fileFolderPath, this.filterFolder!);
-                });
-            }
+        // Folders include their subfolders
+        if (isFolderFilterActive(this.filterFolders)) {
+            const filter = this.filterFolders;
+            predicates.folders = note => matchesFolderFilter(note.folder, filter);
+        }
 
-            // Apply color filter
-            if (this.filterColor) {
-                filteredFiles = filteredFiles.filter(file => {
-                    const savedColor = this.plugin.data.noteColors[file.path];
-                    if (this.filterColor === 'none') {
-                        return !savedColor;
-                    }
-                    return savedColor === this.filterColor;
-                });
-            }
+        const dateRange = getDateRange(this.filterDate);
+        if (dateRange) {
+            const field = this.filterDate.field;
+            predicates.date = note => matchesDateRange(note, field, dateRange);
+        }
 
-            // Apply search filter
-            if (this.searchQuery) {
-                const searchFilteredFiles: TFile[] = [];
-                for (const file of filteredFiles) {
-                    const content = await this.app.vault.cachedRead(file);
-                    const searchableText = `${file.basename} ${stripMarkdown(content)}`.toLowerCase();
-                    if (searchableText.includes(this.searchQuery)) {
-                        searchFilteredFiles.push(file);
-                    }
-                }
-                filteredFiles = searchFilteredFiles;
-            }
+        if (this.filterColor) {
+            const color = this.filterColor;
+            predicates.color = note => color === 'none' ? !note.color : note.color === color;
+        }
+
+        if (this.parsedSearch.root) {
+            const scorer = this.fuzzyScorer;
+            const context: SearchContext = {
+                isPinned: (path) => this.plugin.isPinned(path),
+                matchText: scorer ? (note, value) => scorer.matchesTerm(note, value) : undefined
+            };
+            predicates.search = note => matchesSearchQuery(note, this.parsedSearch, context);
+        }
+
+        return predicates;
+    }
+
+    // Apply the current filters to the loaded notes
+    private getFilteredNotes(): IndexedNote[] {
+        // Filter notes based on current filters
+        let filteredNotes = [...this.currentNotes];
+
+        // Apply search query and filters
+        const scorer = this.plugin.data.searchMode === 'fuzzy' ? new FuzzyNoteScorer(this.parsedSearch.highlights) : null;
+        this.fuzzyScorer = scorer;
+        filteredNotes = applyNoteFilters(filteredNotes, this.getFilterPredicates());
+
+        // Fuzzy search lists the most relevant notes first (the sort is stable, so ties keep their order)
+        if (scorer?.hasTerms()) {
+            filteredNotes.sort((a, b) => scorer.score(b).score - scorer.score(a).score);
+        }
+
+        return filteredNotes;
+    }
+
+    async renderNotesList() {
+        const renderId = ++this.renderId;
+        this.clearNoteItems();
+        this.notesListContainer.empty();
+
+        try {
+            const filteredNotes = this.getFilteredNotes();
+            this.shownNotes = filteredNotes;
+            this.selection?.retain(filteredNotes.map(note => note.file.path));
 
             // Show count
             const countEl = this.notesListContainer.createDiv({ cls: 'sidebar-notes-count' });
-            countEl.textContent = `${filteredFiles.length} note${filteredFiles.length !== 1 ? 's' : ''}`;
+            countEl.textContent = `${filteredNotes.length} note${filteredNotes.length !== 1 ? 's' : ''}`;
 
             // Render each note
-            for (const file of filteredFiles) {
-                const noteItem = await this.createNoteItem(file);
+            for (const note of filteredNotes) {
+                const noteItem = await this.createNoteItem(note);
+                // A newer render emptied the list meanwhile
+                if (renderId !== this.renderId) {
+                    if (noteItem) this.removeNoteItem(noteItem);
+                    return;
+                }
                 if (noteItem) {
                     this.notesListContainer.appendChild(noteItem);
                 }
             }
 
-            if (filteredFiles.length === 0) {
+            if (filteredNotes.length === 0) {
                 this.notesListContainer.createDiv({
                     cls: 'sidebar-empty-state',
                     text: 'No notes found'
@@ -477,11 +526,96 @@ export class SidebarView extends ItemView {
         }
     }
 
-    async createNoteItem(file: TFile): Promise<HTMLElement | null> {
+    // Re-render, insert, remove and move only the list items affected by the changed paths
+    async updateNoteItems(changedPaths: Iterable<string>) {
+        const changed = new Set(changedPaths);
+        const renderId = ++this.renderId;
+        // Superseded by a newer render or update, which may not cover these paths, so refresh them again
+        const requeue = () => {
+            changed.forEach(path => this.pendingChangedPaths.add(path));
+            void this.scheduleRefresh();
+        };
+        try {
+            await this.loadNotes();
+            if (renderId !== this.renderId) {
+                requeue();
+                return;
+            }
+            const filteredNotes = this.getFilteredNotes();
+            this.shownNotes = filteredNotes;
+            this.selection?.retain(filteredNotes.map(note => note.file.path));
+
+            const countEl = this.notesListContainer.querySelector<HTMLElement>('.sidebar-notes-count');
+            if (!countEl || filteredNotes.length === 0 || this.notesListContainer.querySelector('.sidebar-empty-state')) {
+                // Switching between the empty state and the list - render from scratch
+                await this.renderNotesList();
+                return;
+            }
+            countEl.textContent = `${filteredNotes.length} note${filteredNotes.length !== 1 ? 's' : ''}`;
+
+            const itemsByPath = new Map<string, HTMLElement>();
+            this.notesListContainer.querySelectorAll<HTMLElement>('.sidebar-note-item').forEach(item => {
+                itemsByPath.set(item.getAttribute('data-path') ?? '', item);
+            });
+
+            let previous: HTMLElement = countEl;
+            for (const note of filteredNotes) {
+                const path = note.file.path;
+                let item = itemsByPath.get(path) ?? null;
+                itemsByPath.delete(path);
+
+                if (!item || changed.has(path)) {
+                    const fresh = await this.createNoteItem(note);
+                    if (renderId !== this.renderId) {
+                        if (fresh) this.removeNoteItem(fresh);
+                        requeue();
+                        return;
+                    }
+                    if (item) this.removeNoteItem(item);
+                    item = fresh;
+                }
+                if (!item) continue;
+
+                if (previous.nextElementSibling !== item) {
+                    previous.after(item);
+                }
+                previous = item;
+            }
+
+            // Whatever is left no longer matches
+            itemsByPath.forEach(item => this.removeNoteItem(item));
+        } catch (error) {
+            console.error('Error updating notes list:', error);
+            await this.renderNotesList();
+        }
+    }
+
+    private removeNoteItem(item: HTMLElement) {
+        const component = this.itemComponents.get(item);
+        if (component) {
+            this.removeChild(component);
+            this.itemComponents.delete(item);
+        }
+        item.remove();
+    }
+
+    private clearNoteItems() {
+        this.itemComponents.forEach(component => this.removeChild(component));
+        this.itemComponents.clear();
+    }
+
+    async createNoteItem(note: IndexedNote): Promise<HTMLElement | null> {
+        const file = note.file;
         try {
             const noteItem = document.createElement('div');
             noteItem.addClass('sidebar-note-item');
             noteItem.setAttribute('data-path', file.path);
+            this.selection?.syncItem(noteItem);
+
+            // Components created by the markdown renderer are unloaded with the item
+            const component = new Component();
+            this.addChild(component);
+            this.itemComponents.set(noteItem, component);
 
             // Check if pinned
             const isPinned = this.plugin.isPinned(file.path);
@@ -490,16 +624,13 @@ export class SidebarView extends ItemView {
             }
 
             // Apply saved color if exists
-            const savedColor = this.plugin.data.noteColors[file.path];
-            if (savedColor) {
-                noteItem.style.backgroundColor = savedColor;
+            if (note.color) {
+                noteItem.style.backgroundColor = note.color;
             }
 
-            // Get content for preview
-            const content = await this.app.vault.cachedRead(file);
-            const cleanContent = stripMarkdown(content);
-            const previewText = cleanContent.slice(0, 150).trim();
-            const markdownPreview = getMarkdownForPreview(content, 150);
+            // Get preview from the indexed content
+            const previewText = note.text.slice(0, 150).trim();
+            const markdownPreview = getMarkdownForPreview(note.body, 150);
 
             // Note header
             const noteHeader = noteItem.createDiv({ cls: 'note-item-header' });
@@ -543,36 +674,21 @@ export class SidebarView extends ItemView {
                         .setIcon('pin')
                         .onClick(() => {
                             void this.plugin.togglePin(file.path).then(() => {
-                                void this.renderNotesList();
+                                void this.updateNoteItems([file.path]);
                             });
                         });
                 });
 
                 // Color submenu
-                const pastelColors = [
-                    { name: 'Pink', color: 'var(--pastel-pink)' },
-                    { name: 'Peach', color: 'var(--pastel-peach)' },
-                    { name: 'Yellow', color: 'var(--pastel-yellow)' },
-                    { name: 'Green', color: 'var(--pastel-green)' },
-                    { name: 'Blue', color: 'var(--pastel-blue)' },
-                    { name: 'Purple', color: 'var(--pastel-purple)' },
-                    { name: 'Magenta', color: 'var(--pastel-magenta)' },
-                    { name: 'Remove color', color: '' }
-                ];
+                const pastelColors = [...PASTEL_COLORS, { name: 'Remove color', color: '' }];
 
                 pastelColors.forEach(({ name, color }) => {
                     menu.addItem((item) => {
                         item.setTitle(name)
                             .setIcon(color ? 'palette' : 'eraser')
                             .onClick(() => {
-                                if (color) {
-                                    noteItem.setCssProps({ 'background-color': color });
-                                    this.plugin.data.noteColors[file.path] = color;
-                                } else {
-                                    noteItem.setCssProps({ 'background-color': '' });
-                                    delete this.plugin.data.noteColors[file.path];
-                                }
-                                void this.plugin.savePluginData();
+                                noteItem.setCssProps({ 'background-color': color });
+                                void this.plugin.setNoteColor(file.path, color || null);
                             });
                     });
                 });
@@ -583,7 +699,7 @@ export class SidebarView extends ItemView {
                     item.setTitle('Delete note')
                         .setIcon('trash')
                         .onClick(() => {
-                            void this.app.fileManager.trashFile(file);
+                            void this.plugin.trashNote(file);
                         });
                 });
 
@@ -594,8 +710,11 @@ export class SidebarView extends ItemView {
             const preview = noteItem.createDiv({ cls: 'note-item-preview' });
             if (previewText.trim()) {
                 // Apply search highlighting if there's a search query
-                if (this.searchQuery) {
-                    this.highlightText(preview, previewText, this.searchQuery);
+                if (this.parsedSearch.highlights.length > 0) {
+                    const ranges = this.fuzzyScorer
+                        ? this.fuzzyScorer.score(note).textRanges
+                        : findTermRanges(previewText, this.parsedSearch.highlights);
+                    this.highlightText(preview, previewText, ranges);
                     preview.addClass('search-highlighted');
                 } else {
                     await MarkdownRenderer.render(
@@ -603,7 +722,7 @@ export class SidebarView extends ItemView {
                         markdownPreview,
                         preview,
                         file.path,
-                        this
+                        component
                     );
                 }
             } else {
@@ -614,7 +733,7 @@ export class SidebarView extends ItemView {
             const footer = noteItem.createDiv({ cls: 'note-item-footer' });
 
             // Tags
-            const tags = extractTags(content);
+            const tags = note.tags;
             if (tags.length > 0) {
                 const tagsContainer = footer.createDiv({ cls: 'note-item-tags' });
                 tags.slice(0, 2).forEach(tag => {
@@ -630,7 +749,8 @@ export class SidebarView extends ItemView {
             date.textContent = formatDate(file.stat.mtime);
 
             // Click handler to open the note
-            noteItem.addEventListener('click', () => {
+            noteItem.addEventListener('click', (e: MouseEvent) => {
+                if (this.selection?.handleClick(e, file.path)) return;
                 const leaf = this.app.workspace.getLeaf(false);
                 void leaf.openFile(file);
             });
@@ -648,8 +768,16 @@ export class SidebarView extends ItemView {
         }
 
         this.refreshTimeoutId = window.setTimeout(() => {
-            void this.refreshView();
             this.refreshTimeoutId = null;
+            const changedPaths = Array.from(this.pendingChangedPaths);
+            this.pendingChangedPaths.clear();
+
+            if (this.pendingFullRender) {
+                this.pendingFullRender = false;
+                void this.refreshView();
+            } else {
+                void this.updateNoteItems(changedPaths);
+            }
         }, DEBOUNCE_REFRESH_MS);
     }
 
@@ -658,23 +786,214 @@ export class SidebarView extends ItemView {
         await this.renderNotesList();
     }
 
-    // Helper method to highlight search text
-    private highlightText(container: HTMLElement, text: string, query: string) {
-        const lowerText = text.toLowerCase();
-        const lowerQuery = query.toLowerCase();
+    private getFilters(): BoardFilters {
+        return {
+            pinned: this.filterPinned,
+            tags: this.filterTags,
+            folders: this.filterFolders,
+            date: this.filterDate,
+            color: this.filterColor,
+            type: null,
+            search: this.searchQuery
+        };
+    }
+
+    // Switch to a preset's filters and sort order; the list has no type filter, so that part is ignored
+    async applyFilterPreset(preset: FilterPreset) {
+        const { filters } = preset;
+        this.filterPinned = filters.pinned;
+        this.filterTags = filters.tags;
+        this.filterFolders = filters.folders;
+        this.filterDate = filters.date;
+        this.filterColor = filters.color;
+        this.searchQuery = filters.search;
+        this.parsedSearch = parseSearchQuery(filters.search);
+        if (preset.sort) {
+            await this.plugin.setSidebarSort(preset.sort);
+        }
+
+        if (this.searchInput) this.searchInput.value = this.searchQuery;
+        this.pinBtn?.toggleClass('active', this.filterPinned !== 'all');
+        this.folderBtn?.toggleClass('active', isFolderFilterActive(this.filterFolders));
+        this.tagBtn?.toggleClass('active', isTagFilterActive(this.filterTags));
+        this.colorBtn?.toggleClass('active', this.filterColor !== null);
+        this.syncDateButton();
+        this.syncSortButton();
+        this.renderTagChips();
+
+        await this.refreshView();
+    }
+
+    private setDateFilter(filter: DateFilter) {
+        this.filterDate = filter;
+        this.syncDateButton();
+        void this.renderNotesList();
+    }
+
+    private syncSortButton() {
+        const order = this.plugin.data.sidebarSort;
+        this.sortBtn?.toggleClass('active', order.field !== 'manual');
+        this.sortBtn?.setAttribute('aria-label', `Sort: ${describeSortOrder(order)}`);
+    }
+
+    private syncDateButton() {
+        const active = isDateFilterActive(this.filterDate);
+        this.dateBtn?.toggleClass('active', active);
+        this.dateBtn?.setAttribute('aria-label', active ? `Filter by date: ${describeDateFilter(this.filterDate)}` : 'Filter by date');
+    }
+
+    // Presets with counts under the other filters, a custom range, and which date to look at
+    private showDateMenu(e: MouseEvent) {
+        const menu = new Menu();
+        const base = applyNoteFilters(this.currentNotes, this.getFilterPredicates(), ['date']);
+        const { field } = this.filterDate;
+
+        menu.addItem((item) => {
+            item.setTitle(`Any date (${base.length})`)
+                .setChecked(!isDateFilterActive(this.filterDate))
+                .onClick(() => {
+                    this.setDateFilter({ ...this.filterDate, preset: null, from: null, to: null });
+                });
+        });
+
+        DATE_PRESET_OPTIONS.forEach(option => {
+            const filter: DateFilter = { field, preset: option.value, from: null, to: null };
+            const range = getDateRange(filter);
+            const count = range ? base.filter(note => matchesDateRange(note, field, range)).length : 0;
+            const selected = this.filterDate.preset === option.value;
+            menu.addItem((item) => {
+                item.setTitle(`${option.label} (${count})`)
+                    .setChecked(selected)
+                    .setDisabled(count === 0 && !selected)
+                    .onClick(() => {
+                        this.setDateFilter(filter);
+                    });
+            });
+        });
+
+        const isCustom = this.filterDate.preset === 'custom';
+        menu.addItem((item) => {
+            item.setTitle(isCustom ? describeDateFilter(this.filterDate) : 'Custom range…')
+                .setChecked(isCustom)
+                .onClick(() => {
+                    new DateRangeModal(this.app, this.filterDate, (filter) => this.setDateFilter(filter)).open();
+                });
+        });
+
+        menu.addSeparator();
+
+        DATE_FIELD_OPTIONS.forEach(option => {
+            menu.addItem((item) => {
+                item.setTitle(option.label)
+                    .setIcon('calendar')
+                    .setChecked(field === option.value)
+                    .onClick(() => {
+                        this.setDateFilter({ ...this.filterDate, field: option.value });
+                    });
+            });
+        });
+
+        menu.showAtMouseEvent(e);
+    }
+
+    private setTagFilter(filter: TagFilter) {
+        this.filterTags = filter;
+        this.tagBtn?.toggleClass('active', isTagFilterActive(filter));
+        this.renderTagChips();
+        void this.renderNotesList();
+    }
+
+    // Included tags first, then excluded ones; the match mode shows once several tags are included
+    private renderTagChips() {
+        const chips = this.tagChips;
+        if (!chips) return;
+        chips.empty();
+
+        const { include, exclude, mode } = this.filterTags;
+        if (include.length > 1) {
+            const modeChip = chips.createDiv({ cls: 'mini-notes-tag-chip tag-chip-mode', text: mode === 'all' ? 'All of' : 'Any of' });
+            modeChip.setAttribute('aria-label', 'Switch between all and any of the tags');
+            modeChip.addEventListener('click', () => {
+                this.setTagFilter({ ...this.filterTags, mode: mode === 'all' ? 'any' : 'all' });
+            });
+        }
+
+        const addChip = (tag: string, excluded: boolean) => {
+            const chip = chips.createDiv({ cls: 'mini-notes-tag-chip' });
+            chip.toggleClass('is-excluded', excluded);
+            chip.createSpan({ text: (excluded ? 'not ' : '') + formatTagForDisplay(tag) });
+            const remove = chip.createSpan({ cls: 'tag-chip-remove', text: '×' });
+            remove.setAttribute('aria-label', 'Remove tag filter');
+            remove.addEventListener('click', () => {
+                this.setTagFilter(setTagState(this.filterTags, tag, null));
+            });
+        };
+        include.forEach(tag => addChip(tag, false));
+        exclude.forEach(tag => addChip(tag, true));
+
+        chips.toggleClass('is-empty', chips.childElementCount === 0);
+    }
+
+    private showPresetMenu(e: MouseEvent) {
+        const menu = new Menu();
+        const filters = this.getFilters();
+        const presets = this.plugin.data.filterPresets;
+        const activePreset = presets.find(preset => isPresetActive(preset, filters, this.plugin.data.sidebarSort));
+
+        presets.forEach(preset => {
+            menu.addItem((item) => {
+                item.setTitle(preset.name)
+                    .setChecked(preset === activePreset)
+                    .onClick(() => {
+                        void this.applyFilterPreset(preset);
+                    });
+            });
+        });
+
+        if (presets.length > 0) {
+            menu.addSeparator();
+        }
+
+        menu.addItem((item) => {
+            item.setTitle('Save current filters')
+                .setIcon('bookmark-plus')
+                .setDisabled(!!activePreset || isSameFilters(filters, DEFAULT_BOARD_FILTERS))
+                .onClick(() => {
+                    new FilterPresetModal(this.app, '', null, async (name, sort) => {
+                        await this.plugin.saveFilterPreset(name, this.getFilters(), sort);
+                    }).open();
+                });
+        });
+
+        menu.showAtMouseEvent(e);
+    }
+
+    // Helper method to wrap the given ranges of the text in highlight marks
+    private highlightText(container: HTMLElement, text: string, ranges: MatchRange[]) {
+        // Sort, clip to the (possibly truncated) text, and merge overlapping ranges
+        const sorted = ranges
+            .filter(([start, end]) => start < text.length && end > start)
+            .sort((a, b) => a[0] - b[0]);
+
         let lastIndex = 0;
-        let matchIndex = lowerText.indexOf(lowerQuery);
+        let i = 0;
+        while (i < sorted.length) {
+            const start = Math.max(sorted[i]![0], lastIndex);
+            let end = Math.min(sorted[i]![1], text.length);
+            i++;
+            while (i < sorted.length && sorted[i]![0] <= end) {
+                end = Math.min(Math.max(end, sorted[i]![1]), text.length);
+                i++;
+            }
+            if (end <= start) continue;
 
-        while (matchIndex !== -1) {
             // Add text before match
-            if (matchIndex > lastIndex) {
-                container.appendText(text.substring(lastIndex, matchIndex));
+            if (start > lastIndex) {
+                container.appendText(text.substring(lastIndex, start));
             }
             // Add highlighted match
-            const matchText = text.substring(matchIndex, matchIndex + query.length);
-            container.createEl('mark', { text: matchText, cls: 'search-highlight' });
-            lastIndex = matchIndex + query.length;
-            matchIndex = lowerText.indexOf(lowerQuery, lastIndex);
+            container.createEl('mark', { text: text.substring(start, end), cls: 'search-highlight' });
+            lastIndex = end;
         }
         // Add remaining text
         if (lastIndex < text.length) {
@@ -683,6 +1002,8 @@ export class SidebarView extends ItemView {
     }
 
     async onClose() {
+        this.selection = null;
+        this.bulkActionBar = null;
         this.contentEl.empty();
     }
 }
@@ -0,0 +1,40 @@
+import { Menu } from 'obsidian';
+import type { SortOrder } from '../types';
+import { SORT_FIELD_OPTIONS } from '../utils/note-sort';
+
+/**
+ * Menu to pick what cards are sorted by, then the direction. Picking a field starts in its usual direction
+ * (newest, largest or most recent first for dates and sizes; A to Z otherwise). Manual order has no direction.
+ */
+export function showSortMenu(e: MouseEvent, order: SortOrder, onChange: (order: SortOrder) => void) {
+	const menu = new Menu();
+
+	SORT_FIELD_OPTIONS.forEach(option => {
+		menu.addItem((item) => {
+			item.setTitle(option.label)
+				.setChecked(order.field === option.field)
+				.onClick(() => {
+					if (order.field === option.field) return;
+					onChange({ field: option.field, direction: option.defaultDirection });
+				});
+		});
+	});
+
+	menu.addSeparator();
+
+	const field = SORT_FIELD_OPTIONS.find(option => option.field === order.field);
+	(['asc', 'desc'] as const).forEach(direction => {
+		menu.addItem((item) => {
+			const label = field?.[direction];
+			item.setTitle(label ? `${direction === 'asc' ? 'Ascending' : 'Descending'} (${label})` : direction === 'asc' ? 'Ascending' : 'Descending')
+				.setIcon(direction === 'asc' ? 'arrow-up' : 'arrow-down')
+				.setChecked(order.field !== 'manual' && order.direction === direction)
+				.setDisabled(order.field === 'manual')
+				.onClick(() => {
+					onChange({ field: order.field, direction });
+				});
+		});
+	});
+
+	menu.showAtMouseEvent(e);
+}
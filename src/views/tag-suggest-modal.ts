@@ -0,0 +1,34 @@
+import { App, SuggestModal } from 'obsidian';
+import { formatTagForDisplay } from '../utils/markdown';
+
+/**
+ * Pick one of the existing tags, or type a new one.
+ */
+export class TagSuggestModal extends SuggestModal<string> {
+	private tags: string[];
+	private onChoose: (tag: string) => void;
+
+	constructor(app: App, tags: string[], onChoose: (tag: string) => void) {
+		super(app);
+		this.tags = tags;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Choose or type a tag');
+	}
+
+	getSuggestions(query: string): string[] {
+		const typed = query.trim().replace(/^#/, '').replace(/\s+/g, '-');
+		const matches = this.tags.filter(tag => tag.toLowerCase().includes(typed.toLowerCase()));
+		// Offer the typed tag first unless it already exists
+		return typed && !matches.some(tag => tag.toLowerCase() === `#${typed}`.toLowerCase())
+			? [`#${typed}`, ...matches]
+			: matches;
+	}
+
+	renderSuggestion(tag: string, el: HTMLElement) {
+		el.setText(this.tags.includes(tag) ? formatTagForDisplay(tag) : `New tag: ${formatTagForDisplay(tag)}`);
+	}
+
+	onChooseSuggestion(tag: string) {
+		this.onChoose(tag);
+	}
+}